@@ -0,0 +1,21 @@
+import fs from 'fs';
+import { createServer } from 'http';
+import path from 'path';
+import { createMockLiveServer, type MockScript } from './server/mockLiveServer';
+import { createMockTextHandler, type MockTextScript } from './server/mockTextServer';
+
+// Runs the scripted Live API stand-in. Point the app at it with
+// GEMINI_LIVE_URL=ws://localhost:9000 (any GEMINI_API_KEY will do).
+// The same port answers text chat's REST calls, for GEMINI_API_URL=http://localhost:9000.
+const port = Number(process.env.MOCK_LIVE_PORT) || 9000;
+const scriptPath = path.resolve(process.argv[2] || 'server/mockScripts/conversation.json');
+const script = JSON.parse(fs.readFileSync(scriptPath, 'utf8')) as MockScript;
+const textScriptPath = path.resolve(process.env.MOCK_TEXT_SCRIPT || 'server/mockScripts/text.json');
+const textScript = JSON.parse(fs.readFileSync(textScriptPath, 'utf8')) as MockTextScript;
+
+const server = createServer(createMockTextHandler(textScript, (line) => console.log(`[mock-text] ${line}`)));
+createMockLiveServer({ script, server, log: (line) => console.log(`[mock-live] ${line}`) });
+server.listen(port, () => {
+  console.log(`Mock Live server replaying ${script.name ?? path.basename(scriptPath)} on ws://localhost:${port}`);
+  console.log(`Mock text endpoint replying from ${textScript.name ?? path.basename(textScriptPath)} on http://localhost:${port}`);
+});
@@ -0,0 +1,143 @@
+import dotenv from 'dotenv';
+import express from 'express';
+import { createServer } from 'http';
+import path from 'path';
+import { authenticate, requireUser, userFromRequest } from './server/auth';
+import { createAuthRouter } from './server/authRoutes';
+import { createChatRouter } from './server/chatRoutes';
+import { openDatabase } from './server/db';
+import { createEmbedRouter } from './server/embedRoutes';
+import { verifyEmbedToken } from './server/embedTokens';
+import { createKnowledgeRouter } from './server/knowledgeRoutes';
+import { KnowledgeStore } from './server/knowledgeStore';
+import { attachLiveRelay } from './server/liveRelay';
+import { createMemoryRouter } from './server/memoryRoutes';
+import { MemoryStore } from './server/memoryStore';
+import { createPersonaRouter } from './server/personaRoutes';
+import { PersonaStore } from './server/personaStore';
+import { LiveQuota } from './server/quotas';
+import { createSessionRouter } from './server/sessionRoutes';
+import { SessionStore } from './server/sessionStore';
+import { createTelemetryRouter } from './server/telemetryRoutes';
+import { TelemetryStore } from './server/telemetryStore';
+import { UsageStore } from './server/usageStore';
+import { UserStore } from './server/userStore';
+
+dotenv.config({ path: ['.env.local', '.env'], quiet: true });
+
+const PORT = Number(process.env.PORT) || 3000;
+const isProduction = process.env.NODE_ENV === 'production';
+// Model for text chat when the Live API or the mic isn't available
+const DEFAULT_TEXT_MODEL = 'gemini-2.5-flash';
+
+// Per-user Live quotas; 0 turns a limit off
+const DEFAULT_SESSIONS_PER_HOUR = 60;
+const DEFAULT_TOKENS_PER_DAY = 2_000_000;
+
+const envCount = (name: string, fallback: number) => {
+  const value = process.env[name];
+  return value !== undefined && value !== '' && Number.isFinite(Number(value)) ? Math.max(0, Number(value)) : fallback;
+};
+
+async function main() {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    throw new Error('GEMINI_API_KEY is not set. Add it to .env.local or the environment.');
+  }
+
+  const app = express();
+  // Text chat turns carry the conversation so far, attached images included
+  app.use(express.json({ limit: '10mb' }));
+
+  // Lets host servers mint tokens for the <luca-assistant> widget on their pages
+  const embedSecret = process.env.LUCA_EMBED_SECRET;
+
+  const db = openDatabase();
+  const users = new UserStore(db);
+  const personaStore = new PersonaStore(db);
+  const knowledgeStore = new KnowledgeStore(db);
+  const quota = new LiveQuota(new UsageStore(db), {
+    sessionsPerHour: envCount('LUCA_QUOTA_SESSIONS_PER_HOUR', DEFAULT_SESSIONS_PER_HOUR),
+    tokensPerDay: envCount('LUCA_QUOTA_TOKENS_PER_DAY', DEFAULT_TOKENS_PER_DAY),
+  });
+  // Widget sessions run as LUCA_EMBED_USER, or the admin who set the server up
+  const embedOwnerId = () =>
+    (process.env.LUCA_EMBED_USER ? users.findByUsername(process.env.LUCA_EMBED_USER) : users.firstAdmin())?.id;
+
+  app.use(authenticate(users));
+  app.use('/api/auth', createAuthRouter(users, {
+    allowSignup: process.env.LUCA_ALLOW_SIGNUP !== 'false',
+    secureCookies: isProduction,
+  }));
+  app.use('/api/sessions', requireUser, createSessionRouter(new SessionStore(db)));
+  app.use('/api/personas', requireUser, createPersonaRouter(personaStore));
+  app.use('/api/knowledge', requireUser, createKnowledgeRouter(knowledgeStore));
+  app.use('/api/memories', requireUser, createMemoryRouter(new MemoryStore(db)));
+  app.use('/api/telemetry', requireUser, createTelemetryRouter(new TelemetryStore(db)));
+  app.use('/api/chat', requireUser, createChatRouter({
+    apiKey,
+    baseUrl: process.env.GEMINI_API_URL,
+    model: process.env.LUCA_TEXT_MODEL || DEFAULT_TEXT_MODEL,
+    admit: userId => quota.checkTokens(userId),
+    onUsage: (userId, tokens) => quota.recordTokens(userId, tokens),
+  }));
+  app.use('/api/embed', createEmbedRouter({
+    secret: embedSecret,
+    personas: personaStore,
+    knowledge: knowledgeStore,
+    ownerId: embedOwnerId,
+  }));
+
+  const server = createServer(app);
+  attachLiveRelay(server, {
+    apiKey,
+    upstreamUrl: process.env.GEMINI_LIVE_URL,
+    // The app's own pages sign in; other origins need an embed token
+    authorize: (req, key) => {
+      if (isSameOrigin(req.headers.origin, req.headers.host)) {
+        const user = userFromRequest(users, req);
+        if (user) return user.id;
+      }
+      if (embedSecret && verifyEmbedToken(embedSecret, key)) return embedOwnerId() ?? null;
+      return null;
+    },
+    admit: account => quota.admit(account),
+    onUsage: (account, tokens) => quota.recordTokens(account, tokens),
+  });
+
+  if (isProduction) {
+    const dist = path.resolve(import.meta.dirname, 'dist');
+    // The widget's module script and worklet are loaded by other sites
+    app.use('/embed', (_req, res, next) => {
+      res.set('Access-Control-Allow-Origin', '*');
+      next();
+    });
+    app.use(express.static(dist));
+    app.get('*', (_req, res) => res.sendFile(path.join(dist, 'index.html')));
+  } else {
+    const { createServer: createViteServer } = await import('vite');
+    const vite = await createViteServer({
+      server: { middlewareMode: true },
+      appType: 'spa',
+    });
+    app.use(vite.middlewares);
+  }
+
+  server.listen(PORT, '0.0.0.0', () => {
+    console.log(`LUCA server listening on http://localhost:${PORT}`);
+  });
+}
+
+function isSameOrigin(origin: string | undefined, host: string | undefined) {
+  if (!origin || !host) return false;
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,60 @@
+import type { IncomingMessage } from 'http';
+import type { NextFunction, Request, Response } from 'express';
+import type { User } from '../src/types';
+import type { UserStore } from './userStore';
+
+export const SESSION_COOKIE = 'luca_session';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by `authenticate` when the request carries a valid session cookie.
+      user?: User;
+    }
+  }
+}
+
+/** Reads one cookie from a raw Cookie header. */
+export function readCookie(header: string | undefined, name: string) {
+  for (const part of header?.split(';') ?? []) {
+    const separator = part.indexOf('=');
+    if (separator !== -1 && part.slice(0, separator).trim() === name) {
+      try {
+        return decodeURIComponent(part.slice(separator + 1).trim());
+      } catch {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+}
+
+/** The signed-in user of any HTTP request, including websocket upgrades. */
+export function userFromRequest(users: UserStore, req: IncomingMessage) {
+  const token = readCookie(req.headers.cookie, SESSION_COOKIE);
+  return token ? users.userForSession(token) : undefined;
+}
+
+/** Attaches the signed-in user, if any, to `req.user`. */
+export function authenticate(users: UserStore) {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    req.user = userFromRequest(users, req);
+    next();
+  };
+}
+
+export function requireUser(req: Request, res: Response, next: NextFunction) {
+  if (!req.user) {
+    res.status(401).json({ error: 'Sign in to continue' });
+    return;
+  }
+  next();
+}
+
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!req.user?.isAdmin) {
+    res.status(req.user ? 403 : 401).json({ error: 'Only admins can do that' });
+    return;
+  }
+  next();
+}
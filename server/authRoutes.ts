@@ -0,0 +1,95 @@
+import { Router, type Response } from 'express';
+import { SESSION_COOKIE, readCookie } from './auth';
+import { RateLimiter } from './quotas';
+import { SESSION_TTL, type UserStore } from './userStore';
+
+const USERNAME_PATTERN = /^[\w.-]{3,32}$/;
+const MIN_PASSWORD_LENGTH = 8;
+const MAX_PASSWORD_LENGTH = 200;
+// Failed sign-ins allowed per address and username before it has to wait
+const MAX_FAILED_LOGINS = 10;
+const FAILED_LOGIN_WINDOW = 15 * 60 * 1000;
+
+export interface AuthRouterOptions {
+  // Let anyone create an account. The first account can always be created.
+  allowSignup: boolean;
+  // Only send the session cookie over HTTPS.
+  secureCookies: boolean;
+}
+
+const parseCredentials = (body: any) => ({
+  username: typeof body?.username === 'string' ? body.username.trim() : '',
+  password: typeof body?.password === 'string' ? body.password : '',
+});
+
+export function createAuthRouter(users: UserStore, options: AuthRouterOptions) {
+  const router = Router();
+  const failedLogins = new RateLimiter(MAX_FAILED_LOGINS, FAILED_LOGIN_WINDOW);
+
+  const startSession = (res: Response, userId: string) => {
+    res.cookie(SESSION_COOKIE, users.createSession(userId), {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: options.secureCookies,
+      maxAge: SESSION_TTL,
+      path: '/',
+    });
+  };
+
+  router.get('/me', (req, res) => {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not signed in', signupOpen: options.allowSignup || users.count() === 0 });
+      return;
+    }
+    res.json(req.user);
+  });
+
+  router.post('/register', async (req, res) => {
+    const { username, password } = parseCredentials(req.body);
+    if (!options.allowSignup && users.count() > 0) {
+      res.status(403).json({ error: 'Sign-up is closed on this server. Ask an admin for an account.' });
+      return;
+    }
+    if (!USERNAME_PATTERN.test(username)) {
+      res.status(400).json({ error: 'Usernames are 3 to 32 letters, digits, dots, dashes or underscores' });
+      return;
+    }
+    if (password.length < MIN_PASSWORD_LENGTH || password.length > MAX_PASSWORD_LENGTH) {
+      res.status(400).json({ error: `Passwords need at least ${MIN_PASSWORD_LENGTH} characters` });
+      return;
+    }
+    const user = await users.create(username, password);
+    if (!user) {
+      res.status(409).json({ error: 'That username is taken' });
+      return;
+    }
+    startSession(res, user.id);
+    res.status(201).json(user);
+  });
+
+  router.post('/login', async (req, res) => {
+    const { username, password } = parseCredentials(req.body);
+    const key = `${req.ip}:${username.toLowerCase()}`;
+    if (!failedLogins.allows(key)) {
+      res.status(429).json({ error: 'Too many failed sign-ins. Try again in a few minutes.' });
+      return;
+    }
+    const user = username && password.length <= MAX_PASSWORD_LENGTH ? await users.authenticate(username, password) : undefined;
+    if (!user) {
+      failedLogins.record(key);
+      res.status(401).json({ error: 'Wrong username or password' });
+      return;
+    }
+    startSession(res, user.id);
+    res.json(user);
+  });
+
+  router.post('/logout', (req, res) => {
+    const token = readCookie(req.headers.cookie, SESSION_COOKIE);
+    if (token) users.deleteSession(token);
+    res.clearCookie(SESSION_COOKIE, { path: '/' });
+    res.status(204).end();
+  });
+
+  return router;
+}
@@ -0,0 +1,120 @@
+import { GoogleGenAI, type Content, type FunctionDeclaration, type GenerateContentResponse } from '@google/genai';
+import { Router } from 'express';
+
+const ROLES = ['user', 'model'];
+const MAX_SYSTEM_INSTRUCTION_LENGTH = 50_000;
+
+export interface ChatRouterOptions {
+  apiKey: string;
+  // Base URL of the Gemini REST API. Override to point at a local mock endpoint.
+  baseUrl?: string;
+  model: string;
+  // Checked before each turn; a returned reason refuses it with 429.
+  admit?: (userId: string) => string | null;
+  onUsage?: (userId: string, tokens: number) => void;
+}
+
+const isContent = (value: any): value is Content =>
+  ROLES.includes(value?.role) && Array.isArray(value.parts) && value.parts.every((part: unknown) => part && typeof part === 'object');
+
+// Live-only fields such as `behavior` are rejected by generateContent
+const toDeclaration = (value: any): FunctionDeclaration | null =>
+  typeof value?.name === 'string'
+    ? { name: value.name, description: value.description, parameters: value.parameters, parametersJsonSchema: value.parametersJsonSchema }
+    : null;
+
+// The spoken reply in a streamed chunk, leaving out the model's thoughts
+const replyText = (chunk: GenerateContentResponse) =>
+  (chunk.candidates?.[0]?.content?.parts ?? [])
+    .filter(part => !part.thought && typeof part.text === 'string')
+    .map(part => part.text)
+    .join('');
+
+// The SDK's API errors carry the whole JSON error body as their message
+function errorMessage(err: unknown) {
+  const message = err instanceof Error ? err.message : String(err);
+  try {
+    return JSON.parse(message).error?.message ?? message;
+  } catch {
+    return message;
+  }
+}
+
+/**
+ * Text chat with the same persona and tools as a Live session, for when voice
+ * isn't available.
+ *
+ * POST / takes `{ systemInstruction, contents, tools }` and streams the reply as
+ * newline-delimited JSON: `{ text }` chunks, `{ functionCalls }` for tool calls
+ * the client should run and send back, and `{ error }` if the model fails midway.
+ * A failure before the reply starts is a 502 instead.
+ */
+export function createChatRouter(options: ChatRouterOptions) {
+  const router = Router();
+  const ai = new GoogleGenAI({
+    apiKey: options.apiKey,
+    httpOptions: options.baseUrl ? { baseUrl: options.baseUrl } : undefined,
+  });
+
+  router.post('/', async (req, res) => {
+    const { systemInstruction, contents, tools } = req.body ?? {};
+    if (typeof systemInstruction !== 'string' || systemInstruction.length > MAX_SYSTEM_INSTRUCTION_LENGTH) {
+      res.status(400).json({ error: `Expected a systemInstruction of at most ${MAX_SYSTEM_INSTRUCTION_LENGTH} characters` });
+      return;
+    }
+    if (!Array.isArray(contents) || contents.length === 0 || !contents.every(isContent)) {
+      res.status(400).json({ error: 'Expected contents: a non-empty array of { role: "user" | "model", parts }' });
+      return;
+    }
+    const declarations = Array.isArray(tools) ? tools.map(toDeclaration).filter(tool => tool !== null) : [];
+
+    const userId = req.user!.id;
+    const refusal = options.admit?.(userId) ?? null;
+    if (refusal !== null) {
+      res.status(429).json({ error: refusal });
+      return;
+    }
+
+    // Stop generating (and paying for) a reply nobody is reading
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    let stream: AsyncGenerator<GenerateContentResponse>;
+    try {
+      stream = await ai.models.generateContentStream({
+        model: options.model,
+        contents,
+        config: {
+          systemInstruction,
+          tools: declarations.length ? [{ functionDeclarations: declarations }] : undefined,
+          abortSignal: controller.signal,
+        },
+      });
+    } catch (err) {
+      if (!controller.signal.aborted) res.status(502).json({ error: errorMessage(err) });
+      return;
+    }
+
+    res.status(200).type('application/x-ndjson');
+    const write = (line: object) => res.write(`${JSON.stringify(line)}\n`);
+    let tokens = 0;
+    try {
+      for await (const chunk of stream) {
+        const text = replyText(chunk);
+        if (text) write({ text });
+        if (chunk.functionCalls?.length) write({ functionCalls: chunk.functionCalls });
+        // Each chunk reports the running total for the whole reply
+        tokens = chunk.usageMetadata?.totalTokenCount ?? tokens;
+      }
+    } catch (err) {
+      if (!controller.signal.aborted) write({ error: errorMessage(err) });
+    } finally {
+      options.onUsage?.(userId, tokens);
+      res.end();
+    }
+  });
+
+  return router;
+}
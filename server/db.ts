@@ -0,0 +1,149 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+
+export type DB = Database.Database;
+
+const MIGRATIONS = [
+  `CREATE TABLE sessions (
+    id TEXT PRIMARY KEY,
+    title TEXT NOT NULL DEFAULT '',
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE TABLE messages (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    role TEXT NOT NULL,
+    text TEXT NOT NULL,
+    emotion TEXT,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX messages_session_idx ON messages(session_id, created_at);`,
+  `ALTER TABLE messages ADD COLUMN interrupted INTEGER NOT NULL DEFAULT 0;`,
+  `ALTER TABLE messages ADD COLUMN tool TEXT;`,
+  `CREATE TABLE personas (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+  );`,
+  `ALTER TABLE messages ADD COLUMN ended_at INTEGER;
+  CREATE TABLE recordings (
+    session_id TEXT PRIMARY KEY REFERENCES sessions(id) ON DELETE CASCADE,
+    data BLOB NOT NULL,
+    started_at INTEGER NOT NULL
+  );`,
+  `ALTER TABLE messages ADD COLUMN attachments TEXT;`,
+  `CREATE TABLE documents (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    mime_type TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    chunk_count INTEGER NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+  CREATE VIRTUAL TABLE knowledge_chunks USING fts5(
+    heading,
+    text,
+    document_id UNINDEXED,
+    ordinal UNINDEXED,
+    tokenize = 'porter unicode61'
+  );
+  ALTER TABLE messages ADD COLUMN citations TEXT;`,
+  `CREATE TABLE memories (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    text TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    last_used_at INTEGER
+  );
+  CREATE INDEX memories_user_idx ON memories(user_id, updated_at);`,
+  `CREATE TABLE telemetry_sessions (
+    session_id TEXT PRIMARY KEY,
+    persona_id TEXT NOT NULL,
+    started_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    ended_at INTEGER,
+    user_turns INTEGER NOT NULL DEFAULT 0,
+    ai_turns INTEGER NOT NULL DEFAULT 0,
+    underruns INTEGER NOT NULL DEFAULT 0,
+    reconnects INTEGER NOT NULL DEFAULT 0,
+    prompt_tokens INTEGER NOT NULL DEFAULT 0,
+    response_tokens INTEGER NOT NULL DEFAULT 0,
+    total_tokens INTEGER NOT NULL DEFAULT 0
+  );
+  CREATE INDEX telemetry_sessions_started_idx ON telemetry_sessions(started_at);
+  CREATE TABLE telemetry_latencies (
+    session_id TEXT NOT NULL REFERENCES telemetry_sessions(session_id) ON DELETE CASCADE,
+    at INTEGER NOT NULL,
+    ms INTEGER NOT NULL
+  );
+  CREATE INDEX telemetry_latencies_session_idx ON telemetry_latencies(session_id, at);`,
+  // Data from before accounts existed has an empty user_id until the first account claims it.
+  `CREATE TABLE users (
+    id TEXT PRIMARY KEY,
+    username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    password_hash TEXT NOT NULL,
+    is_admin INTEGER NOT NULL DEFAULT 0,
+    created_at INTEGER NOT NULL
+  );
+  CREATE TABLE auth_sessions (
+    token_hash TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL
+  );
+  CREATE TABLE usage (
+    user_id TEXT NOT NULL,
+    day TEXT NOT NULL,
+    sessions INTEGER NOT NULL DEFAULT 0,
+    tokens INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (user_id, day)
+  );
+  ALTER TABLE sessions ADD COLUMN user_id TEXT NOT NULL DEFAULT '';
+  CREATE INDEX sessions_user_idx ON sessions(user_id, updated_at);
+  CREATE TABLE user_personas (
+    user_id TEXT NOT NULL DEFAULT '',
+    id TEXT NOT NULL,
+    data TEXT NOT NULL,
+    updated_at INTEGER NOT NULL,
+    PRIMARY KEY (user_id, id)
+  );
+  INSERT INTO user_personas (id, data, updated_at) SELECT id, data, updated_at FROM personas;
+  DROP TABLE personas;
+  ALTER TABLE user_personas RENAME TO personas;
+  UPDATE memories SET user_id = '' WHERE user_id = 'local';
+  ALTER TABLE telemetry_sessions ADD COLUMN user_id TEXT NOT NULL DEFAULT '';`,
+  `ALTER TABLE messages ADD COLUMN language TEXT;`,
+  // Rows from before messages had UUIDs keep a NULL uid and are addressed by their row id.
+  `ALTER TABLE messages ADD COLUMN uid TEXT;
+  ALTER TABLE messages ADD COLUMN source TEXT;
+  ALTER TABLE messages ADD COLUMN pinned INTEGER NOT NULL DEFAULT 0;
+  CREATE INDEX messages_uid_idx ON messages(session_id, uid);`,
+];
+
+/**
+ * Opens the SQLite database and brings its schema up to date.
+ * Pass ':memory:' for a throwaway database.
+ */
+export function openDatabase(file = process.env.LUCA_DB_PATH || 'data/luca.db'): DB {
+  if (file !== ':memory:') {
+    fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+  }
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  migrate(db);
+  return db;
+}
+
+function migrate(db: DB) {
+  const version = db.pragma('user_version', { simple: true }) as number;
+  for (let i = version; i < MIGRATIONS.length; i++) {
+    db.transaction(() => {
+      db.exec(MIGRATIONS[i]);
+      db.pragma(`user_version = ${i + 1}`);
+    })();
+  }
+}
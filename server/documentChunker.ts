@@ -0,0 +1,103 @@
+import path from 'path';
+import { extractPdfPages } from './pdfText';
+
+export interface DocumentChunk {
+  // Section path for Markdown ("Returns › Refunds"), page for PDFs, empty for plain text.
+  heading: string;
+  text: string;
+}
+
+// Chunks are packed up to about this many characters, and split above the maximum.
+const TARGET_CHUNK_LENGTH = 1000;
+const MAX_CHUNK_LENGTH = 1600;
+
+const MARKDOWN_EXTENSIONS = ['.md', '.markdown', '.mdx'];
+const TEXT_EXTENSIONS = ['.txt', '.text', '.csv', '.log', '.json', '.yaml', '.yml'];
+
+export type DocumentKind = 'markdown' | 'text' | 'pdf';
+
+/** What kind of document an upload is, from its MIME type or else its extension. */
+export function documentKind(name: string, mimeType: string): DocumentKind | null {
+  const extension = path.extname(name).toLowerCase();
+  if (mimeType === 'application/pdf' || extension === '.pdf') return 'pdf';
+  if (mimeType === 'text/markdown' || MARKDOWN_EXTENSIONS.includes(extension)) return 'markdown';
+  if (mimeType.startsWith('text/') || TEXT_EXTENSIONS.includes(extension)) return 'text';
+  return null;
+}
+
+/** Splits an uploaded document into passages small enough to index and quote. */
+export function chunkDocument(kind: DocumentKind, data: Buffer): DocumentChunk[] {
+  if (kind === 'pdf') {
+    return extractPdfPages(data).flatMap((page, i) => chunkText(page, `Page ${i + 1}`));
+  }
+  const text = data.toString('utf8');
+  return kind === 'markdown' ? chunkMarkdown(text) : chunkText(text, '');
+}
+
+function chunkMarkdown(markdown: string): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+  const headings: string[] = [];
+  let section: string[] = [];
+  let inCodeBlock = false;
+
+  const flush = () => {
+    chunks.push(...chunkText(section.join('\n'), headings.filter(Boolean).join(' › ')));
+    section = [];
+  };
+
+  for (const line of markdown.replace(/\r\n?/g, '\n').split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) inCodeBlock = !inCodeBlock;
+    const heading = !inCodeBlock && line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      headings.splice(level - 1, headings.length, heading[2]);
+    } else {
+      section.push(line);
+    }
+  }
+  flush();
+  return chunks;
+}
+
+// Packs paragraphs into chunks, splitting paragraphs that are too long on sentence boundaries.
+function chunkText(text: string, heading: string): DocumentChunk[] {
+  const paragraphs = text
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .flatMap(splitLongParagraph);
+
+  const chunks: DocumentChunk[] = [];
+  let current = '';
+  for (const paragraph of paragraphs) {
+    if (current && current.length + paragraph.length + 2 > TARGET_CHUNK_LENGTH) {
+      chunks.push({ heading, text: current });
+      current = '';
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+  if (current) chunks.push({ heading, text: current });
+  return chunks;
+}
+
+function splitLongParagraph(paragraph: string): string[] {
+  if (paragraph.length <= MAX_CHUNK_LENGTH) return [paragraph];
+  const pieces: string[] = [];
+  let current = '';
+  for (const sentence of paragraph.match(/[^.!?]+(?:[.!?]+|$)\s*/g) ?? [paragraph]) {
+    if (current && current.length + sentence.length > TARGET_CHUNK_LENGTH) {
+      pieces.push(current.trim());
+      current = '';
+    }
+    current += sentence;
+    // A single run-on "sentence" is cut at the hard limit
+    while (current.length > MAX_CHUNK_LENGTH) {
+      pieces.push(current.slice(0, MAX_CHUNK_LENGTH).trim());
+      current = current.slice(MAX_CHUNK_LENGTH);
+    }
+  }
+  if (current.trim()) pieces.push(current.trim());
+  return pieces;
+}
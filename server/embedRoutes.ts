@@ -0,0 +1,82 @@
+import { Router, type NextFunction, type Request, type Response } from 'express';
+import { BUILTIN_PERSONAS } from '../src/personas/personas';
+import { createEmbedToken, safeEqual, verifyEmbedToken } from './embedTokens';
+import type { KnowledgeStore } from './knowledgeStore';
+import type { PersonaStore } from './personaStore';
+
+export interface EmbedRouterOptions {
+  // Shared with host servers; embedding is off without it.
+  secret?: string;
+  personas: PersonaStore;
+  knowledge: KnowledgeStore;
+  // The account whose personas the widget uses (and whose quota its sessions count against)
+  ownerId: () => string | undefined;
+  tokenTtl?: number;
+}
+
+/**
+ * Endpoints for the `<luca-assistant>` widget on other sites. The host's
+ * server trades the embed secret for a relay token, and the widget fetches
+ * its persona and searches the knowledge base cross-origin.
+ */
+export function createEmbedRouter(options: EmbedRouterOptions) {
+  const router = Router();
+
+  router.post('/token', (req, res) => {
+    if (!options.secret) {
+      res.status(404).json({ error: 'Embedding is not enabled on this server' });
+      return;
+    }
+    const credentials = bearer(req);
+    if (!credentials || !safeEqual(credentials, options.secret)) {
+      res.status(401).json({ error: 'Invalid embed secret' });
+      return;
+    }
+    res.json(createEmbedToken(options.secret, options.tokenTtl));
+  });
+
+  // The widget sends the relay token it was given
+  const requireEmbedToken = (req: Request, res: Response, next: NextFunction) => {
+    if (!options.secret) {
+      res.status(404).json({ error: 'Embedding is not enabled on this server' });
+      return;
+    }
+    if (!verifyEmbedToken(options.secret, bearer(req))) {
+      res.status(401).json({ error: 'Invalid or expired embed token' });
+      return;
+    }
+    next();
+  };
+
+  // The widget reads these from other origins
+  router.use(['/personas', '/knowledge'], (req, res, next) => {
+    res.set({ 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Headers': 'Content-Type, Authorization' });
+    if (req.method === 'OPTIONS') {
+      res.status(204).end();
+      return;
+    }
+    next();
+  }, requireEmbedToken);
+
+  router.get('/personas/:id', (req, res) => {
+    const ownerId = options.ownerId();
+    const persona = (ownerId ? options.personas.list(ownerId) : []).find(p => p.id === req.params.id)
+      ?? BUILTIN_PERSONAS.find(p => p.id === req.params.id);
+    if (!persona) {
+      res.status(404).json({ error: 'Persona not found' });
+      return;
+    }
+    res.json(persona);
+  });
+
+  router.get('/knowledge/search', (req, res) => {
+    const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    res.json(query ? options.knowledge.search(query) : []);
+  });
+
+  return router;
+}
+
+function bearer(req: Request) {
+  return req.get('authorization')?.match(/^Bearer (.+)$/)?.[1];
+}
@@ -0,0 +1,30 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// How long a widget has to open its Live connection with a token.
+export const DEFAULT_TOKEN_TTL = 10 * 60 * 1000;
+
+/**
+ * Short-lived tokens that let an embedded widget on another origin use the
+ * Live relay. A token is `<expiresAt>.<signature>`, signed with the embed
+ * secret the host's server shares with this one; nothing is stored.
+ */
+export function createEmbedToken(secret: string, ttl = DEFAULT_TOKEN_TTL, now = Date.now()) {
+  const expiresAt = now + ttl;
+  return { token: `${expiresAt}.${sign(secret, String(expiresAt))}`, expiresAt };
+}
+
+export function verifyEmbedToken(secret: string, token: string | null | undefined, now = Date.now()) {
+  const [expiresAt, signature] = token?.split('.') ?? [];
+  if (!expiresAt || !signature || !(Number(expiresAt) > now)) return false;
+  return safeEqual(signature, sign(secret, expiresAt));
+}
+
+export function safeEqual(a: string, b: string) {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function sign(secret: string, payload: string) {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
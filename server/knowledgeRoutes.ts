@@ -0,0 +1,61 @@
+import express, { Router } from 'express';
+import path from 'path';
+import { requireAdmin } from './auth';
+import { chunkDocument, documentKind } from './documentChunker';
+import type { KnowledgeStore } from './knowledgeStore';
+
+const MAX_DOCUMENT_SIZE = '20mb';
+const MAX_SEARCH_RESULTS = 10;
+
+export function createKnowledgeRouter(store: KnowledgeStore) {
+  const router = Router();
+
+  router.get('/', (_req, res) => {
+    res.json(store.list());
+  });
+
+  router.get('/search', (req, res) => {
+    const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    const limit = Math.min(MAX_SEARCH_RESULTS, Number(req.query.limit) || 5);
+    res.json(query ? store.search(query, limit) : []);
+  });
+
+  // Documents are shared by every account, so only admins change them.
+  // The file is the body; its name comes in the query string
+  router.post('/', requireAdmin, express.raw({ type: () => true, limit: MAX_DOCUMENT_SIZE }), (req, res) => {
+    const name = typeof req.query.name === 'string' ? path.basename(req.query.name.trim()) : '';
+    const mimeType = (req.get('content-type') || 'application/octet-stream').split(';')[0].trim();
+    if (!name || !Buffer.isBuffer(req.body) || req.body.length === 0) {
+      res.status(400).json({ error: 'Expected a file body and a name' });
+      return;
+    }
+    const kind = documentKind(name, mimeType);
+    if (!kind) {
+      res.status(415).json({ error: 'Only Markdown, plain text and PDF documents are supported' });
+      return;
+    }
+
+    let chunks;
+    try {
+      chunks = chunkDocument(kind, req.body);
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+      return;
+    }
+    if (chunks.length === 0) {
+      res.status(400).json({ error: 'The document has no text' });
+      return;
+    }
+    res.status(201).json(store.add({ name, mimeType, size: req.body.length, chunks }));
+  });
+
+  router.delete('/:id', requireAdmin, (req, res) => {
+    if (!store.delete(req.params.id)) {
+      res.status(404).json({ error: 'Document not found' });
+      return;
+    }
+    res.status(204).end();
+  });
+
+  return router;
+}
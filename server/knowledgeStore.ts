@@ -0,0 +1,107 @@
+import { randomUUID } from 'crypto';
+import type { KnowledgeDocument, KnowledgeHit } from '../src/types';
+import type { DB } from './db';
+import type { DocumentChunk } from './documentChunker';
+
+interface DocumentRow {
+  id: string;
+  name: string;
+  mime_type: string;
+  size: number;
+  chunk_count: number;
+  created_at: number;
+}
+
+interface HitRow {
+  document_id: string;
+  document_name: string;
+  heading: string;
+  text: string;
+}
+
+export interface NewDocument {
+  name: string;
+  mimeType: string;
+  size: number;
+  chunks: DocumentChunk[];
+}
+
+// Words too common to say anything about which passage is relevant.
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i', 'in', 'is', 'it',
+  'me', 'my', 'of', 'on', 'or', 'our', 'so', 'that', 'the', 'this', 'to', 'was', 'we', 'what', 'when', 'where',
+  'which', 'who', 'why', 'with', 'you', 'your',
+]);
+
+const toDocument = (row: DocumentRow): KnowledgeDocument => ({
+  id: row.id,
+  name: row.name,
+  mimeType: row.mime_type,
+  size: row.size,
+  chunkCount: row.chunk_count,
+  createdAt: row.created_at,
+});
+
+/** The distinct, lowercased words of a free-text query that are worth searching for. */
+export function searchTerms(query: string) {
+  const words = query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return [...new Set(words.filter(word => !STOP_WORDS.has(word)))];
+}
+
+/**
+ * Free-text query to an FTS5 expression: each word quoted (so punctuation
+ * can't be read as query syntax) and OR-ed, leaving relevance to bm25.
+ */
+export function toMatchExpression(query: string) {
+  return searchTerms(query).map(term => `"${term}"`).join(' OR ');
+}
+
+/** Uploaded documents, chunked and indexed with SQLite full-text search. */
+export class KnowledgeStore {
+  constructor(private db: DB) {}
+
+  list(): KnowledgeDocument[] {
+    const rows = this.db.prepare('SELECT * FROM documents ORDER BY created_at DESC').all() as DocumentRow[];
+    return rows.map(toDocument);
+  }
+
+  add(document: NewDocument, createdAt = Date.now()): KnowledgeDocument {
+    const id = randomUUID();
+    this.db.transaction(() => {
+      this.db
+        .prepare('INSERT INTO documents (id, name, mime_type, size, chunk_count, created_at) VALUES (?, ?, ?, ?, ?, ?)')
+        .run(id, document.name, document.mimeType, document.size, document.chunks.length, createdAt);
+      const insert = this.db.prepare('INSERT INTO knowledge_chunks (heading, text, document_id, ordinal) VALUES (?, ?, ?, ?)');
+      document.chunks.forEach((chunk, i) => insert.run(chunk.heading, chunk.text, id, i));
+    })();
+    return toDocument(this.db.prepare('SELECT * FROM documents WHERE id = ?').get(id) as DocumentRow);
+  }
+
+  delete(id: string): boolean {
+    return this.db.transaction(() => {
+      this.db.prepare('DELETE FROM knowledge_chunks WHERE document_id = ?').run(id);
+      return this.db.prepare('DELETE FROM documents WHERE id = ?').run(id).changes > 0;
+    })();
+  }
+
+  /** Passages that best match `query`, best first. Matches in headings count double. */
+  search(query: string, limit = 5): KnowledgeHit[] {
+    const expression = toMatchExpression(query);
+    if (!expression) return [];
+    const rows = this.db
+      .prepare(
+        `SELECT c.document_id, d.name AS document_name, c.heading, c.text
+         FROM knowledge_chunks c JOIN documents d ON d.id = c.document_id
+         WHERE knowledge_chunks MATCH ?
+         ORDER BY bm25(knowledge_chunks, 2.0, 1.0)
+         LIMIT ?`,
+      )
+      .all(expression, limit) as HitRow[];
+    return rows.map(row => ({
+      documentId: row.document_id,
+      documentName: row.document_name,
+      heading: row.heading || undefined,
+      text: row.text,
+    }));
+  }
+}
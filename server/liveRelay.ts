@@ -0,0 +1,129 @@
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
+import { WebSocket, WebSocketServer, type RawData } from 'ws';
+
+// Path prefix the browser SDK is pointed at (see LiveAudioService).
+export const LIVE_RELAY_PATH = '/live';
+
+const DEFAULT_UPSTREAM_URL = 'wss://generativelanguage.googleapis.com';
+
+export interface LiveRelayOptions {
+  apiKey: string;
+  // Base websocket URL of the Live API. Override to point at a local mock endpoint.
+  upstreamUrl?: string;
+  // Decides which account a browser's session belongs to; `key` is whatever it
+  // sent as the API key. Returns null to turn it away.
+  authorize: (req: IncomingMessage, key: string | null) => string | null;
+  // Checked before the upstream session is opened; a returned reason closes
+  // the socket with it instead.
+  admit?: (account: string) => string | null;
+  // Tokens the Live API reports using on an account's behalf.
+  onUsage?: (account: string, tokens: number) => void;
+}
+
+/**
+ * Relays Live API websocket sessions from the browser to Gemini.
+ *
+ * The browser connects to `${LIVE_RELAY_PATH}/ws/...BidiGenerateContent` with a
+ * placeholder key; the relay swaps in the real key and pipes frames in both
+ * directions, so GEMINI_API_KEY never leaves the server.
+ */
+export function attachLiveRelay(server: Server, options: LiveRelayOptions) {
+  const upstreamUrl = (options.upstreamUrl || DEFAULT_UPSTREAM_URL).replace(/\/$/, '');
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (!url.pathname.startsWith(`${LIVE_RELAY_PATH}/ws/`)) return;
+
+    const account = options.authorize(req, url.searchParams.get('key'));
+    if (account === null) {
+      socket.end('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (client) => {
+      // A failed handshake reaches the browser without its reason, so quota
+      // refusals are sent as a policy close it can show and won't retry
+      const refusal = options.admit?.(account) ?? null;
+      if (refusal !== null) {
+        client.close(1008, refusal);
+        return;
+      }
+      const target = new URL(upstreamUrl + url.pathname.slice(LIVE_RELAY_PATH.length));
+      target.searchParams.set('key', options.apiKey);
+      relay(client, new WebSocket(target), tokens => options.onUsage?.(account, tokens));
+    });
+  });
+
+  return wss;
+}
+
+function relay(client: WebSocket, upstream: WebSocket, onUsage: (tokens: number) => void) {
+  // The SDK sends its setup message as soon as our socket opens, which is
+  // usually before the upstream handshake completes.
+  const pending: { data: RawData; isBinary: boolean }[] = [];
+
+  client.on('message', (data, isBinary) => {
+    if (upstream.readyState === WebSocket.OPEN) {
+      upstream.send(data, { binary: isBinary });
+    } else {
+      pending.push({ data, isBinary });
+    }
+  });
+
+  upstream.on('open', () => {
+    for (const { data, isBinary } of pending.splice(0)) {
+      upstream.send(data, { binary: isBinary });
+    }
+  });
+
+  upstream.on('message', (data, isBinary) => {
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(data, { binary: isBinary });
+    }
+    const tokens = reportedTokens(data);
+    if (tokens) onUsage(tokens);
+  });
+
+  upstream.on('close', (code, reason) => {
+    if (client.readyState === WebSocket.OPEN) {
+      client.close(toSendableCode(code), reason);
+    }
+  });
+
+  upstream.on('error', (err) => {
+    console.error('Live relay upstream error:', err.message);
+    if (client.readyState === WebSocket.OPEN) {
+      client.close(1011, 'Upstream connection failed');
+    }
+  });
+
+  client.on('close', () => {
+    if (upstream.readyState === WebSocket.OPEN || upstream.readyState === WebSocket.CONNECTING) {
+      upstream.terminate();
+    }
+  });
+
+  client.on('error', (err) => {
+    console.error('Live relay client error:', err.message);
+  });
+}
+
+// Total tokens in a server message's usageMetadata, sent once per model response.
+function reportedTokens(data: RawData) {
+  const buffer = Buffer.isBuffer(data) ? data : Array.isArray(data) ? Buffer.concat(data) : Buffer.from(data);
+  // Most messages are audio; only decode and parse the ones that can carry usage
+  if (!buffer.includes('"usageMetadata"')) return 0;
+  try {
+    const tokens = JSON.parse(buffer.toString()).usageMetadata?.totalTokenCount;
+    return typeof tokens === 'number' && tokens > 0 ? tokens : 0;
+  } catch {
+    return 0;
+  }
+}
+
+// 1005/1006 are reserved and cannot be sent in a close frame.
+function toSendableCode(code: number) {
+  return code === 1005 || code === 1006 ? 1000 : code;
+}
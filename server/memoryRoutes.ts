@@ -0,0 +1,63 @@
+import { Router } from 'express';
+import type { MemoryStore } from './memoryStore';
+
+const MAX_MEMORY_LENGTH = 500;
+const MAX_SEARCH_RESULTS = 10;
+// Enough to brief a session without crowding out the persona's own instructions
+const CONTEXT_SIZE = 30;
+
+const parseText = (body: any) => {
+  const text = typeof body?.text === 'string' ? body.text.trim() : '';
+  return text && text.length <= MAX_MEMORY_LENGTH ? text : null;
+};
+
+export function createMemoryRouter(store: MemoryStore) {
+  const router = Router();
+
+  router.get('/', (req, res) => {
+    res.json(store.list(req.user!.id));
+  });
+
+  router.get('/context', (req, res) => {
+    res.json(store.context(req.user!.id, CONTEXT_SIZE));
+  });
+
+  router.get('/search', (req, res) => {
+    const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    const limit = Math.min(MAX_SEARCH_RESULTS, Number(req.query.limit) || 5);
+    res.json(query ? store.search(req.user!.id, query, limit) : []);
+  });
+
+  router.post('/', (req, res) => {
+    const text = parseText(req.body);
+    if (!text) {
+      res.status(400).json({ error: `Expected non-empty text of at most ${MAX_MEMORY_LENGTH} characters` });
+      return;
+    }
+    res.status(201).json(store.add(req.user!.id, text));
+  });
+
+  router.put('/:id', (req, res) => {
+    const text = parseText(req.body);
+    if (!text) {
+      res.status(400).json({ error: `Expected non-empty text of at most ${MAX_MEMORY_LENGTH} characters` });
+      return;
+    }
+    const memory = store.update(req.user!.id, req.params.id, text);
+    if (!memory) {
+      res.status(404).json({ error: 'Memory not found' });
+      return;
+    }
+    res.json(memory);
+  });
+
+  router.delete('/:id', (req, res) => {
+    if (!store.delete(req.user!.id, req.params.id)) {
+      res.status(404).json({ error: 'Memory not found' });
+      return;
+    }
+    res.status(204).end();
+  });
+
+  return router;
+}
@@ -0,0 +1,96 @@
+import { randomUUID } from 'crypto';
+import type { Memory } from '../src/types';
+import type { DB } from './db';
+import { searchTerms } from './knowledgeStore';
+
+interface MemoryRow {
+  id: string;
+  text: string;
+  created_at: number;
+  updated_at: number;
+  last_used_at: number | null;
+}
+
+const toMemory = (row: MemoryRow): Memory => ({
+  id: row.id,
+  text: row.text,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  lastUsedAt: row.last_used_at ?? undefined,
+});
+
+// Facts saved or recalled lately are the ones most likely to matter next session.
+const RECENCY = 'MAX(updated_at, COALESCE(last_used_at, 0))';
+
+/** Facts about each user that LUCA carries from one session to the next. */
+export class MemoryStore {
+  constructor(private db: DB) {}
+
+  list(userId: string): Memory[] {
+    const rows = this.db
+      .prepare('SELECT * FROM memories WHERE user_id = ? ORDER BY updated_at DESC')
+      .all(userId) as MemoryRow[];
+    return rows.map(toMemory);
+  }
+
+  /** The facts to brief a new session with, most relevant first. */
+  context(userId: string, limit: number): Memory[] {
+    const rows = this.db
+      .prepare(`SELECT * FROM memories WHERE user_id = ? ORDER BY ${RECENCY} DESC LIMIT ?`)
+      .all(userId, limit) as MemoryRow[];
+    return rows.map(toMemory);
+  }
+
+  /** Facts sharing the most words with `query`. Marks them as used. */
+  search(userId: string, query: string, limit = 5, now = Date.now()): Memory[] {
+    const terms = searchTerms(query);
+    if (terms.length === 0) return [];
+    const scored = this.list(userId)
+      .map(memory => {
+        const text = memory.text.toLowerCase();
+        return { memory, score: terms.filter(term => text.includes(term)).length };
+      })
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ memory }) => memory);
+
+    const touch = this.db.prepare('UPDATE memories SET last_used_at = ? WHERE id = ?');
+    this.db.transaction(() => scored.forEach(memory => touch.run(now, memory.id)))();
+    return scored.map(memory => ({ ...memory, lastUsedAt: now }));
+  }
+
+  /** Saves a fact. Saying the same thing twice refreshes the existing one instead. */
+  add(userId: string, text: string, now = Date.now()): Memory {
+    const existing = this.db
+      .prepare('SELECT id FROM memories WHERE user_id = ? AND lower(text) = lower(?)')
+      .get(userId, text) as { id: string } | undefined;
+    if (existing) {
+      this.db.prepare('UPDATE memories SET updated_at = ? WHERE id = ?').run(now, existing.id);
+      return this.get(userId, existing.id)!;
+    }
+    const id = randomUUID();
+    this.db
+      .prepare('INSERT INTO memories (id, user_id, text, created_at, updated_at) VALUES (?, ?, ?, ?, ?)')
+      .run(id, userId, text, now, now);
+    return this.get(userId, id)!;
+  }
+
+  update(userId: string, id: string, text: string, now = Date.now()): Memory | undefined {
+    const { changes } = this.db
+      .prepare('UPDATE memories SET text = ?, updated_at = ? WHERE id = ? AND user_id = ?')
+      .run(text, now, id, userId);
+    return changes > 0 ? this.get(userId, id) : undefined;
+  }
+
+  delete(userId: string, id: string): boolean {
+    return this.db.prepare('DELETE FROM memories WHERE id = ? AND user_id = ?').run(id, userId).changes > 0;
+  }
+
+  private get(userId: string, id: string): Memory | undefined {
+    const row = this.db
+      .prepare('SELECT * FROM memories WHERE id = ? AND user_id = ?')
+      .get(id, userId) as MemoryRow | undefined;
+    return row && toMemory(row);
+  }
+}
@@ -0,0 +1,160 @@
+import type { IncomingMessage, Server } from 'http';
+import { WebSocket, WebSocketServer } from 'ws';
+
+// Client events a scripted turn can wait for.
+export type MockTrigger =
+  | 'setup'
+  | 'text'
+  | 'clientContent'
+  | 'activityStart'
+  | 'activityEnd'
+  | 'audioStreamEnd'
+  | 'toolResponse';
+
+export type MockStep = { delay?: number } & (
+  // Sent as is; any LiveServerMessage shape.
+  | { message: Record<string, unknown> }
+  // Model speech: a sine tone streamed as 24kHz PCM chunks.
+  | { audio: { duration: number; frequency?: number; chunkDuration?: number } }
+  | { close: { code: number; reason?: string } }
+);
+
+export interface MockTurn {
+  trigger: MockTrigger;
+  // For 'text' and 'clientContent': a regular expression the client's text must match.
+  match?: string;
+  steps: MockStep[];
+}
+
+export interface MockScript {
+  name?: string;
+  turns: MockTurn[];
+}
+
+export interface MockLiveServerOptions {
+  script: MockScript;
+  // Either listen on a port or share an existing HTTP server.
+  port?: number;
+  server?: Server;
+  log?: (line: string) => void;
+}
+
+const OUTPUT_SAMPLE_RATE = 24000;
+
+/**
+ * A stand-in for the Gemini Live websocket that replays a script.
+ *
+ * Each connection runs the script from the top: after the setup handshake,
+ * turns play in order, each once the client does what its `trigger` says.
+ * A turn that triggers while the previous one is still playing cancels the
+ * rest of it, the way barge-in cuts the model off.
+ */
+export function createMockLiveServer(options: MockLiveServerOptions) {
+  const log = options.log ?? (() => {});
+  const wss = options.server
+    ? new WebSocketServer({ server: options.server })
+    : new WebSocketServer({ port: options.port ?? 9000 });
+
+  wss.on('connection', (socket: WebSocket, req: IncomingMessage) => {
+    log(`connection ${req.url}`);
+    runScript(socket, options.script, log);
+  });
+
+  return wss;
+}
+
+function runScript(socket: WebSocket, script: MockScript, log: (line: string) => void) {
+  let next = 0;
+  let timers: ReturnType<typeof setTimeout>[] = [];
+
+  const cancel = () => {
+    timers.forEach(clearTimeout);
+    timers = [];
+  };
+
+  const play = (turn: MockTurn) => {
+    cancel();
+    let at = 0;
+    for (const step of turn.steps) {
+      at += step.delay ?? 0;
+      if ('audio' in step) {
+        const chunkDuration = step.audio.chunkDuration ?? 100;
+        for (let offset = 0; offset < step.audio.duration; offset += chunkDuration) {
+          const duration = Math.min(chunkDuration, step.audio.duration - offset);
+          const data = tone(step.audio.frequency ?? 220, offset, duration);
+          schedule(at, () => send({
+            serverContent: { modelTurn: { parts: [{ inlineData: { mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}`, data } }] } },
+          }));
+          // Stream at roughly real time, like the real service
+          at += duration * 0.8;
+        }
+      } else if ('close' in step) {
+        const { code, reason } = step.close;
+        schedule(at, () => socket.close(code, reason));
+      } else {
+        const message = step.message;
+        schedule(at, () => send(message));
+      }
+    }
+  };
+
+  const schedule = (delay: number, fn: () => void) => {
+    timers.push(setTimeout(() => {
+      if (socket.readyState === WebSocket.OPEN) fn();
+    }, delay));
+  };
+
+  const send = (message: unknown) => socket.send(JSON.stringify(message));
+
+  const handle = (trigger: MockTrigger, text?: string) => {
+    const turn = script.turns[next];
+    if (!turn || turn.trigger !== trigger) return;
+    if (turn.match && !(text !== undefined && new RegExp(turn.match, 'i').test(text))) return;
+    log(`turn ${next} (${trigger}${text ? `: ${text}` : ''})`);
+    next++;
+    play(turn);
+  };
+
+  socket.on('message', (data) => {
+    let message: any;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      socket.close(1007, 'Invalid JSON');
+      return;
+    }
+
+    if (message.setup) {
+      send({ setupComplete: {} });
+      handle('setup');
+    } else if (message.realtimeInput) {
+      const input = message.realtimeInput;
+      if (input.text !== undefined) handle('text', input.text);
+      if (input.activityStart) handle('activityStart');
+      if (input.activityEnd) handle('activityEnd');
+      if (input.audioStreamEnd) handle('audioStreamEnd');
+    } else if (message.clientContent) {
+      const text = (message.clientContent.turns ?? [])
+        .flatMap((turn: any) => turn.parts ?? [])
+        .map((part: any) => part.text ?? '')
+        .join(' ');
+      handle('clientContent', text);
+    } else if (message.toolResponse) {
+      handle('toolResponse');
+    }
+  });
+
+  socket.on('close', cancel);
+}
+
+// Base64 little-endian 16-bit PCM of a sine tone; `offset` keeps the phase continuous across chunks.
+function tone(frequency: number, offset: number, duration: number) {
+  const start = Math.round((offset / 1000) * OUTPUT_SAMPLE_RATE);
+  const length = Math.round((duration / 1000) * OUTPUT_SAMPLE_RATE);
+  const buffer = Buffer.alloc(length * 2);
+  for (let i = 0; i < length; i++) {
+    const t = (start + i) / OUTPUT_SAMPLE_RATE;
+    buffer.writeInt16LE(Math.round(Math.sin(2 * Math.PI * frequency * t) * 0x2000), i * 2);
+  }
+  return buffer.toString('base64');
+}
@@ -0,0 +1,98 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+
+export interface MockTextReply {
+  // What the request's last turn must be: user text (the default) or tool results.
+  trigger?: 'text' | 'toolResponse';
+  // For 'text': a regular expression the user's text must match.
+  match?: string;
+  text?: string;
+  functionCall?: { name: string; args?: Record<string, unknown> };
+  // Fail the request instead, with this HTTP status and message.
+  error?: { code: number; message?: string };
+  // Milliseconds between streamed words.
+  wordDelay?: number;
+}
+
+export interface MockTextScript {
+  name?: string;
+  replies: MockTextReply[];
+}
+
+const MODEL_PATH = /\/models\/[^/:]+:(streamGenerateContent|generateContent)$/;
+const DEFAULT_WORD_DELAY = 60;
+
+/**
+ * A stand-in for the Gemini REST generateContent endpoints that text chat uses.
+ *
+ * Requests are stateless, so each one is answered by the first reply whose
+ * trigger and match fit the request's last turn. Text streams word by word
+ * over SSE like the real service. Requests it doesn't know get a 404.
+ */
+export function createMockTextHandler(script: MockTextScript, log: (line: string) => void = () => {}) {
+  return (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const route = MODEL_PATH.exec(url.pathname);
+    if (req.method !== 'POST' || !route) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      let request: any;
+      try {
+        request = JSON.parse(body);
+      } catch {
+        sendError(res, 400, 'Invalid JSON payload');
+        return;
+      }
+      const last = request.contents?.at(-1)?.parts ?? [];
+      const isToolResponse = last.some((part: any) => part.functionResponse);
+      const text = last.map((part: any) => part.text ?? '').join(' ');
+      const reply = script.replies.find(candidate =>
+        (candidate.trigger ?? 'text') === (isToolResponse ? 'toolResponse' : 'text') &&
+        (!candidate.match || new RegExp(candidate.match, 'i').test(text)));
+      log(`${route[1]} (${isToolResponse ? 'toolResponse' : `text: ${text}`}) → ${reply ? script.replies.indexOf(reply) : 'echo'}`);
+
+      if (reply?.error) {
+        sendError(res, reply.error.code, reply.error.message ?? 'Mock error');
+        return;
+      }
+      const chunks = replyChunks(reply ?? { text: `You said: ${text}` });
+      if (route[1] === 'generateContent') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(candidate(chunks.flatMap(chunk => chunk.parts), true)));
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      const delay = reply?.wordDelay ?? DEFAULT_WORD_DELAY;
+      chunks.forEach((chunk, i) => setTimeout(() => {
+        if (res.writableEnded) return;
+        const isLast = i === chunks.length - 1;
+        res.write(`data: ${JSON.stringify(candidate(chunk.parts, isLast))}\r\n\r\n`);
+        if (isLast) res.end();
+      }, i * delay));
+    });
+  };
+}
+
+// The reply as a sequence of streamed chunks: a word of text each, then the function call
+function replyChunks(reply: MockTextReply) {
+  const words = reply.text?.match(/\S+\s*/g) ?? [];
+  const chunks: { parts: object[] }[] = words.map(word => ({ parts: [{ text: word }] }));
+  if (reply.functionCall) chunks.push({ parts: [{ functionCall: { args: {}, ...reply.functionCall } }] });
+  return chunks.length ? chunks : [{ parts: [{ text: '' }] }];
+}
+
+function candidate(parts: object[], isLast: boolean) {
+  return {
+    candidates: [{ content: { role: 'model', parts }, finishReason: isLast ? 'STOP' : undefined, index: 0 }],
+    usageMetadata: isLast ? { totalTokenCount: 42 } : undefined,
+  };
+}
+
+function sendError(res: ServerResponse, code: number, message: string) {
+  res.writeHead(code, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ error: { code, message, status: 'MOCK_ERROR' } }));
+}
@@ -0,0 +1,253 @@
+import { inflateSync } from 'zlib';
+
+// Streams that never hold page text: images, fonts, metadata and file structure.
+const NON_TEXT_STREAM = /\/Subtype\s*\/(Image|Type1C|CIDFontType0C|OpenType|XML)\b|\/Type\s*\/(XRef|ObjStm|Metadata|EmbeddedFile)\b|\/Length[123]\b/;
+// Kerning in a TJ array wider than this (thousandths of an em) reads as a space.
+const WORD_GAP = 200;
+
+type Operand = string | number | Operand[] | { name: string };
+
+/**
+ * Pulls the text out of a PDF, one entry per content stream with text in it
+ * (for most files, one per page).
+ *
+ * This covers what word processors and doc tools usually produce: Flate or
+ * uncompressed content streams and single-byte font encodings. Scanned
+ * pages and fonts with custom CID encodings have no recoverable text here.
+ */
+export function extractPdfPages(data: Buffer): string[] {
+  const source = data.toString('latin1');
+  if (!source.startsWith('%PDF-')) {
+    throw new Error('Not a PDF file');
+  }
+
+  const pages: string[] = [];
+  for (const { dictionary, content } of streams(source)) {
+    if (NON_TEXT_STREAM.test(dictionary)) continue;
+    const decoded = decodeStream(dictionary, content);
+    if (!decoded || !/\bBT\b/.test(decoded)) continue;
+    const text = extractText(decoded);
+    if (text) pages.push(text);
+  }
+
+  if (pages.length === 0) {
+    throw new Error('No text could be extracted from this PDF. It may be scanned or use an unsupported font encoding.');
+  }
+  return pages;
+}
+
+function* streams(source: string) {
+  let position = 0;
+  while (true) {
+    const keyword = source.indexOf('stream', position);
+    if (keyword === -1) return;
+    position = keyword + 6;
+    if (source.slice(keyword - 3, keyword) === 'end') continue;
+
+    const start = source[position] === '\r' ? position + 2 : position + 1;
+    const objectStart = source.lastIndexOf(' obj', keyword);
+    const dictionary = source.slice(objectStart === -1 ? 0 : objectStart, keyword);
+
+    // Trust a direct /Length when endstream follows it; indirect lengths fall back to the search
+    const length = Number(dictionary.match(/\/Length\s+(\d+)(?!\s+\d+\s+R)/)?.[1]);
+    const end = Number.isFinite(length) && /^\s*endstream/.test(source.slice(start + length, start + length + 20))
+      ? start + length
+      : source.indexOf('endstream', start);
+    if (end === -1) return;
+    position = end + 9;
+    yield { dictionary, content: source.slice(start, end) };
+  }
+}
+
+function decodeStream(dictionary: string, content: string) {
+  const filters = dictionary.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1].match(/\/\w+/g) ?? [];
+  if (filters.some(filter => filter !== '/FlateDecode')) return null;
+  if (filters.length === 0) return content;
+  try {
+    return inflateSync(Buffer.from(content, 'latin1')).toString('latin1');
+  } catch {
+    return null;
+  }
+}
+
+// Runs the text-showing operators of a content stream and lays the strings out as lines.
+function extractText(content: string): string {
+  let out = '';
+  let operands: Operand[] = [];
+  let lastY: number | null = null;
+
+  const newline = () => {
+    if (out && !out.endsWith('\n')) out += '\n';
+  };
+  const space = () => {
+    if (out && !/\s$/.test(out)) out += ' ';
+  };
+
+  const lexer = new Lexer(content);
+  for (let token = lexer.next(); token !== undefined; token = lexer.next()) {
+    if (!(typeof token === 'object' && 'operator' in token)) {
+      operands.push(token);
+      continue;
+    }
+    const args = operands;
+    operands = [];
+    switch (token.operator) {
+      case 'Tj':
+        out += printable(args[0]);
+        break;
+      case "'":
+      case '"':
+        newline();
+        out += printable(args[args.length - 1]);
+        break;
+      case 'TJ':
+        for (const item of Array.isArray(args[0]) ? args[0] : []) {
+          if (typeof item === 'number') {
+            if (item < -WORD_GAP) space();
+          } else {
+            out += printable(item);
+          }
+        }
+        break;
+      case 'Td':
+      case 'TD':
+        if (args[1] !== 0) newline();
+        else space();
+        break;
+      case 'T*':
+        newline();
+        break;
+      case 'Tm': {
+        const y = args[5];
+        if (typeof y === 'number' && lastY !== null && y !== lastY) newline();
+        else space();
+        lastY = typeof y === 'number' ? y : lastY;
+        break;
+      }
+      case 'ET':
+        newline();
+        break;
+    }
+  }
+
+  return out
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ ?\n ?/g, '\n')
+    // Words hyphenated across lines
+    .replace(/(\w)-\n(\w)/g, '$1$2')
+    .trim();
+}
+
+function printable(operand: Operand | undefined) {
+  // Two-byte (CID) strings decode to control characters; there is nothing to recover from them
+  return typeof operand === 'string' ? operand.replace(/[\x00-\x08\x0b-\x1f\x7f]/g, '') : '';
+}
+
+// Just enough of the content stream syntax to find strings, numbers and operators.
+class Lexer {
+  private i = 0;
+
+  constructor(private source: string) {}
+
+  next(): Operand | { operator: string } | undefined {
+    const s = this.source;
+    while (this.i < s.length) {
+      const c = s[this.i];
+      if (/\s/.test(c)) {
+        this.i++;
+      } else if (c === '%') {
+        while (this.i < s.length && s[this.i] !== '\n' && s[this.i] !== '\r') this.i++;
+      } else if (c === '(') {
+        return this.literalString();
+      } else if (c === '<' && s[this.i + 1] === '<') {
+        this.i += 2;
+        return { name: '<<' };
+      } else if (c === '>' && s[this.i + 1] === '>') {
+        this.i += 2;
+        return { name: '>>' };
+      } else if (c === '<') {
+        return this.hexString();
+      } else if (c === '[') {
+        this.i++;
+        const items: Operand[] = [];
+        for (let token = this.next(); token !== undefined; token = this.next()) {
+          if (typeof token === 'object' && 'operator' in token) {
+            if (token.operator === ']') break;
+            continue;
+          }
+          items.push(token);
+        }
+        return items;
+      } else if (c === ']') {
+        this.i++;
+        return { operator: ']' };
+      } else if (c === '/') {
+        const match = /^\/[^\s()<>[\]{}/%]*/.exec(s.slice(this.i, this.i + 128))!;
+        this.i += match[0].length;
+        return { name: match[0] };
+      } else if (/[-+.\d]/.test(c)) {
+        const match = /^[-+]?(\d+\.?\d*|\.\d+)/.exec(s.slice(this.i, this.i + 32));
+        if (!match) {
+          this.i++;
+          continue;
+        }
+        this.i += match[0].length;
+        return Number(match[0]);
+      } else {
+        const match = /^[^\s()<>[\]{}/%]+/.exec(s.slice(this.i, this.i + 64));
+        if (!match) {
+          this.i++;
+          continue;
+        }
+        this.i += match[0].length;
+        // Inline images carry raw bytes up to EI
+        if (match[0] === 'ID') {
+          const end = s.indexOf('EI', this.i);
+          this.i = end === -1 ? s.length : end + 2;
+          continue;
+        }
+        return { operator: match[0] };
+      }
+    }
+    return undefined;
+  }
+
+  private literalString() {
+    const s = this.source;
+    let depth = 0;
+    let out = '';
+    this.i++;
+    while (this.i < s.length) {
+      const c = s[this.i++];
+      if (c === '\\') {
+        const e = s[this.i++];
+        if (/[0-7]/.test(e)) {
+          let octal = e;
+          while (octal.length < 3 && /[0-7]/.test(s[this.i])) octal += s[this.i++];
+          out += String.fromCharCode(parseInt(octal, 8) & 0xff);
+        } else if (e === '\r' || e === '\n') {
+          // Line continuation
+          if (e === '\r' && s[this.i] === '\n') this.i++;
+        } else {
+          out += { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' }[e] ?? e;
+        }
+      } else if (c === '(') {
+        depth++;
+        out += c;
+      } else if (c === ')') {
+        if (depth-- === 0) break;
+        out += c;
+      } else {
+        out += c;
+      }
+    }
+    return out;
+  }
+
+  private hexString() {
+    const end = this.source.indexOf('>', this.i);
+    const hex = this.source.slice(this.i + 1, end === -1 ? undefined : end).replace(/\s/g, '');
+    this.i = end === -1 ? this.source.length : end + 1;
+    return Buffer.from(hex.length % 2 ? `${hex}0` : hex, 'hex').toString('latin1');
+  }
+}
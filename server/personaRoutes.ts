@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import { parsePersona } from '../src/personas/personas';
+import type { PersonaStore } from './personaStore';
+
+export function createPersonaRouter(store: PersonaStore) {
+  const router = Router();
+
+  router.get('/', (req, res) => {
+    res.json(store.list(req.user!.id));
+  });
+
+  router.put('/:id', (req, res) => {
+    let persona;
+    try {
+      persona = parsePersona({ ...req.body, id: req.params.id });
+    } catch (err) {
+      res.status(400).json({ error: (err as Error).message });
+      return;
+    }
+    res.json(store.save(req.user!.id, persona));
+  });
+
+  router.delete('/:id', (req, res) => {
+    if (!store.delete(req.user!.id, req.params.id)) {
+      res.status(404).json({ error: 'Persona not found' });
+      return;
+    }
+    res.status(204).end();
+  });
+
+  return router;
+}
@@ -0,0 +1,29 @@
+import { parsePersona } from '../src/personas/personas';
+import type { Persona } from '../src/types';
+import type { DB } from './db';
+
+/** Each user's custom personas and edited copies of the built-in ones. */
+export class PersonaStore {
+  constructor(private db: DB) {}
+
+  list(userId: string): Persona[] {
+    const rows = this.db
+      .prepare('SELECT data FROM personas WHERE user_id = ? ORDER BY updated_at')
+      .all(userId) as { data: string }[];
+    return rows.map(row => parsePersona(JSON.parse(row.data)));
+  }
+
+  save(userId: string, persona: Persona) {
+    this.db
+      .prepare(
+        `INSERT INTO personas (user_id, id, data, updated_at) VALUES (@userId, @id, @data, @updatedAt)
+         ON CONFLICT(user_id, id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`,
+      )
+      .run({ userId, id: persona.id, data: JSON.stringify(persona), updatedAt: Date.now() });
+    return persona;
+  }
+
+  delete(userId: string, id: string): boolean {
+    return this.db.prepare('DELETE FROM personas WHERE id = ? AND user_id = ?').run(id, userId).changes > 0;
+  }
+}
@@ -0,0 +1,85 @@
+import type { UsageStore } from './usageStore';
+
+const HOUR = 60 * 60 * 1000;
+
+/** Counts hits per key over a sliding window, in memory. */
+export class RateLimiter {
+  private hits = new Map<string, number[]>();
+  private nextSweep = 0;
+
+  constructor(private limit: number, private window: number) {}
+
+  allows(key: string, now = Date.now()) {
+    return this.recent(key, now).length < this.limit;
+  }
+
+  record(key: string, now = Date.now()) {
+    this.hits.set(key, [...this.recent(key, now), now]);
+  }
+
+  /** When the oldest hit in the window expires, freeing a slot. */
+  retryAt(key: string, now = Date.now()) {
+    const recent = this.recent(key, now);
+    return recent.length ? recent[0] + this.window : now;
+  }
+
+  private recent(key: string, now: number) {
+    this.sweep(now);
+    const recent = (this.hits.get(key) ?? []).filter(at => at > now - this.window);
+    if (recent.length) this.hits.set(key, recent);
+    else this.hits.delete(key);
+    return recent;
+  }
+
+  // Keys that are never checked again (a one-off address, a mistyped username)
+  // would otherwise stay forever, so drop expired ones once per window
+  private sweep(now: number) {
+    if (now < this.nextSweep) return;
+    this.nextSweep = now + this.window;
+    for (const [key, hits] of this.hits) {
+      if (hits[hits.length - 1] <= now - this.window) this.hits.delete(key);
+    }
+  }
+}
+
+export interface LiveQuotaLimits {
+  // Live sessions a user may open per hour, reconnects included. 0 for no limit.
+  sessionsPerHour: number;
+  // Tokens a user may use per UTC day. 0 for no limit.
+  tokensPerDay: number;
+}
+
+/** Per-user limits the relay checks before opening a Live session, and text chat before each turn. */
+export class LiveQuota {
+  private rate: RateLimiter | null;
+
+  constructor(private usage: UsageStore, readonly limits: LiveQuotaLimits) {
+    this.rate = limits.sessionsPerHour > 0 ? new RateLimiter(limits.sessionsPerHour, HOUR) : null;
+  }
+
+  /** Counts a new session for `userId`, or returns why it can't have one. */
+  admit(userId: string, now = Date.now()): string | null {
+    const refusal = this.checkTokens(userId, now);
+    if (refusal !== null) return refusal;
+    if (this.rate && !this.rate.allows(userId, now)) {
+      const minutes = Math.ceil((this.rate.retryAt(userId, now) - now) / 60000);
+      return `Too many sessions started in the last hour. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`;
+    }
+    this.rate?.record(userId, now);
+    this.usage.addSession(userId, now);
+    return null;
+  }
+
+  /** Why `userId` can't use any more tokens today, if they can't. */
+  checkTokens(userId: string, now = Date.now()): string | null {
+    const { tokensPerDay } = this.limits;
+    if (tokensPerDay > 0 && this.usage.today(userId, now).tokens >= tokensPerDay) {
+      return `Daily usage limit of ${tokensPerDay.toLocaleString('en-US')} tokens reached. It resets at midnight UTC.`;
+    }
+    return null;
+  }
+
+  recordTokens(userId: string, tokens: number, now = Date.now()) {
+    if (tokens > 0) this.usage.addTokens(userId, tokens, now);
+  }
+}
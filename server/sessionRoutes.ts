@@ -0,0 +1,132 @@
+import { randomUUID } from 'crypto';
+import express, { Router } from 'express';
+import { EMOTIONS } from '../src/personas/personas';
+import type { Citation, Message } from '../src/types';
+import type { SessionStore } from './sessionStore';
+
+const ROLES: Message['role'][] = ['user', 'ai', 'tool'];
+const SOURCES: Message['source'][] = ['voice', 'typed', 'tool'];
+// Client-assigned message ids are UUIDs; anything else gets a fresh one
+const MESSAGE_ID = /^[\w-]{1,64}$/;
+// ISO 639 code with an optional region, as reported by set_language
+const LANGUAGE_CODE = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})?$/;
+
+const isCitation = (value: any): value is Citation =>
+  typeof value?.documentId === 'string' &&
+  typeof value.documentName === 'string' &&
+  (value.heading === undefined || typeof value.heading === 'string');
+// Stereo 16-bit 24kHz WAV is about 5.5 MB a minute.
+const MAX_RECORDING_SIZE = '250mb';
+
+export function createSessionRouter(store: SessionStore) {
+  const router = Router();
+
+  router.get('/', (req, res) => {
+    const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    res.json(store.list(req.user!.id, query || undefined));
+  });
+
+  router.post('/', (req, res) => {
+    const id = typeof req.body?.id === 'string' && req.body.id ? req.body.id : randomUUID();
+    const session = store.create(req.user!.id, id);
+    if (!session) {
+      res.status(409).json({ error: 'Session already exists' });
+      return;
+    }
+    res.status(201).json(session);
+  });
+
+  router.get('/:id', (req, res) => {
+    const session = store.getWithMessages(req.user!.id, req.params.id);
+    if (!session) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+    res.json(session);
+  });
+
+  router.post('/:id/messages', (req, res) => {
+    const { id, role, text, source, status, emotion, pinned, tool, createdAt, endedAt, attachments, citations, language } = req.body ?? {};
+    const attachmentNames = Array.isArray(attachments) ? attachments.filter((name): name is string => typeof name === 'string') : [];
+    const sources = Array.isArray(citations) ? citations.filter(isCitation) : [];
+    // A message may be just an attachment
+    if (!ROLES.includes(role) || typeof text !== 'string' || (!text.trim() && attachmentNames.length === 0)) {
+      res.status(400).json({ error: 'Expected a role of "user", "ai" or "tool" and non-empty text' });
+      return;
+    }
+    if (role === 'tool' && (typeof tool?.name !== 'string' || typeof tool.args !== 'object')) {
+      res.status(400).json({ error: 'Tool messages need a tool with a name and args' });
+      return;
+    }
+    const message = store.appendMessage(req.user!.id, req.params.id, {
+      id: typeof id === 'string' && MESSAGE_ID.test(id) ? id : randomUUID(),
+      role,
+      text,
+      source: role === 'tool' ? 'tool' : SOURCES.includes(source) ? source : 'voice',
+      status: role === 'ai' && status === 'interrupted' ? 'interrupted' : 'complete',
+      emotion: EMOTIONS.includes(emotion) ? emotion : undefined,
+      pinned: pinned === true || undefined,
+      tool: role === 'tool' ? tool : undefined,
+      createdAt: typeof createdAt === 'number' ? createdAt : Date.now(),
+      endedAt: typeof endedAt === 'number' ? endedAt : undefined,
+      attachments: role === 'user' && attachmentNames.length ? attachmentNames : undefined,
+      citations: role === 'ai' && sources.length
+        ? sources.map(({ documentId, documentName, heading }) => ({ documentId, documentName, heading }))
+        : undefined,
+      language: role !== 'tool' && typeof language === 'string' && LANGUAGE_CODE.test(language) ? language : undefined,
+    });
+    if (!message) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+    res.status(201).json(message);
+  });
+
+  router.patch('/:id/messages/:messageId', (req, res) => {
+    const { pinned } = req.body ?? {};
+    if (typeof pinned !== 'boolean') {
+      res.status(400).json({ error: 'Expected a boolean "pinned"' });
+      return;
+    }
+    if (!store.setPinned(req.user!.id, req.params.id, req.params.messageId, pinned)) {
+      res.status(404).json({ error: 'Message not found' });
+      return;
+    }
+    res.status(204).end();
+  });
+
+  router.put('/:id/recording', express.raw({ type: 'audio/wav', limit: MAX_RECORDING_SIZE }), (req, res) => {
+    const startedAt = Number(req.query.startedAt);
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0 || !Number.isFinite(startedAt)) {
+      res.status(400).json({ error: 'Expected an audio/wav body and a startedAt timestamp' });
+      return;
+    }
+    if (!store.saveRecording(req.user!.id, req.params.id, { data: req.body, startedAt })) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+    res.status(204).end();
+  });
+
+  router.get('/:id/recording', (req, res) => {
+    const recording = store.getRecording(req.user!.id, req.params.id);
+    if (!recording) {
+      res.status(404).json({ error: 'Recording not found' });
+      return;
+    }
+    res
+      .type('audio/wav')
+      .attachment(`luca-${req.params.id}.wav`)
+      .send(recording.data);
+  });
+
+  router.delete('/:id', (req, res) => {
+    if (!store.delete(req.user!.id, req.params.id)) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+    res.status(204).end();
+  });
+
+  return router;
+}
@@ -0,0 +1,187 @@
+import type { Emotion, Message, SessionDetail, SessionSummary } from '../src/types';
+import type { DB } from './db';
+
+const TITLE_LENGTH = 60;
+
+interface SessionRow {
+  id: string;
+  title: string;
+  created_at: number;
+  updated_at: number;
+  message_count: number;
+  recording_started_at: number | null;
+}
+
+interface MessageRow {
+  id: number;
+  uid: string | null;
+  role: Message['role'];
+  text: string;
+  emotion: Emotion | null;
+  interrupted: number;
+  tool: string | null;
+  created_at: number;
+  ended_at: number | null;
+  attachments: string | null;
+  citations: string | null;
+  language: string | null;
+  source: Message['source'] | null;
+  pinned: number;
+}
+
+export interface Recording {
+  data: Buffer;
+  startedAt: number;
+}
+
+const toSummary = (row: SessionRow): SessionSummary => ({
+  id: row.id,
+  title: row.title,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  messageCount: row.message_count,
+  recordingStartedAt: row.recording_started_at ?? undefined,
+});
+
+// Older rows didn't record a source; only typed messages could carry attachments
+const sourceOf = (row: MessageRow): Message['source'] =>
+  row.source ?? (row.role === 'tool' ? 'tool' : row.attachments ? 'typed' : 'voice');
+
+const toMessage = (row: MessageRow): Message => ({
+  id: row.uid ?? String(row.id),
+  role: row.role,
+  text: row.text,
+  source: sourceOf(row),
+  // Only finished messages are saved
+  status: row.interrupted ? 'interrupted' : 'complete',
+  emotion: row.emotion ?? undefined,
+  pinned: row.pinned ? true : undefined,
+  tool: row.tool ? JSON.parse(row.tool) : undefined,
+  createdAt: row.created_at,
+  endedAt: row.ended_at ?? undefined,
+  attachments: row.attachments ? JSON.parse(row.attachments) : undefined,
+  citations: row.citations ? JSON.parse(row.citations) : undefined,
+  language: row.language ?? undefined,
+});
+
+const SUMMARY_SELECT = `
+  SELECT s.id, s.title, s.created_at, s.updated_at,
+         (SELECT COUNT(*) FROM messages m WHERE m.session_id = s.id) AS message_count,
+         (SELECT r.started_at FROM recordings r WHERE r.session_id = s.id) AS recording_started_at
+  FROM sessions s`;
+
+/** Each user's conversations, with their messages and recordings. */
+export class SessionStore {
+  constructor(private db: DB) {}
+
+  /** Returns undefined if the id is already taken. */
+  create(userId: string, id: string, createdAt = Date.now()): SessionSummary | undefined {
+    const { changes } = this.db
+      .prepare('INSERT OR IGNORE INTO sessions (id, user_id, created_at, updated_at) VALUES (?, ?, ?, ?)')
+      .run(id, userId, createdAt, createdAt);
+    return changes > 0 ? this.get(userId, id) : undefined;
+  }
+
+  list(userId: string, query?: string): SessionSummary[] {
+    if (!query) {
+      return (this.db.prepare(`${SUMMARY_SELECT} WHERE s.user_id = ? ORDER BY s.updated_at DESC`).all(userId) as SessionRow[]).map(toSummary);
+    }
+    const pattern = `%${query.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+    const rows = this.db
+      .prepare(
+        `${SUMMARY_SELECT}
+         WHERE s.user_id = @userId
+           AND (s.title LIKE @pattern ESCAPE '\\'
+             OR EXISTS (SELECT 1 FROM messages m WHERE m.session_id = s.id AND m.text LIKE @pattern ESCAPE '\\'))
+         ORDER BY s.updated_at DESC`,
+      )
+      .all({ userId, pattern }) as SessionRow[];
+    return rows.map(toSummary);
+  }
+
+  get(userId: string, id: string): SessionSummary | undefined {
+    const row = this.db.prepare(`${SUMMARY_SELECT} WHERE s.id = ? AND s.user_id = ?`).get(id, userId) as SessionRow | undefined;
+    return row && toSummary(row);
+  }
+
+  getWithMessages(userId: string, id: string): SessionDetail | undefined {
+    const summary = this.get(userId, id);
+    if (!summary) return undefined;
+    const rows = this.db
+      .prepare(
+        `SELECT id, uid, role, text, emotion, interrupted, tool, created_at, ended_at, attachments, citations, language, source, pinned
+         FROM messages WHERE session_id = ? ORDER BY created_at, id`,
+      )
+      .all(id) as MessageRow[];
+    return { ...summary, messages: rows.map(toMessage) };
+  }
+
+  appendMessage(userId: string, sessionId: string, message: Message): Message | undefined {
+    return this.db.transaction(() => {
+      const session = this.get(userId, sessionId);
+      if (!session) return undefined;
+
+      this.db
+        .prepare(
+          `INSERT INTO messages (session_id, uid, role, text, emotion, interrupted, tool, created_at, ended_at, attachments, citations, language, source, pinned)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        )
+        .run(
+          sessionId,
+          message.id,
+          message.role,
+          message.text,
+          message.emotion ?? null,
+          message.status === 'interrupted' ? 1 : 0,
+          message.tool ? JSON.stringify(message.tool) : null,
+          message.createdAt,
+          message.endedAt ?? null,
+          message.attachments?.length ? JSON.stringify(message.attachments) : null,
+          message.citations?.length ? JSON.stringify(message.citations) : null,
+          message.language ?? null,
+          message.source,
+          message.pinned ? 1 : 0,
+        );
+
+      // The first thing the user says names the session.
+      const title = !session.title && message.role === 'user' ? message.text.slice(0, TITLE_LENGTH) : session.title;
+      this.db
+        .prepare('UPDATE sessions SET title = ?, updated_at = MAX(updated_at, ?) WHERE id = ?')
+        .run(title, message.createdAt, sessionId);
+
+      return message;
+    })();
+  }
+
+  /** Pins or unpins a message. Returns false if there is no such message in the user's session. */
+  setPinned(userId: string, sessionId: string, messageId: string, pinned: boolean): boolean {
+    if (!this.get(userId, sessionId)) return false;
+    return this.db
+      .prepare('UPDATE messages SET pinned = ? WHERE session_id = ? AND (uid = ? OR (uid IS NULL AND id = ?))')
+      .run(pinned ? 1 : 0, sessionId, messageId, messageId)
+      .changes > 0;
+  }
+
+  /** Stores the session's audio recording, replacing any earlier one. */
+  saveRecording(userId: string, sessionId: string, recording: Recording): boolean {
+    if (!this.get(userId, sessionId)) return false;
+    this.db
+      .prepare('INSERT OR REPLACE INTO recordings (session_id, data, started_at) VALUES (?, ?, ?)')
+      .run(sessionId, recording.data, recording.startedAt);
+    return true;
+  }
+
+  getRecording(userId: string, sessionId: string): Recording | undefined {
+    const row = this.db
+      .prepare(
+        `SELECT r.data, r.started_at FROM recordings r JOIN sessions s ON s.id = r.session_id
+         WHERE r.session_id = ? AND s.user_id = ?`,
+      )
+      .get(sessionId, userId) as { data: Buffer; started_at: number } | undefined;
+    return row && { data: row.data, startedAt: row.started_at };
+  }
+
+  delete(userId: string, id: string): boolean {
+    return this.db.prepare('DELETE FROM sessions WHERE id = ? AND user_id = ?').run(id, userId).changes > 0;
+  }
+}
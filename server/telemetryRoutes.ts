@@ -0,0 +1,112 @@
+import { Router } from 'express';
+import type { LatencySample, TelemetryReport, TelemetrySession } from '../src/types';
+import { requireAdmin } from './auth';
+import type { TelemetryStore } from './telemetryStore';
+
+const DAY = 24 * 60 * 60 * 1000;
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 365;
+// A report covers at most a few minutes, so anything bigger is not from the app
+const MAX_LATENCIES_PER_REPORT = 500;
+
+const COUNTERS = ['userTurns', 'aiTurns', 'underruns', 'reconnects', 'promptTokens', 'responseTokens', 'totalTokens'] as const;
+
+const isCount = (value: unknown): value is number => Number.isSafeInteger(value) && (value as number) >= 0;
+const isTime = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0;
+const isLatency = (value: any): value is LatencySample => isTime(value?.at) && isCount(value.ms);
+
+function parseReport(body: any): TelemetryReport | null {
+  if (typeof body?.sessionId !== 'string' || !body.sessionId || typeof body.personaId !== 'string') return null;
+  if (!isTime(body.startedAt) || (body.endedAt !== undefined && !isTime(body.endedAt))) return null;
+  if (!COUNTERS.every(key => isCount(body[key]))) return null;
+  if (!Array.isArray(body.latencies) || body.latencies.length > MAX_LATENCIES_PER_REPORT || !body.latencies.every(isLatency)) {
+    return null;
+  }
+  return {
+    sessionId: body.sessionId,
+    personaId: body.personaId,
+    startedAt: body.startedAt,
+    endedAt: body.endedAt,
+    userTurns: body.userTurns,
+    aiTurns: body.aiTurns,
+    underruns: body.underruns,
+    reconnects: body.reconnects,
+    promptTokens: body.promptTokens,
+    responseTokens: body.responseTokens,
+    totalTokens: body.totalTokens,
+    latencies: body.latencies.map(({ at, ms }: LatencySample) => ({ at, ms })),
+  };
+}
+
+// Start of the window the dashboard asked for with ?days=
+const sinceOf = (days: unknown, now = Date.now()) => {
+  const count = Math.min(MAX_DAYS, Math.max(1, Math.floor(Number(days)) || DEFAULT_DAYS));
+  const today = new Date(now).setUTCHours(0, 0, 0, 0);
+  return today - (count - 1) * DAY;
+};
+
+const csvField = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const CSV_COLUMNS: [string, (s: TelemetrySession) => string | number | undefined][] = [
+  ['session_id', s => s.sessionId],
+  ['persona_id', s => s.personaId],
+  ['started_at', s => new Date(s.startedAt).toISOString()],
+  ['ended_at', s => s.endedAt && new Date(s.endedAt).toISOString()],
+  ['user_turns', s => s.userTurns],
+  ['ai_turns', s => s.aiTurns],
+  ['median_latency_ms', s => s.medianLatency],
+  ['latency_samples', s => s.latencyCount],
+  ['underruns', s => s.underruns],
+  ['reconnects', s => s.reconnects],
+  ['prompt_tokens', s => s.promptTokens],
+  ['response_tokens', s => s.responseTokens],
+  ['total_tokens', s => s.totalTokens],
+];
+
+function toCsv(sessions: TelemetrySession[]) {
+  const header = CSV_COLUMNS.map(([name]) => name).join(',');
+  const rows = sessions.map(session => CSV_COLUMNS.map(([, value]) => csvField(value(session))).join(','));
+  return [header, ...rows].join('\n') + '\n';
+}
+
+export function createTelemetryRouter(store: TelemetryStore) {
+  const router = Router();
+
+  router.post('/', (req, res) => {
+    const report = parseReport(req.body);
+    if (!report) {
+      res.status(400).json({ error: 'Malformed telemetry report' });
+      return;
+    }
+    store.record(req.user!.id, report);
+    res.status(204).end();
+  });
+
+  // Any signed-in user reports their sessions; only admins read them back
+  router.get('/overview', requireAdmin, (req, res) => {
+    res.json(store.overview(sinceOf(req.query.days)));
+  });
+
+  router.get('/sessions', requireAdmin, (req, res) => {
+    res.json(store.listSessions(sinceOf(req.query.days)));
+  });
+
+  router.get('/sessions.csv', requireAdmin, (req, res) => {
+    res.attachment(`luca-telemetry-${new Date().toISOString().slice(0, 10)}.csv`);
+    res.type('text/csv').send(toCsv(store.listSessions(sinceOf(req.query.days))));
+  });
+
+  router.get('/sessions/:id', requireAdmin, (req, res) => {
+    const session = store.getSession(req.params.id);
+    if (!session) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+    res.json(session);
+  });
+
+  return router;
+}
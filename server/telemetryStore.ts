@@ -0,0 +1,158 @@
+import type {
+  LatencySample,
+  TelemetryDay,
+  TelemetryOverview,
+  TelemetryReport,
+  TelemetrySession,
+  TelemetrySessionDetail,
+  TelemetryTotals,
+} from '../src/types';
+import type { DB } from './db';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+interface SessionRow {
+  session_id: string;
+  persona_id: string;
+  started_at: number;
+  updated_at: number;
+  ended_at: number | null;
+  user_turns: number;
+  ai_turns: number;
+  underruns: number;
+  reconnects: number;
+  prompt_tokens: number;
+  response_tokens: number;
+  total_tokens: number;
+}
+
+const toSession = (row: SessionRow, latencies: number[]): TelemetrySession => ({
+  sessionId: row.session_id,
+  personaId: row.persona_id,
+  startedAt: row.started_at,
+  updatedAt: row.updated_at,
+  endedAt: row.ended_at ?? undefined,
+  userTurns: row.user_turns,
+  aiTurns: row.ai_turns,
+  underruns: row.underruns,
+  reconnects: row.reconnects,
+  promptTokens: row.prompt_tokens,
+  responseTokens: row.response_tokens,
+  totalTokens: row.total_tokens,
+  latencyCount: latencies.length,
+  medianLatency: percentile(latencies, 0.5),
+});
+
+/** Nearest-rank percentile of `values`; undefined when there are none. */
+export function percentile(values: number[], p: number) {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1))];
+}
+
+const dayOf = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+
+function totals(sessions: TelemetrySession[], latencies: number[]): TelemetryTotals {
+  return {
+    sessions: sessions.length,
+    turns: sessions.reduce((sum, s) => sum + s.userTurns + s.aiTurns, 0),
+    underruns: sessions.reduce((sum, s) => sum + s.underruns, 0),
+    reconnects: sessions.reduce((sum, s) => sum + s.reconnects, 0),
+    tokens: sessions.reduce((sum, s) => sum + s.totalTokens, 0),
+    medianLatency: percentile(latencies, 0.5),
+    p90Latency: percentile(latencies, 0.9),
+  };
+}
+
+/** Per-session performance counters and reply latencies reported by clients. */
+export class TelemetryStore {
+  constructor(private db: DB) {}
+
+  /**
+   * Merges a client report into its session. Counters only ever grow, so a
+   * report that arrives late can't roll a session back.
+   */
+  record(userId: string, report: TelemetryReport, now = Date.now()) {
+    this.db.transaction(() => {
+      const { changes } = this.db
+        .prepare(
+          `INSERT INTO telemetry_sessions (session_id, user_id, persona_id, started_at, updated_at, ended_at, user_turns,
+             ai_turns, underruns, reconnects, prompt_tokens, response_tokens, total_tokens)
+           VALUES (@sessionId, @userId, @personaId, @startedAt, @now, @endedAt, @userTurns,
+             @aiTurns, @underruns, @reconnects, @promptTokens, @responseTokens, @totalTokens)
+           ON CONFLICT(session_id) DO UPDATE SET
+             updated_at = @now,
+             ended_at = COALESCE(@endedAt, ended_at),
+             user_turns = MAX(user_turns, @userTurns),
+             ai_turns = MAX(ai_turns, @aiTurns),
+             underruns = MAX(underruns, @underruns),
+             reconnects = MAX(reconnects, @reconnects),
+             prompt_tokens = MAX(prompt_tokens, @promptTokens),
+             response_tokens = MAX(response_tokens, @responseTokens),
+             total_tokens = MAX(total_tokens, @totalTokens)
+           WHERE user_id = @userId`,
+        )
+        .run({ ...report, userId, endedAt: report.endedAt ?? null, now });
+      // Someone else's session id
+      if (changes === 0) return;
+      const insert = this.db.prepare('INSERT INTO telemetry_latencies (session_id, at, ms) VALUES (?, ?, ?)');
+      for (const sample of report.latencies) insert.run(report.sessionId, sample.at, sample.ms);
+    })();
+  }
+
+  /** Sessions started since `since`, newest first. */
+  listSessions(since: number): TelemetrySession[] {
+    const rows = this.db
+      .prepare('SELECT * FROM telemetry_sessions WHERE started_at >= ? ORDER BY started_at DESC')
+      .all(since) as SessionRow[];
+    const latencies = this.latenciesBySession(since);
+    return rows.map(row => toSession(row, latencies.get(row.session_id) ?? []));
+  }
+
+  getSession(id: string): TelemetrySessionDetail | undefined {
+    const row = this.db.prepare('SELECT * FROM telemetry_sessions WHERE session_id = ?').get(id) as SessionRow | undefined;
+    if (!row) return undefined;
+    const latencies = this.db
+      .prepare('SELECT at, ms FROM telemetry_latencies WHERE session_id = ? ORDER BY at')
+      .all(id) as LatencySample[];
+    return { ...toSession(row, latencies.map(l => l.ms)), latencies };
+  }
+
+  /** Totals since `since`, and the same broken down by UTC day with empty days filled in. */
+  overview(since: number, now = Date.now()): TelemetryOverview {
+    const sessions = this.listSessions(since);
+    const latencies = this.latenciesBySession(since);
+
+    const byDay = new Map<string, { sessions: TelemetrySession[]; latencies: number[] }>();
+    for (let day = since; day <= now; day += DAY) {
+      byDay.set(dayOf(day), { sessions: [], latencies: [] });
+    }
+    for (const session of sessions) {
+      const bucket = byDay.get(dayOf(session.startedAt));
+      if (!bucket) continue;
+      bucket.sessions.push(session);
+      bucket.latencies.push(...(latencies.get(session.sessionId) ?? []));
+    }
+
+    const days: TelemetryDay[] = Array.from(byDay, ([day, bucket]) => ({ day, ...totals(bucket.sessions, bucket.latencies) }));
+    return { ...totals(sessions, [...latencies.values()].flat()), days };
+  }
+
+  // Reply latencies of the sessions started since `since`, by session id
+  private latenciesBySession(since: number) {
+    const rows = this.db
+      .prepare(
+        `SELECT l.session_id, l.ms FROM telemetry_latencies l
+         JOIN telemetry_sessions s ON s.session_id = l.session_id
+         WHERE s.started_at >= ?`,
+      )
+      .all(since) as { session_id: string; ms: number }[];
+    const bySession = new Map<string, number[]>();
+    for (const row of rows) {
+      const latencies = bySession.get(row.session_id);
+      if (latencies) latencies.push(row.ms);
+      else bySession.set(row.session_id, [row.ms]);
+    }
+    return bySession;
+  }
+}
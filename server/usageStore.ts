@@ -0,0 +1,38 @@
+import type { DB } from './db';
+
+export interface DailyUsage {
+  sessions: number;
+  tokens: number;
+}
+
+// Usage resets at midnight UTC
+const dayOf = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+
+/** Live sessions opened and tokens used, per user per day, as seen by the relay. */
+export class UsageStore {
+  constructor(private db: DB) {}
+
+  addSession(userId: string, now = Date.now()) {
+    this.add(userId, now, 1, 0);
+  }
+
+  addTokens(userId: string, tokens: number, now = Date.now()) {
+    this.add(userId, now, 0, tokens);
+  }
+
+  today(userId: string, now = Date.now()): DailyUsage {
+    const row = this.db
+      .prepare('SELECT sessions, tokens FROM usage WHERE user_id = ? AND day = ?')
+      .get(userId, dayOf(now)) as DailyUsage | undefined;
+    return row ?? { sessions: 0, tokens: 0 };
+  }
+
+  private add(userId: string, now: number, sessions: number, tokens: number) {
+    this.db
+      .prepare(
+        `INSERT INTO usage (user_id, day, sessions, tokens) VALUES (?, ?, ?, ?)
+         ON CONFLICT(user_id, day) DO UPDATE SET sessions = sessions + excluded.sessions, tokens = tokens + excluded.tokens`,
+      )
+      .run(userId, dayOf(now), sessions, tokens);
+  }
+}
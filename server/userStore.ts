@@ -0,0 +1,129 @@
+import { createHash, randomBytes, randomUUID, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import type { User } from '../src/types';
+import type { DB } from './db';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+export const SESSION_TTL = 30 * 24 * 60 * 60 * 1000;
+
+// Tables whose rows belong to a user; rows from before accounts have user_id ''
+const OWNED_TABLES = ['sessions', 'personas', 'memories', 'telemetry_sessions'];
+
+interface UserRow {
+  id: string;
+  username: string;
+  password_hash: string;
+  is_admin: number;
+  created_at: number;
+}
+
+const toUser = (row: UserRow): User => ({
+  id: row.id,
+  username: row.username,
+  isAdmin: row.is_admin === 1,
+  createdAt: row.created_at,
+});
+
+// Session tokens are stored hashed, so a leaked database can't be used to sign in.
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+/** Hashes a password as `scrypt:<salt>:<key>`, both hex. */
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt:${salt.toString('hex')}:${key.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, stored: string) {
+  const [scheme, salt, key] = stored.split(':');
+  if (scheme !== 'scrypt' || !salt || !key) return false;
+  const expected = Buffer.from(key, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+/** Accounts and their signed-in browser sessions. */
+export class UserStore {
+  constructor(private db: DB) {}
+
+  count(): number {
+    return (this.db.prepare('SELECT COUNT(*) AS count FROM users').get() as { count: number }).count;
+  }
+
+  get(id: string): User | undefined {
+    const row = this.db.prepare('SELECT * FROM users WHERE id = ?').get(id) as UserRow | undefined;
+    return row && toUser(row);
+  }
+
+  findByUsername(username: string): User | undefined {
+    const row = this.db.prepare('SELECT * FROM users WHERE username = ?').get(username) as UserRow | undefined;
+    return row && toUser(row);
+  }
+
+  /** The first account, which is the admin that set the server up. */
+  firstAdmin(): User | undefined {
+    const row = this.db
+      .prepare('SELECT * FROM users WHERE is_admin = 1 ORDER BY created_at LIMIT 1')
+      .get() as UserRow | undefined;
+    return row && toUser(row);
+  }
+
+  /**
+   * Creates an account, or returns undefined if the name is taken. The first
+   * account is an admin and takes over everything saved before accounts existed.
+   */
+  async create(username: string, password: string, now = Date.now()): Promise<User | undefined> {
+    const passwordHash = await hashPassword(password);
+    const id = randomUUID();
+    return this.db.transaction(() => {
+      if (this.findByUsername(username)) return undefined;
+      const isFirst = this.count() === 0;
+      this.db
+        .prepare('INSERT INTO users (id, username, password_hash, is_admin, created_at) VALUES (?, ?, ?, ?, ?)')
+        .run(id, username, passwordHash, isFirst ? 1 : 0, now);
+      if (isFirst) {
+        for (const table of OWNED_TABLES) {
+          this.db.prepare(`UPDATE ${table} SET user_id = ? WHERE user_id = ''`).run(id);
+        }
+      }
+      return this.get(id);
+    })();
+  }
+
+  /** The account for a username and password, or undefined if they don't match. */
+  async authenticate(username: string, password: string): Promise<User | undefined> {
+    const row = this.db.prepare('SELECT * FROM users WHERE username = ?').get(username) as UserRow | undefined;
+    if (!row) {
+      // Take as long as a wrong password would, so the timing doesn't reveal which names exist
+      await hashPassword(password);
+      return undefined;
+    }
+    return (await verifyPassword(password, row.password_hash)) ? toUser(row) : undefined;
+  }
+
+  /** Starts a signed-in session and returns its token for the cookie. */
+  createSession(userId: string, now = Date.now()) {
+    const token = randomBytes(32).toString('base64url');
+    this.db.prepare('DELETE FROM auth_sessions WHERE expires_at <= ?').run(now);
+    this.db
+      .prepare('INSERT INTO auth_sessions (token_hash, user_id, created_at, expires_at) VALUES (?, ?, ?, ?)')
+      .run(hashToken(token), userId, now, now + SESSION_TTL);
+    return token;
+  }
+
+  userForSession(token: string, now = Date.now()): User | undefined {
+    const row = this.db
+      .prepare(
+        `SELECT u.* FROM auth_sessions s JOIN users u ON u.id = s.user_id
+         WHERE s.token_hash = ? AND s.expires_at > ?`,
+      )
+      .get(hashToken(token), now) as UserRow | undefined;
+    return row && toUser(row);
+  }
+
+  deleteSession(token: string) {
+    this.db.prepare('DELETE FROM auth_sessions WHERE token_hash = ?').run(hashToken(token));
+  }
+}
@@ -0,0 +1,167 @@
+import React from 'react';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import { WebSocketServer } from 'ws';
+import App from './App';
+import { AccessibilityProvider } from './a11y/accessibility';
+import { AppI18nProvider } from './i18n/AppI18nProvider';
+import { createMockLiveServer, MockScript } from '../server/mockLiveServer';
+import { FakeAudioContext, FakeAudioWorkletNode, installFakeAudio, pcmFrame } from './test/fakeAudio';
+
+// One conversation: a spoken question, a typed one, then a long answer the user talks over
+const SCRIPT: MockScript = {
+  name: 'app flow',
+  turns: [
+    {
+      trigger: 'activityEnd',
+      steps: [
+        { delay: 50, message: { serverContent: { inputTranscription: { text: 'What time is it?' } } } },
+        { delay: 50, message: { serverContent: { outputTranscription: { text: "It's just after noon." } } } },
+        { audio: { duration: 300 } },
+        { message: { serverContent: { turnComplete: true } } },
+      ],
+    },
+    {
+      trigger: 'text',
+      match: 'joke',
+      steps: [
+        { delay: 50, message: { serverContent: { outputTranscription: { text: 'Why did the robot cross the road?' } } } },
+        { audio: { duration: 300 } },
+        { message: { serverContent: { turnComplete: true } } },
+      ],
+    },
+    {
+      trigger: 'activityEnd',
+      steps: [
+        { delay: 50, message: { serverContent: { inputTranscription: { text: 'Tell me a long story.' } } } },
+        { delay: 50, message: { serverContent: { outputTranscription: { text: 'Once upon a time, ' } } } },
+        { audio: { duration: 5000 } },
+        { message: { serverContent: { outputTranscription: { text: 'they all lived happily ever after.' } } } },
+        { message: { serverContent: { turnComplete: true } } },
+      ],
+    },
+    {
+      trigger: 'activityStart',
+      steps: [
+        { delay: 50, message: { serverContent: { interrupted: true } } },
+      ],
+    },
+  ],
+};
+
+const USER = { id: 'user-1', username: 'ada', isAdmin: false, createdAt: 0 };
+
+// The VAD starts a turn after a frame of speech and ends it after 600ms of silence
+const startTalking = () => act(() => mic().capture(pcmFrame(true)));
+const stopTalking = () => act(() => {
+  for (let i = 0; i < 5; i++) mic().capture(pcmFrame(false));
+});
+const mic = () => FakeAudioWorkletNode.instances.at(-1)!;
+
+const transcript = () => within(screen.getByRole('log'));
+
+// Waits for a message to be committed to the transcript; turns still streaming in have no actions
+const findMessage = (text: string) => waitFor(() => {
+  const bubble = transcript().getByText(text).closest<HTMLElement>('[data-message-id]')!;
+  expect(within(bubble).queryByRole('group', { name: 'Message actions' })).not.toBeNull();
+}, { timeout: 3000 });
+
+let server: Server;
+let wss: WebSocketServer;
+let fetchMock: ReturnType<typeof vi.fn>;
+
+beforeAll(async () => {
+  server = createServer();
+  wss = createMockLiveServer({ script: SCRIPT, server });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  // The app reaches the Live relay on its own origin
+  const { port } = server.address() as AddressInfo;
+  (globalThis as any).jsdom.reconfigure({ url: `http://127.0.0.1:${port}/` });
+});
+
+afterAll(async () => {
+  wss.close();
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  localStorage.clear();
+  installFakeAudio();
+  // The app's REST endpoints: nothing saved yet, and every write succeeds
+  fetchMock = vi.fn(async (_url: string, init?: RequestInit) =>
+    init?.method && init.method !== 'GET' ? new Response(null, { status: 204 }) : Response.json([])
+  );
+  vi.stubGlobal('fetch', fetchMock);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('App against the mock Live server', () => {
+  it('connects, talks, types, is interrupted and disconnects', async () => {
+    render(
+      <AppI18nProvider>
+        <AccessibilityProvider>
+          <App user={USER} onSignOut={() => {}} />
+        </AccessibilityProvider>
+      </AppI18nProvider>
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Connect to LUCA' }));
+    await screen.findByRole('button', { name: 'Disconnect' }, { timeout: 3000 });
+    const composer = screen.getByRole<HTMLInputElement>('textbox', { name: 'Type a message...' });
+    await waitFor(() => expect(mic().port.onmessage).not.toBeNull());
+
+    // Talk: the transcription and the spoken reply become messages, and the reply plays
+    startTalking();
+    stopTalking();
+    await findMessage('What time is it?');
+    await findMessage("It's just after noon.");
+    const [playback] = FakeAudioContext.instances;
+    expect(playback.sampleRate).toBe(24000);
+    await waitFor(() => expect(playback.sources.length).toBeGreaterThan(0));
+
+    // Type
+    fireEvent.change(composer, { target: { value: 'Tell me a joke' } });
+    fireEvent.keyDown(composer, { key: 'Enter' });
+    await findMessage('Tell me a joke');
+    await findMessage('Why did the robot cross the road?');
+
+    // Talk over a long answer: playback stops and the answer is kept as cut off
+    startTalking();
+    stopTalking();
+    await transcript().findByText('Once upon a time,', {}, { timeout: 3000 });
+    const scheduled = playback.sources.length;
+    await waitFor(() => expect(playback.sources.length).toBeGreaterThan(scheduled + 2), { timeout: 3000 });
+    startTalking();
+    await transcript().findByText('— cut off', {}, { timeout: 3000 });
+    expect(playback.sources.some(source => source.stopped)).toBe(true);
+    stopTalking();
+    expect(transcript().queryByText(/happily ever after/)).toBeNull();
+
+    // Disconnect: the mic is released and the conversation stays on screen
+    const worklet = mic();
+    fireEvent.click(screen.getByRole('button', { name: 'Disconnect' }));
+    await screen.findByRole('button', { name: 'Connect to LUCA' });
+    expect(worklet.port.onmessage).toBeNull();
+    fireEvent.change(composer, { target: { value: 'Are you there?' } });
+    expect(screen.getByRole<HTMLButtonElement>('button', { name: 'Send' }).disabled).toBe(true);
+    expect(transcript().getByText('What time is it?')).toBeTruthy();
+
+    // Every message went to the session's history
+    const saved = fetchMock.mock.calls
+      .filter(([url, init]) => /^\/api\/sessions\/[^/]+\/messages$/.test(url) && init?.method === 'POST')
+      .map(([, init]) => JSON.parse(init!.body as string));
+    expect(saved.map(message => [message.role, message.source, message.status])).toEqual([
+      ['user', 'voice', 'complete'],
+      ['ai', 'voice', 'complete'],
+      ['user', 'typed', 'complete'],
+      ['ai', 'voice', 'complete'],
+      ['user', 'voice', 'complete'],
+      ['ai', 'voice', 'interrupted'],
+    ]);
+  }, 20000);
+});
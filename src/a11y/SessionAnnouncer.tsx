@@ -0,0 +1,41 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ExpressiveEmotion } from '../emotion/emotionClassifier';
+import { useI18n } from '../i18n/i18n';
+
+interface SessionAnnouncerProps {
+  assistantName: string;
+  isConnected: boolean;
+  // The turn's expression, not the activity states the avatar also shows
+  expression: ExpressiveEmotion;
+}
+
+/**
+ * Tells screen readers about what only shows on the avatar: connecting,
+ * disconnecting and the assistant's change of expression. New turns are
+ * announced by the transcript itself.
+ */
+export function SessionAnnouncer({ assistantName, isConnected, expression }: SessionAnnouncerProps) {
+  const { t } = useI18n();
+  const [announcement, setAnnouncement] = useState('');
+  const wasConnected = useRef(isConnected);
+  const lastExpression = useRef(expression);
+
+  // Connecting comes with a greeting smile, which isn't news of its own
+  useEffect(() => {
+    const connectionChanged = wasConnected.current !== isConnected;
+    const expressionChanged = lastExpression.current !== expression;
+    wasConnected.current = isConnected;
+    lastExpression.current = expression;
+    if (connectionChanged) {
+      setAnnouncement(t(isConnected ? 'a11y.connected' : 'a11y.disconnected', { name: assistantName }));
+    } else if (expressionChanged && isConnected && expression !== 'neutral') {
+      setAnnouncement(t('a11y.expression', { name: assistantName, emotion: t(`emotion.${expression}`) }));
+    }
+  }, [isConnected, expression, assistantName, t]);
+
+  return (
+    <div role="status" aria-live="polite" className="sr-only">
+      {announcement}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { MotionConfig } from 'motion/react';
+
+export interface AccessibilitySettings {
+  // Keep the avatar still and drop sliding, pulsing and spring effects
+  reduceMotion: boolean;
+  // Bright text and borders in place of the dim default theme
+  highContrast: boolean;
+  // Large captions of what the assistant is saying
+  captions: boolean;
+}
+
+const ACCESSIBILITY_STORAGE_KEY = 'luca.accessibility';
+
+const prefers = (query: string) => typeof window !== 'undefined' && !!window.matchMedia?.(query).matches;
+
+/** What the operating system asks for; settings the user hasn't changed follow it. */
+export const systemAccessibilitySettings = (): AccessibilitySettings => ({
+  reduceMotion: prefers('(prefers-reduced-motion: reduce)'),
+  highContrast: prefers('(prefers-contrast: more)'),
+  captions: false,
+});
+
+export interface Accessibility {
+  settings: AccessibilitySettings;
+  update: (patch: Partial<AccessibilitySettings>) => void;
+}
+
+const AccessibilityContext = createContext<Accessibility>({
+  settings: systemAccessibilitySettings(),
+  update: () => {},
+});
+
+const storedOverrides = (): Partial<AccessibilitySettings> => {
+  try {
+    return JSON.parse(localStorage.getItem(ACCESSIBILITY_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * The app's accessibility settings: remembers what the user changed, sets the
+ * page's `reduce-motion` and `high-contrast` classes (see index.css) and tells
+ * motion to skip transform animations.
+ */
+export function AccessibilityProvider({ children }: { children: React.ReactNode }) {
+  const [overrides, setOverrides] = useState(storedOverrides);
+  const settings = useMemo(() => ({ ...systemAccessibilitySettings(), ...overrides }), [overrides]);
+
+  useEffect(() => {
+    localStorage.setItem(ACCESSIBILITY_STORAGE_KEY, JSON.stringify(overrides));
+    document.documentElement.classList.toggle('reduce-motion', settings.reduceMotion);
+    document.documentElement.classList.toggle('high-contrast', settings.highContrast);
+  }, [overrides, settings]);
+
+  const value = useMemo<Accessibility>(() => ({
+    settings,
+    update: patch => setOverrides(prev => ({ ...prev, ...patch })),
+  }), [settings]);
+
+  return (
+    <AccessibilityContext.Provider value={value}>
+      <MotionConfig reducedMotion={settings.reduceMotion ? 'always' : 'never'}>{children}</MotionConfig>
+    </AccessibilityContext.Provider>
+  );
+}
+
+/** Accessibility settings. Outside a provider (e.g. in the widget) they follow the system's. */
+export const useAccessibility = () => useContext(AccessibilityContext);
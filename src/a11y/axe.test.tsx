@@ -0,0 +1,109 @@
+import React from 'react';
+import axe from 'axe-core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen, within } from '@testing-library/react';
+import App from '../App';
+import { AccessibilityProvider } from './accessibility';
+import { SignInScreen } from '../auth/SignInScreen';
+import { AppI18nProvider } from '../i18n/AppI18nProvider';
+import { installFakeAudio } from '../test/fakeAudio';
+import { SessionDetail } from '../types';
+
+const USER = { id: 'user-1', username: 'ada', isAdmin: true, createdAt: 0 };
+
+const PAST_SESSION: SessionDetail = {
+  id: 'past',
+  title: 'Trip planning',
+  createdAt: 1_700_000_000_000,
+  updatedAt: 1_700_000_060_000,
+  messageCount: 4,
+  messages: [
+    { id: 'm1', role: 'user', text: 'Where should I go in May?', createdAt: 1_700_000_000_000, source: 'voice', status: 'complete' },
+    {
+      id: 'm2',
+      role: 'tool',
+      text: 'search_knowledge("May travel")',
+      createdAt: 1_700_000_010_000,
+      source: 'tool',
+      status: 'complete',
+      tool: { name: 'search_knowledge', args: { query: 'May travel' }, result: [] },
+    },
+    {
+      id: 'm3',
+      role: 'ai',
+      text: '**Lisbon** is lovely then:\n\n- mild weather\n- fewer crowds\n\nSee [the guide](https://example.com/lisbon) or `itinerary.md`.',
+      createdAt: 1_700_000_020_000,
+      source: 'voice',
+      status: 'complete',
+      pinned: true,
+      citations: [{ documentId: 'd1', documentName: 'Travel guide.pdf', heading: 'Portugal' }],
+    },
+    { id: 'm4', role: 'user', text: 'Thanks!', createdAt: 1_700_000_030_000, source: 'typed', status: 'complete', attachments: ['photo.jpg'] },
+  ],
+};
+
+// Checks the whole page; color contrast needs layout, which jsdom doesn't do
+async function violations() {
+  const results = await axe.run(document.body, { rules: { 'color-contrast': { enabled: false } } });
+  return results.violations.map(v => `${v.id}: ${v.help} (${v.nodes.map(node => node.target.join(' ')).join(', ')})`);
+}
+
+function renderApp() {
+  return render(
+    <AppI18nProvider>
+      <AccessibilityProvider>
+        <App user={USER} onSignOut={() => {}} />
+      </AccessibilityProvider>
+    </AppI18nProvider>
+  );
+}
+
+beforeEach(() => {
+  localStorage.clear();
+  installFakeAudio();
+  vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => {
+    if (init?.method && init.method !== 'GET') return new Response(null, { status: 204 });
+    if (url === '/api/sessions') return Response.json([PAST_SESSION]);
+    if (url === '/api/sessions/past') return Response.json(PAST_SESSION);
+    return Response.json([]);
+  }));
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('axe', () => {
+  it('finds no violations on the sign-in screen', async () => {
+    render(
+      <AppI18nProvider>
+        <SignInScreen signupOpen onSignedIn={() => {}} />
+      </AppI18nProvider>
+    );
+    expect(await violations()).toEqual([]);
+  });
+
+  it('finds no violations on the main view', async () => {
+    renderApp();
+    await screen.findByRole('button', { name: 'Connect to LUCA' });
+    expect(await violations()).toEqual([]);
+  });
+
+  it('finds no violations on a past conversation', async () => {
+    renderApp();
+    fireEvent.click(screen.getByRole('button', { name: 'History' }));
+    fireEvent.click(await screen.findByRole('button', { name: /Trip planning/ }));
+    await within(screen.getByRole('log')).findByText('Where should I go in May?');
+    expect(await violations()).toEqual([]);
+  });
+
+  it.each(['History', 'Persona', 'Audio', 'Knowledge', 'Memory', 'Accessibility'])(
+    'finds no violations with the %s panel open',
+    async panel => {
+      renderApp();
+      fireEvent.click(screen.getByRole('button', { name: panel }));
+      await screen.findByRole('dialog');
+      expect(await violations()).toEqual([]);
+    }
+  );
+});
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { isControlTarget, isTypingTarget } from './shortcuts';
+
+// Dispatches a Space keydown from `html`'s first element and reports what the checks made of it
+function spaceOn(html: string) {
+  document.body.innerHTML = html;
+  const target = document.body.firstElementChild!.querySelector('[data-target]') ?? document.body.firstElementChild!;
+  let result = { control: false, typing: false };
+  window.addEventListener('keydown', e => {
+    result = { control: isControlTarget(e), typing: isTypingTarget(e) };
+  }, { once: true });
+  target.dispatchEvent(new KeyboardEvent('keydown', { code: 'Space', bubbles: true }));
+  return result;
+}
+
+describe('shortcut targets', () => {
+  it('leaves Space to buttons, links and toggles', () => {
+    expect(spaceOn('<button>Connect</button>').control).toBe(true);
+    expect(spaceOn('<a href="/admin">Admin</a>').control).toBe(true);
+    expect(spaceOn('<div role="switch" tabindex="0"></div>').control).toBe(true);
+    expect(spaceOn('<div role="menuitem" tabindex="0"><span data-target>Copy</span></div>').control).toBe(true);
+  });
+
+  it('treats fields as typing rather than controls', () => {
+    expect(spaceOn('<input>')).toEqual({ control: false, typing: true });
+    expect(spaceOn('<textarea></textarea>')).toEqual({ control: false, typing: true });
+  });
+
+  it('lets Space talk from anywhere else', () => {
+    expect(spaceOn('<main><p data-target>Transcript</p></main>')).toEqual({ control: false, typing: false });
+  });
+});
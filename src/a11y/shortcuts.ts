@@ -0,0 +1,71 @@
+import { useEffect, useRef } from 'react';
+import { MessageKey } from '../i18n/i18n';
+
+export type ShortcutAction = 'connect' | 'mute' | 'focusComposer' | 'captions' | 'help';
+
+export interface Shortcut {
+  // As shown to the user, and in aria-keyshortcuts
+  keys: string;
+  label: MessageKey;
+  // Left out for keys handled where they apply (Space in the session, Enter in the composer)
+  action?: ShortcutAction;
+  // Alt combinations match the physical key, since Alt+letter types symbols on some layouts
+  code?: string;
+  key?: string;
+}
+
+export const SHORTCUTS: Shortcut[] = [
+  { keys: 'Alt+C', label: 'shortcuts.connect', action: 'connect', code: 'KeyC' },
+  { keys: 'Alt+M', label: 'shortcuts.mute', action: 'mute', code: 'KeyM' },
+  { keys: 'Space', label: 'shortcuts.pushToTalk' },
+  { keys: '/', label: 'shortcuts.focusComposer', action: 'focusComposer', key: '/' },
+  { keys: 'Enter', label: 'shortcuts.send' },
+  { keys: 'Alt+L', label: 'shortcuts.captions', action: 'captions', code: 'KeyL' },
+  { keys: '?', label: 'shortcuts.help', action: 'help', key: '?' },
+];
+
+export const shortcutKeys = (action: ShortcutAction) => SHORTCUTS.find(s => s.action === action)?.keys;
+
+// Keys typed into a field shouldn't trigger shortcuts. The event's own target is
+// retargeted when the field sits in a shadow root, so look at the original one.
+export const isTypingTarget = (e: Event) => {
+  const target = e.composedPath()[0] ?? e.target;
+  return target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+};
+
+// Space presses or toggles whichever of these has focus, so it's theirs to handle
+const CONTROL_SELECTOR = [
+  'button', 'a[href]', 'summary', '[role=button]', '[role=link]', '[role=checkbox]', '[role=switch]',
+  '[role=radio]', '[role=tab]', '[role=option]', '[role=menuitem]', '[role=menuitemcheckbox]', '[role=menuitemradio]',
+].join(', ');
+
+export const isControlTarget = (e: Event) => {
+  const target = e.composedPath()[0] ?? e.target;
+  return target instanceof Element && target.closest(CONTROL_SELECTOR) !== null;
+};
+
+const matches = (shortcut: Shortcut, e: KeyboardEvent) => {
+  if (e.ctrlKey || e.metaKey) return false;
+  if (shortcut.code) return e.altKey && e.code === shortcut.code;
+  // Plain keys would get in the way of typing
+  return !e.altKey && e.key === shortcut.key && !isTypingTarget(e);
+};
+
+/** Runs the handler for whichever of SHORTCUTS is pressed, anywhere on the page. */
+export function useKeyboardShortcuts(handlers: Partial<Record<ShortcutAction, () => void>>) {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.repeat) return;
+      const shortcut = SHORTCUTS.find(s => s.action && matches(s, e));
+      const handler = shortcut?.action && handlersRef.current[shortcut.action];
+      if (!handler) return;
+      e.preventDefault();
+      handler();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, []);
+}
@@ -0,0 +1,249 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, Download, X } from 'lucide-react';
+import {
+  getTelemetryCsvUrl,
+  getTelemetryOverview,
+  getTelemetrySession,
+  listTelemetrySessions,
+} from '../services/telemetryService';
+import { TelemetryOverview, TelemetrySession, TelemetrySessionDetail, User } from '../types';
+import { Chart } from './Chart';
+
+const RANGES = [7, 30, 90];
+
+const labelClass = 'text-[10px] uppercase tracking-widest font-bold text-white/40';
+
+const formatMs = (ms: number | undefined) =>
+  ms === undefined ? '—' : ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(2)} s`;
+const formatCount = (value: number) => value.toLocaleString();
+const formatTokens = (value: number) =>
+  value >= 1_000_000 ? `${(value / 1_000_000).toFixed(1)}M` : value >= 1000 ? `${(value / 1000).toFixed(1)}k` : String(value);
+const formatDuration = (session: TelemetrySession) => {
+  const seconds = Math.round(((session.endedAt ?? session.updatedAt) - session.startedAt) / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="bg-[#111111] border border-white/5 rounded-xl p-4 flex flex-col gap-1">
+      <span className={labelClass}>{label}</span>
+      <span className="text-xl font-bold">{value}</span>
+    </div>
+  );
+}
+
+function SessionDetail({ session, onClose }: { session: TelemetrySessionDetail; onClose: () => void }) {
+  const labels = session.latencies.map((sample, i) => `Reply ${i + 1} · ${new Date(sample.at).toLocaleTimeString()}`);
+  return (
+    <div className="bg-[#0f0f0f] border border-violet-500/20 rounded-2xl p-6 flex flex-col gap-4">
+      <div className="flex items-center justify-between">
+        <span className={labelClass}>
+          Session {session.sessionId.slice(0, 8)} · {session.personaId} · {new Date(session.startedAt).toLocaleString()}
+        </span>
+        <button onClick={onClose} className="text-white/40 hover:text-white transition-colors">
+          <X size={16} />
+        </button>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Stat label="Duration" value={formatDuration(session)} />
+        <Stat label="Turns (user / LUCA)" value={`${session.userTurns} / ${session.aiTurns}`} />
+        <Stat label="Underruns / reconnects" value={`${session.underruns} / ${session.reconnects}`} />
+        <Stat label="Tokens (in / out)" value={`${formatTokens(session.promptTokens)} / ${formatTokens(session.responseTokens)}`} />
+      </div>
+      {session.latencies.length > 0 ? (
+        <Chart
+          title="Time to first audio, per reply"
+          kind="line"
+          labels={labels}
+          series={[{ name: 'Latency', color: '#8b5cf6', values: session.latencies.map(sample => sample.ms) }]}
+          format={formatMs}
+        />
+      ) : (
+        <p className="text-xs text-white/30">No replies were timed in this session.</p>
+      )}
+    </div>
+  );
+}
+
+/** Usage, latency and playback quality across recent sessions, at /admin. */
+export function AdminDashboard({ user }: { user: User }) {
+  if (!user.isAdmin) {
+    return (
+      <div className="min-h-screen bg-[#0a0a0a] text-white font-sans flex flex-col items-center justify-center gap-4 p-8">
+        <p className="text-sm text-white/60">Only admins can see the dashboard.</p>
+        <a href="/" className="text-xs text-violet-300 hover:text-violet-200 transition-colors">Back to LUCA</a>
+      </div>
+    );
+  }
+  return <Dashboard />;
+}
+
+function Dashboard() {
+  const [days, setDays] = useState(30);
+  const [overview, setOverview] = useState<TelemetryOverview | null>(null);
+  const [sessions, setSessions] = useState<TelemetrySession[]>([]);
+  const [selected, setSelected] = useState<TelemetrySessionDetail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([getTelemetryOverview(days), listTelemetrySessions(days)])
+      .then(([nextOverview, nextSessions]) => {
+        if (cancelled) return;
+        setOverview(nextOverview);
+        setSessions(nextSessions);
+        setError(null);
+      })
+      .catch(err => !cancelled && setError(err.message));
+    return () => {
+      cancelled = true;
+    };
+  }, [days]);
+
+  const handleSelect = async (id: string) => {
+    try {
+      setSelected(await getTelemetrySession(id));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const dayLabels = overview?.days.map(d => d.day) ?? [];
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0a] text-white font-sans selection:bg-violet-500/30 p-8">
+      <div className="max-w-6xl mx-auto flex flex-col gap-8">
+        <header className="flex items-center justify-between gap-4 flex-wrap">
+          <div className="flex items-center gap-4">
+            <a href="/" title="Back to LUCA" className="text-white/40 hover:text-white transition-colors">
+              <ArrowLeft size={18} />
+            </a>
+            <div>
+              <h1 className="text-2xl font-bold tracking-[0.2em] uppercase">Telemetry</h1>
+              <p className="text-[10px] tracking-[0.4em] text-white/40 uppercase">Usage, latency and quality</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-1 bg-[#111111] border border-white/5 rounded-full p-1">
+              {RANGES.map(range => (
+                <button
+                  key={range}
+                  onClick={() => setDays(range)}
+                  className={`px-3 py-1 rounded-full text-[10px] uppercase tracking-widest font-bold transition-colors ${
+                    days === range ? 'bg-violet-600/20 text-violet-300' : 'text-white/40 hover:text-white'
+                  }`}
+                >
+                  {range} days
+                </button>
+              ))}
+            </div>
+            <a
+              href={getTelemetryCsvUrl(days)}
+              download
+              className="flex items-center gap-2 text-white/40 hover:text-white transition-colors"
+            >
+              <Download size={16} />
+              <span className="text-[10px] uppercase tracking-widest font-bold">CSV</span>
+            </a>
+          </div>
+        </header>
+
+        {error && <p className="text-xs text-red-500/80">{error}</p>}
+
+        {overview && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-4">
+              <Stat label="Sessions" value={formatCount(overview.sessions)} />
+              <Stat label="Turns" value={formatCount(overview.turns)} />
+              <Stat label="Median latency" value={formatMs(overview.medianLatency)} />
+              <Stat label="p90 latency" value={formatMs(overview.p90Latency)} />
+              <Stat label="Underruns" value={formatCount(overview.underruns)} />
+              <Stat label="Reconnects" value={formatCount(overview.reconnects)} />
+              <Stat label="Tokens" value={formatTokens(overview.tokens)} />
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-4">
+              <Chart
+                title="Sessions and turns"
+                kind="bar"
+                labels={dayLabels}
+                series={[
+                  { name: 'Sessions', color: '#8b5cf6', values: overview.days.map(d => d.sessions) },
+                  { name: 'Turns', color: '#38bdf8', values: overview.days.map(d => d.turns) },
+                ]}
+              />
+              <Chart
+                title="Time to first audio"
+                kind="line"
+                labels={dayLabels}
+                series={[
+                  { name: 'Median', color: '#8b5cf6', values: overview.days.map(d => d.medianLatency) },
+                  { name: 'p90', color: '#f472b6', values: overview.days.map(d => d.p90Latency) },
+                ]}
+                format={formatMs}
+              />
+              <Chart
+                title="Tokens"
+                kind="bar"
+                labels={dayLabels}
+                series={[{ name: 'Tokens', color: '#34d399', values: overview.days.map(d => d.tokens) }]}
+                format={formatTokens}
+              />
+              <Chart
+                title="Playback and connection problems"
+                kind="bar"
+                labels={dayLabels}
+                series={[
+                  { name: 'Underruns', color: '#fbbf24', values: overview.days.map(d => d.underruns) },
+                  { name: 'Reconnects', color: '#f87171', values: overview.days.map(d => d.reconnects) },
+                ]}
+              />
+            </div>
+          </>
+        )}
+
+        {selected && <SessionDetail session={selected} onClose={() => setSelected(null)} />}
+
+        <div className="bg-[#111111] border border-white/5 rounded-xl overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left">
+                {['Started', 'Persona', 'Duration', 'Turns', 'Median latency', 'Underruns', 'Reconnects', 'Tokens'].map(heading => (
+                  <th key={heading} className={`${labelClass} px-4 py-3 font-bold`}>{heading}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {sessions.length === 0 ? (
+                <tr>
+                  <td colSpan={8} className="px-4 py-8 text-center text-white/10 uppercase tracking-[0.3em] text-xs font-bold italic">
+                    No sessions in this period
+                  </td>
+                </tr>
+              ) : (
+                sessions.map(session => (
+                  <tr
+                    key={session.sessionId}
+                    onClick={() => handleSelect(session.sessionId)}
+                    className={`border-t border-white/5 cursor-pointer transition-colors ${
+                      selected?.sessionId === session.sessionId ? 'bg-violet-600/20' : 'hover:bg-white/5'
+                    }`}
+                  >
+                    <td className="px-4 py-2 whitespace-nowrap">{new Date(session.startedAt).toLocaleString()}</td>
+                    <td className="px-4 py-2">{session.personaId}</td>
+                    <td className="px-4 py-2">{formatDuration(session)}</td>
+                    <td className="px-4 py-2">{session.userTurns + session.aiTurns}</td>
+                    <td className="px-4 py-2">{formatMs(session.medianLatency)}</td>
+                    <td className="px-4 py-2">{session.underruns}</td>
+                    <td className="px-4 py-2">{session.reconnects}</td>
+                    <td className="px-4 py-2">{formatTokens(session.totalTokens)}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import React from 'react';
+
+export interface ChartSeries {
+  name: string;
+  // Any CSS color; used as the SVG fill and stroke
+  color: string;
+  // One value per label; gaps are left where there is no value.
+  values: (number | undefined)[];
+}
+
+interface ChartProps {
+  title: string;
+  labels: string[];
+  series: ChartSeries[];
+  kind: 'bar' | 'line';
+  format?: (value: number) => string;
+}
+
+const WIDTH = 600;
+const HEIGHT = 160;
+
+/** A small SVG bar or line chart with a hover tooltip per point. */
+export function Chart({ title, labels, series, kind, format = String }: ChartProps) {
+  const max = Math.max(1, ...series.flatMap(s => s.values.filter((v): v is number => v !== undefined)));
+  const slot = WIDTH / Math.max(1, labels.length);
+  const y = (value: number) => HEIGHT - (value / max) * HEIGHT;
+  const x = (i: number) => slot * i + slot / 2;
+
+  return (
+    <div className="bg-[#111111] border border-white/5 rounded-xl p-4 flex flex-col gap-3">
+      <div className="flex items-center justify-between gap-4">
+        <span className="text-[10px] uppercase tracking-widest font-bold text-white/40">{title}</span>
+        <div className="flex items-center gap-3">
+          {series.map(s => (
+            <span key={s.name} className="flex items-center gap-1 text-[10px] text-white/40">
+              <span className="w-2 h-2 rounded-full" style={{ background: s.color }} />
+              {s.name}
+            </span>
+          ))}
+        </div>
+      </div>
+      <div className="flex gap-2">
+        <div className="flex flex-col justify-between text-[10px] text-white/30 text-right w-12 shrink-0">
+          <span>{format(max)}</span>
+          <span>0</span>
+        </div>
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="w-full h-40 overflow-visible">
+          <line x1={0} x2={WIDTH} y1={HEIGHT} y2={HEIGHT} stroke="rgba(255,255,255,0.1)" />
+          {kind === 'bar'
+            ? series.map((s, si) => s.values.map((value, i) => {
+                if (value === undefined) return null;
+                const barWidth = (slot * 0.7) / series.length;
+                const left = slot * i + slot * 0.15 + barWidth * si;
+                return (
+                  <rect key={`${s.name}-${i}`} x={left} y={y(value)} width={barWidth} height={HEIGHT - y(value)} fill={s.color} rx={1}>
+                    <title>{`${labels[i]} · ${s.name}: ${format(value)}`}</title>
+                  </rect>
+                );
+              }))
+            : series.map(s => {
+                const points = s.values
+                  .map((value, i) => value === undefined ? null : `${x(i)},${y(value)}`)
+                  .filter(Boolean)
+                  .join(' ');
+                return <polyline key={s.name} points={points} fill="none" stroke={s.color} strokeWidth={2} vectorEffect="non-scaling-stroke" />;
+              })}
+          {kind === 'line' && labels.map((label, i) => (
+            // The chart is stretched to fit, so points are hovered by column rather than drawn as dots
+            <rect key={i} x={slot * i} y={0} width={slot} height={HEIGHT} fill="transparent">
+              <title>
+                {[label, ...series.flatMap(s => s.values[i] === undefined ? [] : [`${s.name}: ${format(s.values[i]!)}`])].join(' · ')}
+              </title>
+            </rect>
+          ))}
+        </svg>
+      </div>
+      <div className="flex justify-between text-[10px] text-white/30 pl-14">
+        <span>{labels[0]}</span>
+        <span>{labels[labels.length - 1]}</span>
+      </div>
+    </div>
+  );
+}
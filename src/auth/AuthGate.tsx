@@ -0,0 +1,59 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { UNAUTHORIZED_EVENT } from '../services/api';
+import { getCurrentUser, signOut, SignedOut } from '../services/authService';
+import { User } from '../types';
+import { SignInScreen } from './SignInScreen';
+import { useI18n } from '../i18n/i18n';
+
+interface AuthGateProps {
+  children: (user: User, onSignOut: () => void) => React.ReactNode;
+}
+
+/** Shows the sign-in screen until there is a user, then renders the app for them. */
+export function AuthGate({ children }: AuthGateProps) {
+  const [auth, setAuth] = useState<User | SignedOut | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { t } = useI18n();
+
+  const refresh = useCallback(() => {
+    getCurrentUser()
+      .then(result => {
+        setAuth(result);
+        setError(null);
+      })
+      .catch(err => setError(err.message));
+  }, []);
+
+  // Loads on start, and again whenever the user is dropped below
+  useEffect(() => {
+    if (auth === null && !error) refresh();
+  }, [auth, error, refresh]);
+
+  // Any request that comes back unauthorized means the sign-in has lapsed
+  useEffect(() => {
+    const handleUnauthorized = () => setAuth(prev => (prev && 'id' in prev ? null : prev));
+    window.addEventListener(UNAUTHORIZED_EVENT, handleUnauthorized);
+    return () => window.removeEventListener(UNAUTHORIZED_EVENT, handleUnauthorized);
+  }, []);
+
+  const handleSignOut = useCallback(() => {
+    signOut()
+      .catch(err => console.error("Failed to sign out:", err))
+      .finally(() => setAuth(null));
+  }, []);
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-[#0a0a0a] text-white flex items-center justify-center p-8">
+        <p className="text-sm text-red-500/80">{t('auth.unreachable', { error })}</p>
+      </div>
+    );
+  }
+  if (auth === null) {
+    return <div className="min-h-screen bg-[#0a0a0a]" />;
+  }
+  if (!('id' in auth)) {
+    return <SignInScreen signupOpen={auth.signupOpen} onSignedIn={setAuth} />;
+  }
+  return <>{children(auth, handleSignOut)}</>;
+}
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { register, signIn } from '../services/authService';
+import { useI18n } from '../i18n/i18n';
+import { User } from '../types';
+
+interface SignInScreenProps {
+  signupOpen: boolean;
+  onSignedIn: (user: User) => void;
+}
+
+const inputClass = 'w-full bg-[#111111] border border-white/5 rounded-xl px-3 py-2 text-sm focus:outline-none focus:border-violet-500/50 transition-colors';
+const labelClass = 'text-[10px] uppercase tracking-widest font-bold text-white/40';
+
+export function SignInScreen({ signupOpen, onSignedIn }: SignInScreenProps) {
+  const [mode, setMode] = useState<'signIn' | 'register'>('signIn');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { t } = useI18n();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      onSignedIn(await (mode === 'signIn' ? signIn : register)(username.trim(), password));
+    } catch (err: any) {
+      setError(err.message);
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <main className="min-h-screen bg-[#0a0a0a] text-white font-sans selection:bg-violet-500/30 flex flex-col items-center justify-center p-8">
+      <header className="text-center mb-12">
+        <h1 className="text-6xl font-bold tracking-[0.2em] text-white mb-2 uppercase">Luca</h1>
+        <p className="text-sm tracking-[0.4em] text-white/40 uppercase">{t('app.subtitle')}</p>
+      </header>
+
+      <form onSubmit={handleSubmit} className="w-full max-w-sm bg-[#0f0f0f] border border-white/5 rounded-2xl p-6 flex flex-col gap-4">
+        <span className={labelClass}>{t(mode === 'signIn' ? 'auth.signIn' : 'auth.createAccountTitle')}</span>
+
+        <label className="flex flex-col gap-1">
+          <span className={labelClass}>{t('auth.username')}</span>
+          <input
+            className={inputClass}
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            autoComplete="username"
+            autoFocus
+            required
+          />
+        </label>
+
+        <label className="flex flex-col gap-1">
+          <span className={labelClass}>{t('auth.password')}</span>
+          <input
+            className={inputClass}
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete={mode === 'signIn' ? 'current-password' : 'new-password'}
+            minLength={mode === 'register' ? 8 : undefined}
+            required
+          />
+        </label>
+
+        {error && <p className="text-xs text-red-500/80">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="flex items-center justify-center gap-2 bg-violet-600/20 border border-violet-500/20 rounded-xl px-3 py-2 text-sm text-violet-300 hover:bg-violet-600/30 transition-colors disabled:opacity-40"
+        >
+          {isSubmitting && <Loader2 size={14} className="animate-spin" />}
+          {t(mode === 'signIn' ? 'auth.signIn' : 'auth.createAccount')}
+        </button>
+
+        {signupOpen && (
+          <button
+            type="button"
+            onClick={() => {
+              setMode(mode === 'signIn' ? 'register' : 'signIn');
+              setError(null);
+            }}
+            className="text-xs text-white/40 hover:text-white transition-colors"
+          >
+            {t(mode === 'signIn' ? 'auth.toRegister' : 'auth.toSignIn')}
+          </button>
+        )}
+      </form>
+    </main>
+  );
+}
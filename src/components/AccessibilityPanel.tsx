@@ -0,0 +1,93 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { X } from 'lucide-react';
+import { AccessibilitySettings, useAccessibility } from '../a11y/accessibility';
+import { SHORTCUTS } from '../a11y/shortcuts';
+import { useDialog } from '../hooks/useDialog';
+import { MessageKey, useI18n } from '../i18n/i18n';
+
+interface AccessibilityPanelProps {
+  open: boolean;
+  onClose: () => void;
+  assistantName: string;
+}
+
+const labelClass = 'text-[10px] uppercase tracking-widest font-bold text-white/40';
+
+const OPTIONS: { key: keyof AccessibilitySettings; label: MessageKey; hint: MessageKey }[] = [
+  { key: 'captions', label: 'a11y.captions', hint: 'a11y.captionsHint' },
+  { key: 'reduceMotion', label: 'a11y.reduceMotion', hint: 'a11y.reduceMotionHint' },
+  { key: 'highContrast', label: 'a11y.highContrast', hint: 'a11y.highContrastHint' },
+];
+
+/** Captions, motion and contrast settings, and the keyboard shortcuts. */
+export function AccessibilityPanel({ open, onClose, assistantName }: AccessibilityPanelProps) {
+  const { settings, update } = useAccessibility();
+  const { t } = useI18n();
+  const dialogRef = useDialog<HTMLDivElement>(open, onClose);
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-40 bg-black/60 flex items-center justify-center p-8"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.95, y: 10 }}
+            animate={{ scale: 1, y: 0 }}
+            exit={{ scale: 0.95, y: 10 }}
+            onClick={(e) => e.stopPropagation()}
+            ref={dialogRef}
+            role="dialog"
+            aria-modal="true"
+            aria-label={t('a11y.title')}
+            tabIndex={-1}
+            className="w-full max-w-md max-h-[80vh] overflow-y-auto custom-scrollbar bg-[#0f0f0f] border border-white/5 rounded-2xl p-6 flex flex-col gap-4 outline-none"
+          >
+            <div className="flex items-center justify-between">
+              <span className={labelClass}>{t('a11y.title')}</span>
+              <button onClick={onClose} aria-label={t('a11y.close')} className="text-white/40 hover:text-white transition-colors">
+                <X size={16} />
+              </button>
+            </div>
+
+            <div className="flex flex-col gap-3">
+              {OPTIONS.map(({ key, label, hint }) => (
+                <label key={key} className="flex items-start gap-3 text-sm text-white/70">
+                  <input
+                    type="checkbox"
+                    checked={settings[key]}
+                    onChange={(e) => update({ [key]: e.target.checked })}
+                    className="accent-violet-500 mt-1"
+                  />
+                  <span className="flex flex-col">
+                    {t(label)}
+                    <span className="text-[11px] text-white/40">{t(hint, { name: assistantName })}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+
+            <div className="flex flex-col gap-2">
+              <span className={labelClass}>{t('a11y.shortcuts')}</span>
+              <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm text-white/70">
+                {SHORTCUTS.map(({ keys, label }) => (
+                  <React.Fragment key={keys}>
+                    <dt>
+                      <kbd className="px-2 py-0.5 rounded-md bg-white/5 border border-white/10 font-mono text-xs">{keys}</kbd>
+                    </dt>
+                    <dd>{t(label)}</dd>
+                  </React.Fragment>
+                ))}
+              </dl>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
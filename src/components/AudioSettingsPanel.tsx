@@ -0,0 +1,209 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { X } from 'lucide-react';
+import { AudioSettings } from '../types';
+import { AudioDevices, listAudioDevices, onDeviceChange, supportsOutputSelection } from '../services/audioDevices';
+import { microphoneConstraints } from '../services/liveAudioService';
+import { useDialog } from '../hooks/useDialog';
+import { MessageKey, useI18n } from '../i18n/i18n';
+
+interface AudioSettingsPanelProps {
+  open: boolean;
+  onClose: () => void;
+  settings: AudioSettings;
+  onChange: (settings: AudioSettings) => void;
+  // The live session's mic analyser; without one the panel opens a preview of the mic itself.
+  analyser: AnalyserNode | null;
+}
+
+const inputClass = 'w-full bg-[#111111] border border-white/5 rounded-xl px-3 py-2 text-sm focus:outline-none focus:border-violet-500/50 transition-colors';
+const labelClass = 'text-[10px] uppercase tracking-widest font-bold text-white/40';
+
+const PROCESSING_OPTIONS: { key: 'echoCancellation' | 'noiseSuppression' | 'autoGainControl'; label: MessageKey }[] = [
+  { key: 'echoCancellation', label: 'audio.echoCancellation' },
+  { key: 'noiseSuppression', label: 'audio.noiseSuppression' },
+  { key: 'autoGainControl', label: 'audio.autoGainControl' },
+];
+
+// Mic preview for when no session is running, with the same constraints and gain a session would use
+function usePreviewAnalyser(enabled: boolean, settings: AudioSettings) {
+  const [preview, setPreview] = useState<{ analyser: AnalyserNode; gain: GainNode } | null>(null);
+  const { inputDeviceId, echoCancellation, noiseSuppression, autoGainControl } = settings;
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    const context = new AudioContext();
+    navigator.mediaDevices.getUserMedia(microphoneConstraints(settings)).then(s => {
+      stream = s;
+      if (cancelled) {
+        s.getTracks().forEach(track => track.stop());
+        return;
+      }
+      const gain = context.createGain();
+      const analyser = context.createAnalyser();
+      analyser.fftSize = 64;
+      context.createMediaStreamSource(s).connect(gain).connect(analyser);
+      setPreview({ analyser, gain });
+    }).catch(err => console.warn("Mic preview unavailable:", err));
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+      context.close();
+      setPreview(null);
+    };
+    // Gain is applied below without reopening the mic
+  }, [enabled, inputDeviceId, echoCancellation, noiseSuppression, autoGainControl]);
+
+  useEffect(() => {
+    if (preview) preview.gain.gain.value = settings.inputGain;
+  }, [preview, settings.inputGain]);
+
+  return preview?.analyser ?? null;
+}
+
+function useLevel(analyser: AnalyserNode | null) {
+  const [level, setLevel] = useState(0);
+  useEffect(() => {
+    if (!analyser) {
+      setLevel(0);
+      return;
+    }
+    const data = new Uint8Array(analyser.fftSize);
+    let frame: number;
+    const update = () => {
+      analyser.getByteTimeDomainData(data);
+      let sum = 0;
+      for (let i = 0; i < data.length; i++) {
+        const v = (data[i] - 128) / 128;
+        sum += v * v;
+      }
+      setLevel(Math.min(1, Math.sqrt(sum / data.length) * 3));
+      frame = requestAnimationFrame(update);
+    };
+    update();
+    return () => cancelAnimationFrame(frame);
+  }, [analyser]);
+  return level;
+}
+
+export function AudioSettingsPanel({ open, onClose, settings, onChange, analyser }: AudioSettingsPanelProps) {
+  const [devices, setDevices] = useState<AudioDevices>({ inputs: [], outputs: [] });
+  const previewAnalyser = usePreviewAnalyser(open && !analyser, settings);
+  const level = useLevel(open ? analyser ?? previewAnalyser : null);
+  const canSelectOutput = supportsOutputSelection();
+  const { t } = useI18n();
+  const dialogRef = useDialog<HTMLDivElement>(open, onClose);
+
+  useEffect(() => {
+    if (!open) return;
+    const refresh = () => listAudioDevices().then(setDevices).catch(err => console.error("Failed to list devices:", err));
+    refresh();
+    return onDeviceChange(refresh);
+    // The preview grants mic access, after which device labels become available
+  }, [open, previewAnalyser]);
+
+  const update = (patch: Partial<AudioSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-40 bg-black/60 flex items-center justify-center p-8"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.95, y: 10 }}
+            animate={{ scale: 1, y: 0 }}
+            exit={{ scale: 0.95, y: 10 }}
+            onClick={(e) => e.stopPropagation()}
+            ref={dialogRef}
+            role="dialog"
+            aria-modal="true"
+            aria-label={t('audio.title')}
+            tabIndex={-1}
+            className="w-full max-w-md bg-[#0f0f0f] border border-white/5 rounded-2xl p-6 flex flex-col gap-4 outline-none"
+          >
+            <div className="flex items-center justify-between">
+              <span className={labelClass}>{t('audio.title')}</span>
+              <button onClick={onClose} aria-label={t('a11y.close')} className="text-white/40 hover:text-white transition-colors">
+                <X size={16} />
+              </button>
+            </div>
+
+            <label className="flex flex-col gap-1">
+              <span className={labelClass}>{t('audio.microphone')}</span>
+              <select className={inputClass} value={settings.inputDeviceId} onChange={(e) => update({ inputDeviceId: e.target.value })}>
+                <option value="">{t('audio.systemDefault')}</option>
+                {devices.inputs.filter(d => d.deviceId && d.deviceId !== 'default').map((device, i) => (
+                  <option key={device.deviceId} value={device.deviceId}>{device.label || t('audio.microphoneNumber', { number: i + 1 })}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className="flex flex-col gap-1">
+              <span className={labelClass}>{t('audio.speaker')}</span>
+              <select
+                className={`${inputClass} disabled:opacity-40`}
+                value={settings.outputDeviceId}
+                disabled={!canSelectOutput}
+                onChange={(e) => update({ outputDeviceId: e.target.value })}
+              >
+                <option value="">{t('audio.systemDefault')}</option>
+                {devices.outputs.filter(d => d.deviceId && d.deviceId !== 'default').map((device, i) => (
+                  <option key={device.deviceId} value={device.deviceId}>{device.label || t('audio.speakerNumber', { number: i + 1 })}</option>
+                ))}
+              </select>
+              {!canSelectOutput && (
+                <span className="text-[10px] text-white/30">{t('audio.outputUnsupported')}</span>
+              )}
+            </label>
+
+            <div className="flex flex-col gap-2">
+              <span className={labelClass}>{t('audio.processing')}</span>
+              {PROCESSING_OPTIONS.map(({ key, label }) => (
+                <label key={key} className="flex items-center gap-3 text-sm text-white/70">
+                  <input
+                    type="checkbox"
+                    checked={settings[key]}
+                    onChange={(e) => update({ [key]: e.target.checked })}
+                    className="accent-violet-500"
+                  />
+                  {t(label)}
+                </label>
+              ))}
+            </div>
+
+            <label className="flex flex-col gap-1">
+              <span className={labelClass}>{t('audio.inputGain', { percent: Math.round(settings.inputGain * 100) })}</span>
+              <input
+                type="range"
+                min={0}
+                max={3}
+                step={0.05}
+                value={settings.inputGain}
+                onChange={(e) => update({ inputGain: Number(e.target.value) })}
+                className="accent-violet-500"
+              />
+            </label>
+
+            <div className="flex flex-col gap-1">
+              <span className={labelClass}>{t('audio.micLevel')}</span>
+              <div className="h-2 w-full bg-[#111111] border border-white/5 rounded-full overflow-hidden">
+                <div
+                  className={`h-full transition-[width] duration-75 ${level > 0.9 ? 'bg-red-500' : 'bg-violet-500'}`}
+                  style={{ width: `${level * 100}%` }}
+                />
+              </div>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
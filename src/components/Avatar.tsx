@@ -0,0 +1,201 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { MicOff, Sparkles } from 'lucide-react';
+import { InputMode } from '../services/liveAudioService';
+import { useAudioLevels } from '../hooks/useAudioLevels';
+import { useAccessibility } from '../a11y/accessibility';
+import { shortcutKeys } from '../a11y/shortcuts';
+import { useI18n } from '../i18n/i18n';
+import { Emotion, Persona } from '../types';
+
+interface AvatarProps {
+  persona: Persona;
+  emotion: Emotion;
+  isConnected: boolean;
+  isConnecting: boolean;
+  isPreparingSpeech: boolean;
+  isUserSpeaking: boolean;
+  inputMode: InputMode;
+  // Voice isn't available and the conversation is carrying on in text
+  textOnly?: boolean;
+  // Drives the glow behind the face
+  analyser: AnalyserNode | null;
+  onConnect: () => void;
+  onDisconnect: () => void;
+  onPushToTalk: (pressed: boolean) => void;
+}
+
+/** The persona's face, doubling as the connect button and the push-to-talk target. */
+export function Avatar({
+  persona,
+  emotion,
+  isConnected,
+  isConnecting,
+  isPreparingSpeech,
+  isUserSpeaking,
+  inputMode,
+  textOnly = false,
+  analyser,
+  onConnect,
+  onDisconnect,
+  onPushToTalk,
+}: AvatarProps) {
+  const { level: audioLevel } = useAudioLevels(analyser);
+  const { t } = useI18n();
+  const { reduceMotion } = useAccessibility().settings;
+  // The idle loops are decoration; with reduced motion the face just holds still
+  const animate = isConnected && !reduceMotion;
+
+  return (
+    <div className="relative mb-8">
+      <AnimatePresence>
+        {isPreparingSpeech && (
+          <motion.div
+            initial={{ opacity: 0, scale: 0.8 }}
+            animate={{ opacity: 1, scale: 1.2 }}
+            exit={{ opacity: 0, scale: 1.5 }}
+            className="absolute -top-4 -end-4 z-20 bg-violet-500 text-white p-2 rounded-full shadow-lg"
+          >
+            <Sparkles size={16} className="animate-pulse" />
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <motion.div
+        animate={{
+          scale: animate ? (
+            emotion === 'thinking' ? [1, 1.01, 1] :
+            emotion === 'excited' ? [1, 1.1, 1] :
+            emotion === 'talking' ? [1, 1.04, 1] :
+            emotion === 'surprised' ? [1, 1.05, 1] :
+            [1, 1.02, 1]
+          ) : 1,
+          y: animate ? (
+            emotion === 'sad' ? [0, 4, 0] :
+            emotion === 'excited' ? [0, -6, 0] :
+            emotion === 'happy' ? [0, -2, 2, -2, 0] : // Slight bounce
+            emotion === 'thinking' ? [0, -1, 1, -1, 0] : // Pondering shift
+            [0, -2, 0]
+          ) : 0,
+          rotate: animate ? (
+            emotion === 'thinking' ? [-1, 1, -1] :
+            emotion === 'surprised' ? [-2, 2, -2] :
+            emotion === 'sad' ? [-1, 0, 1, 0] :
+            0
+          ) : 0,
+          boxShadow: animate ? [
+            isPreparingSpeech ? "0 0 40px rgba(167, 139, 250, 0.6)" : "0 0 20px rgba(139, 92, 246, 0.1)",
+            emotion === 'excited' ? "0 0 60px rgba(139, 92, 246, 0.4)" :
+            emotion === 'thinking' ? "0 0 30px rgba(139, 92, 246, 0.15)" :
+            isPreparingSpeech ? "0 0 80px rgba(167, 139, 250, 0.8)" : "0 0 40px rgba(139, 92, 246, 0.2)",
+            isPreparingSpeech ? "0 0 40px rgba(167, 139, 250, 0.6)" : "0 0 20px rgba(139, 92, 246, 0.1)"
+          ] : isConnected ? "0 0 20px rgba(139, 92, 246, 0.1)" : "none",
+          borderColor: isPreparingSpeech ? "rgba(167, 139, 250, 0.8)" : "rgba(255, 255, 255, 0.05)"
+        }}
+        transition={{
+          duration: isPreparingSpeech ? 0.3 : (emotion === 'thinking' ? 4 : emotion === 'excited' ? 0.6 : emotion === 'sad' ? 5 : 3),
+          repeat: isPreparingSpeech || !animate ? 0 : Infinity,
+          ease: "easeInOut"
+        }}
+        className="w-48 h-48 rounded-full bg-[#1a1a1a] border flex flex-col items-center justify-center relative shadow-2xl"
+      >
+        <AnimatePresence mode="wait">
+          {!isConnected ? (
+            <motion.button
+              key="connect"
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              onClick={onConnect}
+              disabled={isConnecting}
+              aria-label={t(isConnecting ? 'avatar.connecting' : 'a11y.connectTo', { name: persona.name })}
+              aria-keyshortcuts={shortcutKeys('connect')}
+              className={`flex flex-col items-center gap-2 transition-colors ${isConnecting ? 'text-violet-400' : 'text-white/40 hover:text-white'}`}
+            >
+              {isConnecting ? (
+                <motion.div
+                  animate={{ rotate: reduceMotion ? 0 : 360 }}
+                  transition={{ duration: 1, repeat: reduceMotion ? 0 : Infinity, ease: "linear" }}
+                >
+                  <Sparkles size={32} />
+                </motion.div>
+              ) : (
+                <MicOff size={32} />
+              )}
+              <span className="text-xs uppercase tracking-widest font-bold">
+                {t(isConnecting ? 'avatar.connecting' : 'avatar.connect')}
+              </span>
+            </motion.button>
+          ) : (
+            <motion.div
+              key="avatar"
+              initial={{ scale: 0.5, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              className="flex flex-col items-center justify-center"
+            >
+              <AnimatePresence mode="popLayout">
+                <motion.div
+                  key={emotion}
+                  initial={reduceMotion ? { opacity: 0 } : { scale: 0.5, opacity: 0, filter: 'blur(15px)', rotate: -10 }}
+                  animate={{ scale: 1, opacity: 1, filter: 'blur(0px)', rotate: 0 }}
+                  exit={reduceMotion ? { opacity: 0 } : { scale: 1.5, opacity: 0, filter: 'blur(15px)', rotate: 10 }}
+                  transition={{
+                    type: 'spring',
+                    stiffness: 400,
+                    damping: 30,
+                    opacity: { duration: 0.15 }
+                  }}
+                  className="flex flex-col items-center"
+                >
+                  <motion.div
+                    role="img"
+                    aria-label={t('a11y.avatar', { name: persona.name, emotion: t(`emotion.${emotion}`) })}
+                    animate={reduceMotion ? { y: 0, rotate: 0, scale: 1 } : {
+                      y: [0, -4, 0],
+                      rotate: emotion === 'happy' ? [0, 5, -5, 0] : 0,
+                      scale: emotion === 'listening' ? [1, 1.1, 1] : 1
+                    }}
+                    transition={{
+                      duration: emotion === 'thinking' ? 4 : 2,
+                      repeat: reduceMotion ? 0 : Infinity,
+                      ease: "easeInOut"
+                    }}
+                    className={`text-6xl mb-2 select-none touch-none ${inputMode === 'push-to-talk' && !textOnly ? 'cursor-pointer' : ''}`}
+                    onPointerDown={(e) => {
+                      if (inputMode !== 'push-to-talk' || textOnly) return;
+                      e.currentTarget.setPointerCapture(e.pointerId);
+                      onPushToTalk(true);
+                    }}
+                    onPointerUp={() => onPushToTalk(false)}
+                    onPointerCancel={() => onPushToTalk(false)}
+                  >
+                    {persona.emojis[emotion]}
+                  </motion.div>
+                </motion.div>
+              </AnimatePresence>
+              {textOnly ? (
+                <span className="text-[10px] uppercase tracking-widest font-bold mb-1 text-amber-400/70">{t('avatar.textOnly')}</span>
+              ) : inputMode !== 'hands-free' && (
+                <span className={`text-[10px] uppercase tracking-widest font-bold mb-1 ${isUserSpeaking ? 'text-violet-400' : 'text-white/30'}`}>
+                  {t(inputMode === 'mute' ? 'avatar.muted' : isUserSpeaking ? 'avatar.listening' : 'avatar.holdToTalk')}
+                </span>
+              )}
+              <button onClick={onDisconnect} aria-keyshortcuts={shortcutKeys('connect')} className="text-[10px] uppercase tracking-widest font-bold text-red-500/60 hover:text-red-500 transition-colors">{t('avatar.disconnect')}</button>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {/* Reactive Glow */}
+        {isConnected && (
+          <motion.div
+            animate={{
+              opacity: 0.1 + audioLevel * 0.3,
+              scale: 1 + audioLevel * 0.2
+            }}
+            className="absolute inset-0 bg-violet-500/20 rounded-full blur-2xl -z-10"
+          />
+        )}
+      </motion.div>
+    </div>
+  );
+}
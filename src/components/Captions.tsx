@@ -0,0 +1,58 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { TranscriptTurn } from '../services/transcriptAssembler';
+import { Message } from '../types';
+
+interface CaptionsProps {
+  messages: Message[];
+  pendingTurns: TranscriptTurn[];
+}
+
+// How long a finished reply stays up
+const LINGER_MS = 4000;
+// About two lines at caption size; older words scroll off the top
+const MAX_CAPTION_LENGTH = 160;
+
+const tail = (text: string) => {
+  if (text.length <= MAX_CAPTION_LENGTH) return text;
+  const cut = text.slice(-MAX_CAPTION_LENGTH);
+  return `…${cut.slice(cut.indexOf(' ') + 1)}`;
+};
+
+/**
+ * Large captions of what the assistant is saying, as it says it. Hidden from
+ * screen readers, which get the same words from the transcript.
+ */
+export function Captions({ messages, pendingTurns }: CaptionsProps) {
+  const speaking = pendingTurns.find(turn => turn.role === 'ai');
+  const last = messages.at(-1);
+  const [lingering, setLingering] = useState<Message | null>(null);
+
+  // Keep a reply up for a moment once it has been committed
+  useEffect(() => {
+    if (last?.role !== 'ai') return;
+    setLingering(last);
+    const timer = setTimeout(() => setLingering(null), LINGER_MS);
+    return () => clearTimeout(timer);
+  }, [last]);
+
+  const text = speaking?.text || (lingering === last ? lingering?.text : '');
+
+  return (
+    <AnimatePresence>
+      {text && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          aria-hidden="true"
+          className="fixed bottom-8 inset-x-0 z-30 flex justify-center px-8 pointer-events-none"
+        >
+          <p dir="auto" className="max-w-4xl px-6 py-3 rounded-2xl bg-black/85 text-white text-3xl leading-snug font-semibold text-center">
+            {tail(text)}
+          </p>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { MonitorUp, Paperclip, Send, Video, X } from 'lucide-react';
+import { VideoSource } from '../services/videoCapture';
+import { Attachment, readAttachment } from '../services/attachments';
+import { MessageKey, useI18n } from '../i18n/i18n';
+import { shortcutKeys } from '../a11y/shortcuts';
+
+interface ComposerProps {
+  disabled: boolean;
+  // The video source being shared, if any
+  videoSource?: VideoSource;
+  onToggleVideo: (source: VideoSource) => void;
+  onSend: (text: string, attachments: Attachment[]) => void;
+  // A file couldn't be attached
+  onError: (message: string) => void;
+  // Lets the page move focus here from a keyboard shortcut
+  inputRef?: React.RefObject<HTMLInputElement | null>;
+}
+
+const VIDEO_BUTTONS: { source: VideoSource; start: MessageKey; stop: MessageKey; icon: typeof Video }[] = [
+  { source: 'camera', start: 'composer.shareCamera', stop: 'composer.stopCamera', icon: Video },
+  { source: 'screen', start: 'composer.shareScreen', stop: 'composer.stopScreen', icon: MonitorUp },
+];
+
+/** Text input with attachments and the camera/screen toggles. */
+export function Composer({ disabled, videoSource, onToggleVideo, onSend, onError, inputRef }: ComposerProps) {
+  const [text, setText] = useState('');
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const { t } = useI18n();
+
+  const canSend = !disabled && (text.trim() !== '' || attachments.length > 0);
+
+  const handleSend = () => {
+    if (!canSend) return;
+    onSend(text.trim(), attachments);
+    setText('');
+    setAttachments([]);
+  };
+
+  const handleAttachFiles = async (files: FileList | File[]) => {
+    for (const file of Array.from(files)) {
+      try {
+        const attachment = await readAttachment(file);
+        setAttachments(prev => [...prev, attachment]);
+      } catch (err: any) {
+        onError(err.message);
+      }
+    }
+  };
+
+  return (
+    <>
+      {attachments.length > 0 && (
+        <div className="w-full flex flex-wrap gap-2 -mb-6">
+          {attachments.map((attachment, i) => (
+            <span key={i} className="flex items-center gap-2 px-3 py-1 rounded-full text-[11px] bg-white/5 border border-white/10 text-white/60">
+              <Paperclip size={12} />
+              {attachment.name}
+              <button
+                onClick={() => setAttachments(prev => prev.filter((_, j) => j !== i))}
+                aria-label={t('a11y.removeAttachment', { name: attachment.name })}
+                className="hover:text-white transition-colors"
+              >
+                <X size={12} />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <div
+        className="w-full flex gap-2"
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={(e) => {
+          e.preventDefault();
+          handleAttachFiles(e.dataTransfer.files);
+        }}
+      >
+        {VIDEO_BUTTONS.map(({ source, start, stop, icon: Icon }) => (
+          <button
+            key={source}
+            onClick={() => onToggleVideo(source)}
+            disabled={disabled}
+            title={t(videoSource === source ? stop : start)}
+            aria-label={t(videoSource === source ? stop : start)}
+            className={`p-3 rounded-xl border transition-all disabled:opacity-20 ${
+              videoSource === source ? 'bg-violet-600/20 border-violet-500/30 text-violet-300' : 'bg-[#111111] border-white/5 text-white/40 hover:text-white'
+            }`}
+          >
+            <Icon size={18} />
+          </button>
+        ))}
+        <label
+          title={t('composer.attach')}
+          className="p-3 rounded-xl border bg-[#111111] border-white/5 text-white/40 hover:text-white transition-all cursor-pointer focus-within:outline-2 focus-within:outline-violet-400"
+        >
+          <Paperclip size={18} />
+          <input
+            type="file"
+            multiple
+            accept="image/*,text/*,.md,.json,.csv,.yaml,.yml,.log"
+            aria-label={t('composer.attach')}
+            className="sr-only"
+            onChange={(e) => {
+              if (e.target.files) handleAttachFiles(e.target.files);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        <input
+          ref={inputRef}
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSend()}
+          placeholder={t('composer.placeholder')}
+          aria-label={t('composer.placeholder')}
+          aria-keyshortcuts={shortcutKeys('focusComposer')}
+          className="flex-1 bg-[#111111] border border-white/5 rounded-xl px-4 py-3 text-sm focus:outline-none focus:border-violet-500/50 transition-colors"
+        />
+        <button
+          onClick={handleSend}
+          disabled={!canSend}
+          aria-label={t('a11y.send')}
+          className="bg-violet-600/20 hover:bg-violet-600/40 border border-violet-500/30 p-3 rounded-xl transition-all disabled:opacity-20"
+        >
+          <Send size={18} />
+        </button>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { Download } from 'lucide-react';
+import { Message } from '../types';
+import { EXPORT_FORMATS, ExportFormat, TranscriptMeta, formatTranscript } from '../recording/transcriptFormats';
+import { useI18n } from '../i18n/i18n';
+
+interface ExportMenuProps {
+  messages: Message[];
+  meta: TranscriptMeta;
+  // Server or object URL of the session's WAV recording, if there is one.
+  recordingUrl?: string;
+}
+
+const itemClass = 'w-full text-start px-3 py-2 rounded-lg text-xs text-white/60 hover:text-white hover:bg-white/5 transition-colors';
+
+const download = (href: string, filename: string) => {
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = filename;
+  link.click();
+};
+
+const fileName = (meta: TranscriptMeta, extension: string) =>
+  `luca-${new Date(meta.startedAt).toISOString().slice(0, 19).replace(/[T:]/g, '-')}.${extension}`;
+
+export function ExportMenu({ messages, meta, recordingUrl }: ExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const { t } = useI18n();
+
+  const handleExport = (format: ExportFormat) => {
+    const { extension, mimeType } = EXPORT_FORMATS[format];
+    const url = URL.createObjectURL(new Blob([formatTranscript(format, messages, meta)], { type: mimeType }));
+    download(url, fileName(meta, extension));
+    URL.revokeObjectURL(url);
+    setOpen(false);
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    const handleKey = (e: KeyboardEvent) => e.key === 'Escape' && setOpen(false);
+    document.addEventListener('keydown', handleKey);
+    return () => document.removeEventListener('keydown', handleKey);
+  }, [open]);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        aria-expanded={open}
+        className="flex items-center gap-2 text-white/40 hover:text-white transition-colors"
+      >
+        <Download size={14} />
+        <span className="text-[10px] uppercase tracking-widest font-bold">{t('export.button')}</span>
+      </button>
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+            className="absolute end-0 top-6 z-30 w-48 p-1 bg-[#0f0f0f] border border-white/10 rounded-xl shadow-2xl"
+          >
+            {recordingUrl && (
+              <button
+                className={itemClass}
+                onClick={() => {
+                  download(recordingUrl, fileName(meta, 'wav'));
+                  setOpen(false);
+                }}
+              >
+                {t('export.recording')}
+              </button>
+            )}
+            {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+              <button key={format} className={itemClass} onClick={() => handleExport(format)}>
+                {t(`export.${format}`)}
+              </button>
+            ))}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import React from 'react';
+import { Info, Shield } from 'lucide-react';
+import { useI18n } from '../i18n/i18n';
+
+interface InfoCardsProps {
+  assistantName: string;
+}
+
+export function InfoCards({ assistantName }: InfoCardsProps) {
+  const { t } = useI18n();
+  return (
+    <div className="grid grid-cols-2 gap-4 w-full">
+      <div className="bg-[#111111] border border-white/5 rounded-xl p-4 flex flex-col gap-2">
+        <div className="flex items-center gap-2 text-white/20">
+          <Shield size={14} />
+          <span className="text-[10px] uppercase tracking-widest font-bold">{t('info.identity')}</span>
+        </div>
+        <p className="text-sm font-bold">{t('info.assistant', { name: assistantName })}</p>
+      </div>
+      <div className="bg-[#111111] border border-white/5 rounded-xl p-4 flex flex-col gap-2">
+        <div className="flex items-center gap-2 text-white/20">
+          <Info size={14} />
+          <span className="text-[10px] uppercase tracking-widest font-bold">{t('info.origin')}</span>
+        </div>
+        <p className="text-sm font-bold">10x Technologies</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { FileText, Loader2, Trash2, Upload, X } from 'lucide-react';
+import { KnowledgeDocument } from '../types';
+import { deleteDocument, listDocuments, uploadDocument } from '../services/knowledgeService';
+import { useDialog } from '../hooks/useDialog';
+import { useI18n } from '../i18n/i18n';
+
+interface KnowledgePanelProps {
+  open: boolean;
+  onClose: () => void;
+  // Documents are shared, so only admins upload or remove them
+  canEdit: boolean;
+}
+
+const labelClass = 'text-[10px] uppercase tracking-widest font-bold text-white/40';
+
+const ACCEPTED_TYPES = '.md,.markdown,.txt,.pdf,text/*,application/pdf';
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export function KnowledgePanel({ open, onClose, canEdit }: KnowledgePanelProps) {
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { t } = useI18n();
+  const dialogRef = useDialog<HTMLDivElement>(open, onClose);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    listDocuments()
+      .then(result => {
+        if (!cancelled) {
+          setDocuments(result);
+          setError(null);
+        }
+      })
+      .catch(err => !cancelled && setError(err.message));
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  const handleUpload = async (files: FileList | null) => {
+    if (!files?.length) return;
+    setIsUploading(true);
+    setError(null);
+    // One at a time so a bad file doesn't hide which of the others made it in
+    for (const file of Array.from(files)) {
+      try {
+        const document = await uploadDocument(file);
+        setDocuments(prev => [document, ...prev]);
+      } catch (err: any) {
+        setError(`${file.name}: ${err.message}`);
+      }
+    }
+    setIsUploading(false);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteDocument(id);
+      setDocuments(prev => prev.filter(d => d.id !== id));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-40 bg-black/60 flex items-center justify-center p-8"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.95, y: 10 }}
+            animate={{ scale: 1, y: 0 }}
+            exit={{ scale: 0.95, y: 10 }}
+            onClick={(e) => e.stopPropagation()}
+            ref={dialogRef}
+            role="dialog"
+            aria-modal="true"
+            aria-label={t('knowledge.title')}
+            tabIndex={-1}
+            className="w-full max-w-md max-h-[80vh] bg-[#0f0f0f] border border-white/5 rounded-2xl p-6 flex flex-col gap-4 outline-none"
+          >
+            <div className="flex items-center justify-between">
+              <span className={labelClass}>{t('knowledge.title')}</span>
+              <button onClick={onClose} aria-label={t('a11y.close')} className="text-white/40 hover:text-white transition-colors">
+                <X size={16} />
+              </button>
+            </div>
+
+            <p className="text-xs text-white/40">{t('knowledge.intro')}</p>
+
+            {canEdit ? (
+              <>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  multiple
+                  accept={ACCEPTED_TYPES}
+                  aria-label={t('knowledge.upload')}
+                  className="hidden"
+                  onChange={(e) => handleUpload(e.target.files)}
+                />
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isUploading}
+                  className="flex items-center justify-center gap-2 bg-violet-600/20 border border-violet-500/20 rounded-xl px-3 py-2 text-sm text-violet-300 hover:bg-violet-600/30 transition-colors disabled:opacity-40"
+                >
+                  {isUploading ? <Loader2 size={14} className="animate-spin" /> : <Upload size={14} />}
+                  {t(isUploading ? 'knowledge.indexing' : 'knowledge.upload')}
+                </button>
+              </>
+            ) : (
+              <p className="text-xs text-white/40">{t('knowledge.adminOnly')}</p>
+            )}
+
+            {error && <p className="text-xs text-red-500/80">{error}</p>}
+
+            <div className="flex-1 overflow-y-auto custom-scrollbar flex flex-col gap-2">
+              {documents.length === 0 ? (
+                <p className="text-white/10 uppercase tracking-[0.3em] text-xs font-bold italic text-center my-6">
+                  {t('knowledge.empty')}
+                </p>
+              ) : (
+                documents.map(document => (
+                  <div
+                    key={document.id}
+                    className="group flex items-center gap-3 rounded-xl px-3 py-2 bg-[#111111] border border-white/5 hover:border-white/10 transition-colors"
+                  >
+                    <FileText size={14} className="shrink-0 text-white/30" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm truncate">{document.name}</p>
+                      <p className="text-[10px] text-white/30">
+                        {formatSize(document.size)} · {t('knowledge.passages', { count: document.chunkCount })}
+                      </p>
+                    </div>
+                    {canEdit && (
+                      <button
+                        onClick={() => handleDelete(document.id)}
+                        title={t('knowledge.remove')}
+                        className="opacity-0 group-hover:opacity-100 text-white/30 hover:text-red-500 transition-all"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,25 @@
+import React from 'react';
+import { describe, expect, it } from 'vitest';
+import { render } from '@testing-library/react';
+import { Markdown } from './Markdown';
+
+const links = (text: string) => {
+  const { container } = render(<Markdown text={text} />);
+  return [...container.querySelectorAll('a')].map(a => [a.getAttribute('href'), a.textContent]);
+};
+
+describe('Markdown', () => {
+  it('links bare URLs', () => {
+    expect(links('See https://example.com/a.')).toEqual([['https://example.com/a', 'https://example.com/a']]);
+  });
+
+  it("doesn't link a URL inside a link's label again", () => {
+    const { container } = render(<Markdown text="[**https://example.com/docs**](https://example.com/docs?ref=1)" />);
+    expect(container.querySelector('a a')).toBeNull();
+    expect(links('[https://example.com](https://example.com/?ref=1)')).toEqual([['https://example.com/?ref=1', 'https://example.com']]);
+  });
+
+  it('shows unsafe links as text', () => {
+    expect(links('[click](javascript:alert(1))')).toEqual([]);
+  });
+});
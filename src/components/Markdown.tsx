@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { Check, Copy } from 'lucide-react';
+import { useI18n } from '../i18n/i18n';
+
+type Block =
+  | { type: 'paragraph'; text: string }
+  | { type: 'heading'; text: string }
+  | { type: 'quote'; text: string }
+  | { type: 'list'; ordered: boolean; start: number; items: string[] }
+  | { type: 'code'; language: string; code: string };
+
+const FENCE = /^\s*(```|~~~)\s*([\w+#-]*)/;
+const HEADING = /^#{1,6}\s+(.*)$/;
+const LIST_ITEM = /^\s*([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+
+// Inline code, [links](url), bare URLs, **bold** / __bold__ and *italic* / _italic_
+const INLINE = /`([^`\n]+)`|\[([^\]\n]+)\]\(([^)\s]+)\)|(https?:\/\/[^\s<>]*[^\s<>.,:;!?"')\]])|\*\*(.+?)\*\*|__(.+?)__|\*([^*\s](?:[^*\n]*[^*\s])?)\*|(?<![\w])_([^_\s](?:[^_\n]*[^_\s])?)_(?![\w])/g;
+
+// Anything else (javascript:, data:, relative paths) is shown as plain text
+const SAFE_URL = /^(https?:\/\/|mailto:)/i;
+
+const isBlockStart = (line: string) => FENCE.test(line) || HEADING.test(line) || LIST_ITEM.test(line) || QUOTE.test(line);
+
+function parseBlocks(text: string): Block[] {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: Block[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    const fence = line.match(FENCE);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) code.push(lines[i++]);
+      // Skips the closing fence; one that hasn't streamed in yet runs to the end
+      i++;
+      blocks.push({ type: 'code', language: fence[2], code: code.join('\n') });
+    } else if (!line.trim()) {
+      i++;
+    } else if (HEADING.test(line)) {
+      blocks.push({ type: 'heading', text: line.match(HEADING)![1] });
+      i++;
+    } else if (QUOTE.test(line)) {
+      const quote: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) quote.push(lines[i++].match(QUOTE)![1]);
+      blocks.push({ type: 'quote', text: quote.join('\n') });
+    } else if (LIST_ITEM.test(line)) {
+      const ordered = /\d/.test(line.match(LIST_ITEM)![1]);
+      const items: string[] = [];
+      while (i < lines.length) {
+        const item = lines[i].match(LIST_ITEM);
+        if (item && /\d/.test(item[1]) === ordered) {
+          items.push(item[2]);
+        } else if (!item && /^\s+\S/.test(lines[i])) {
+          // An indented line continues the item above
+          items[items.length - 1] += `\n${lines[i].trim()}`;
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push({ type: 'list', ordered, start: ordered ? parseInt(line.trim(), 10) : 1, items });
+    } else {
+      const paragraph: string[] = [];
+      while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !isBlockStart(lines[i]))) {
+        paragraph.push(lines[i++]);
+      }
+      blocks.push({ type: 'paragraph', text: paragraph.join('\n') });
+    }
+  }
+  return blocks;
+}
+
+const linkClass = 'text-violet-300 underline underline-offset-2 hover:text-violet-200 break-words';
+
+// Inside a link label, bare URLs stay text: links can't nest
+function renderInline(text: string, keyPrefix = '', inLink = false): React.ReactNode[] {
+  const nodes: React.ReactNode[] = [];
+  let last = 0;
+  for (const match of text.matchAll(INLINE)) {
+    const [whole, code, label, href, url, strong, strongAlt, em, emAlt] = match;
+    const index = match.index!;
+    const key = `${keyPrefix}${index}`;
+    if (index > last) nodes.push(text.slice(last, index));
+    last = index + whole.length;
+
+    if (code !== undefined) {
+      nodes.push(<code key={key} className="px-1 py-0.5 rounded bg-black/40 font-mono text-[0.9em]">{code}</code>);
+    } else if (label !== undefined) {
+      nodes.push(SAFE_URL.test(href) ? (
+        <a key={key} href={href} target="_blank" rel="noopener noreferrer" className={linkClass}>{renderInline(label, `${key}-`, true)}</a>
+      ) : (
+        <React.Fragment key={key}>{renderInline(label, `${key}-`, inLink)}</React.Fragment>
+      ));
+    } else if (url !== undefined) {
+      nodes.push(inLink ? url : <a key={key} href={url} target="_blank" rel="noopener noreferrer" className={linkClass}>{url}</a>);
+    } else if ((strong ?? strongAlt) !== undefined) {
+      nodes.push(<strong key={key} className="font-semibold">{renderInline(strong ?? strongAlt, `${key}-`, inLink)}</strong>);
+    } else {
+      nodes.push(<em key={key}>{renderInline(em ?? emAlt, `${key}-`, inLink)}</em>);
+    }
+  }
+  if (last < text.length) nodes.push(text.slice(last));
+  return nodes;
+}
+
+function CodeBlock({ language, code }: { language: string; code: string }) {
+  const [copied, setCopied] = useState(false);
+  const { t } = useI18n();
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(code).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    }).catch(err => console.error("Failed to copy code:", err));
+  };
+
+  return (
+    <div dir="ltr" className="rounded-lg bg-black/50 border border-white/10">
+      <div className="flex items-center justify-between px-3 pt-1.5 text-[10px] uppercase tracking-widest text-white/30">
+        <span>{language}</span>
+        <button
+          onClick={handleCopy}
+          aria-label={t(copied ? 'transcript.copied' : 'transcript.copyCode')}
+          title={t(copied ? 'transcript.copied' : 'transcript.copyCode')}
+          className="hover:text-white transition-colors"
+        >
+          {copied ? <Check size={12} /> : <Copy size={12} />}
+        </button>
+      </div>
+      <pre className="px-3 pb-3 pt-1 overflow-x-auto custom-scrollbar text-xs leading-relaxed"><code className="font-mono">{code}</code></pre>
+    </div>
+  );
+}
+
+/**
+ * Renders the Markdown subset models tend to write: paragraphs, headings,
+ * lists, quotes, code, emphasis and links. Everything goes through React
+ * elements rather than HTML, so markup in the text shows as text, and links
+ * are limited to http(s) and mailto.
+ */
+export function Markdown({ text }: { text: string }) {
+  return (
+    <div className="flex flex-col gap-2 min-w-0">
+      {parseBlocks(text).map((block, i) => {
+        switch (block.type) {
+          case 'paragraph':
+            return <p key={i} className="whitespace-pre-line break-words">{renderInline(block.text)}</p>;
+          case 'heading':
+            return <p key={i} className="font-bold">{renderInline(block.text)}</p>;
+          case 'quote':
+            return (
+              <blockquote key={i} className="border-s-2 border-white/20 ps-3 text-white/60 whitespace-pre-line">
+                {renderInline(block.text)}
+              </blockquote>
+            );
+          case 'list': {
+            const List = block.ordered ? 'ol' : 'ul';
+            return (
+              <List key={i} start={block.ordered ? block.start : undefined} className={`ps-5 flex flex-col gap-1 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+                {block.items.map((item, j) => (
+                  <li key={j} className="whitespace-pre-line">{renderInline(item)}</li>
+                ))}
+              </List>
+            );
+          }
+          case 'code':
+            return <React.Fragment key={i}><CodeBlock language={block.language} code={block.code} /></React.Fragment>;
+        }
+      })}
+    </div>
+  );
+}
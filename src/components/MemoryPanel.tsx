@@ -0,0 +1,204 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { Check, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { Memory } from '../types';
+import { deleteMemory, listMemories, saveMemory, updateMemory } from '../services/memoryService';
+import { useDialog } from '../hooks/useDialog';
+import { useI18n } from '../i18n/i18n';
+
+interface MemoryPanelProps {
+  open: boolean;
+  onClose: () => void;
+  assistantName: string;
+}
+
+const inputClass = 'w-full bg-[#111111] border border-white/5 rounded-xl px-3 py-2 text-sm focus:outline-none focus:border-violet-500/50 transition-colors';
+const labelClass = 'text-[10px] uppercase tracking-widest font-bold text-white/40';
+
+export function MemoryPanel({ open, onClose, assistantName }: MemoryPanelProps) {
+  const [memories, setMemories] = useState<Memory[]>([]);
+  const [newText, setNewText] = useState('');
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { t, locale } = useI18n();
+  const dialogRef = useDialog<HTMLDivElement>(open, onClose);
+
+  // LUCA may have learned something during the last conversation, so reload on every open
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setEditing(null);
+    listMemories()
+      .then(result => {
+        if (!cancelled) {
+          setMemories(result);
+          setError(null);
+        }
+      })
+      .catch(err => !cancelled && setError(err.message));
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newText.trim()) return;
+    try {
+      const memory = await saveMemory(newText.trim());
+      setMemories(prev => [memory, ...prev.filter(m => m.id !== memory.id)]);
+      setNewText('');
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editing) return;
+    try {
+      const memory = await updateMemory(editing.id, editing.text.trim());
+      setMemories(prev => prev.map(m => (m.id === memory.id ? memory : m)));
+      setEditing(null);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteMemory(id);
+      setMemories(prev => prev.filter(m => m.id !== id));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-40 bg-black/60 flex items-center justify-center p-8"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.95, y: 10 }}
+            animate={{ scale: 1, y: 0 }}
+            exit={{ scale: 0.95, y: 10 }}
+            onClick={(e) => e.stopPropagation()}
+            ref={dialogRef}
+            role="dialog"
+            aria-modal="true"
+            aria-label={t('memory.title')}
+            tabIndex={-1}
+            className="w-full max-w-md max-h-[80vh] bg-[#0f0f0f] border border-white/5 rounded-2xl p-6 flex flex-col gap-4 outline-none"
+          >
+            <div className="flex items-center justify-between">
+              <span className={labelClass}>{t('memory.title')}</span>
+              <button onClick={onClose} aria-label={t('a11y.close')} className="text-white/40 hover:text-white transition-colors">
+                <X size={16} />
+              </button>
+            </div>
+
+            <p className="text-xs text-white/40">{t('memory.intro', { name: assistantName })}</p>
+
+            <form onSubmit={handleAdd} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={newText}
+                onChange={(e) => setNewText(e.target.value)}
+                placeholder={t('memory.placeholder')}
+                maxLength={500}
+                className={inputClass}
+              />
+              <button
+                type="submit"
+                disabled={!newText.trim()}
+                title={t('memory.add')}
+                className="shrink-0 p-2 rounded-xl bg-violet-600/20 border border-violet-500/20 text-violet-300 hover:bg-violet-600/30 transition-colors disabled:opacity-40"
+              >
+                <Plus size={16} />
+              </button>
+            </form>
+
+            {error && <p className="text-xs text-red-500/80">{error}</p>}
+
+            <div className="flex-1 overflow-y-auto custom-scrollbar flex flex-col gap-2">
+              {memories.length === 0 ? (
+                <p className="text-white/10 uppercase tracking-[0.3em] text-xs font-bold italic text-center my-6">
+                  {t('memory.empty')}
+                </p>
+              ) : (
+                memories.map(memory => editing?.id === memory.id ? (
+                  <div key={memory.id} className="flex items-start gap-2">
+                    <textarea
+                      autoFocus
+                      value={editing.text}
+                      onChange={(e) => setEditing({ id: memory.id, text: e.target.value })}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' && !e.shiftKey) {
+                          e.preventDefault();
+                          handleSaveEdit();
+                        } else if (e.key === 'Escape') {
+                          // Cancels the edit without closing the panel
+                          e.stopPropagation();
+                          setEditing(null);
+                        }
+                      }}
+                      rows={2}
+                      maxLength={500}
+                      className={`${inputClass} resize-none`}
+                    />
+                    <button
+                      onClick={handleSaveEdit}
+                      disabled={!editing.text.trim()}
+                      title={t('memory.save')}
+                      className="mt-2 text-white/40 hover:text-violet-300 transition-colors disabled:opacity-40"
+                    >
+                      <Check size={14} />
+                    </button>
+                    <button
+                      onClick={() => setEditing(null)}
+                      title={t('memory.cancel')}
+                      className="mt-2 text-white/40 hover:text-white transition-colors"
+                    >
+                      <X size={14} />
+                    </button>
+                  </div>
+                ) : (
+                  <div
+                    key={memory.id}
+                    className="group flex items-start gap-2 rounded-xl px-3 py-2 bg-[#111111] border border-white/5 hover:border-white/10 transition-colors"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm break-words">{memory.text}</p>
+                      <p className="text-[10px] text-white/30">{new Date(memory.updatedAt).toLocaleDateString(locale)}</p>
+                    </div>
+                    <button
+                      onClick={() => setEditing({ id: memory.id, text: memory.text })}
+                      title={t('memory.edit')}
+                      className="opacity-0 group-hover:opacity-100 text-white/30 hover:text-white transition-all"
+                    >
+                      <Pencil size={14} />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(memory.id)}
+                      title={t('memory.forget')}
+                      className="opacity-0 group-hover:opacity-100 text-white/30 hover:text-red-500 transition-all"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                ))
+              )}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { BookOpen, Check, Copy, Keyboard, Languages, Mic, Paperclip, Pencil, Pin, PinOff, Play, RotateCcw, Square } from 'lucide-react';
+import { Markdown } from './Markdown';
+import { sourceLabel } from '../tools/knowledgeTool';
+import { useI18n } from '../i18n/i18n';
+import { languageName } from '../i18n/languages';
+import { Message } from '../types';
+
+interface MessageBubbleProps {
+  message: Message;
+  assistantName: string;
+  // Actions are left out where they don't apply, e.g. replay without a recording
+  replaying?: boolean;
+  onReplay?: () => void;
+  onAskAgain?: () => void;
+  // Sends an edited copy of a typed message
+  onResend?: (text: string) => void;
+  onPin?: (pinned: boolean) => void;
+}
+
+const actionClass = 'p-1 rounded-md hover:text-white hover:bg-white/5 transition-colors';
+
+/** A user or AI message in the transcript, with its actions underneath. */
+export function MessageBubble({ message, assistantName, replaying, onReplay, onAskAgain, onResend, onPin }: MessageBubbleProps) {
+  const { t, locale } = useI18n();
+  const [copied, setCopied] = useState(false);
+  const [draft, setDraft] = useState<string | null>(null);
+  const isUser = message.role === 'user';
+  const isStreaming = message.status === 'streaming';
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(message.text).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    }).catch(err => console.error("Failed to copy message:", err));
+  };
+
+  const handleResend = () => {
+    const text = draft?.trim();
+    if (!text || !onResend) return;
+    onResend(text);
+    setDraft(null);
+  };
+
+  return (
+    <div data-message-id={message.id} className={`group flex flex-col gap-1 ${isUser ? 'items-end' : 'items-start'}`}>
+      <div dir="auto" className={`max-w-[80%] min-w-0 px-4 py-2 rounded-xl text-sm ${isStreaming ? 'italic' : ''} ${
+        isUser
+          ? isStreaming ? 'bg-violet-600/10 border border-violet-500/10 text-white/60' : 'bg-violet-600/20 border border-violet-500/20 text-white/80'
+          : 'bg-white/5 border border-white/10 text-white/90'
+      } ${message.pinned ? 'ring-1 ring-violet-400/50' : ''}`}>
+        <span className="sr-only">{isUser ? t('a11y.you') : assistantName}: </span>
+        {draft !== null ? (
+          <textarea
+            value={draft}
+            autoFocus
+            rows={Math.min(6, draft.split('\n').length + 1)}
+            aria-label={t('transcript.edit')}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                handleResend();
+              } else if (e.key === 'Escape') {
+                setDraft(null);
+              }
+            }}
+            className="w-64 max-w-full bg-black/30 border border-white/10 rounded-lg px-2 py-1 text-sm not-italic resize-none focus:outline-none focus:border-violet-500/50"
+          />
+        ) : (
+          <Markdown text={message.text} />
+        )}
+        {message.attachments?.map((name, i) => (
+          <span key={`${i}-${name}`} className="flex items-center gap-1 mt-1 text-[11px] text-white/40">
+            <Paperclip size={11} />
+            {name}
+          </span>
+        ))}
+        {message.status === 'interrupted' && (
+          <span className="text-[10px] uppercase tracking-widest text-white/30">{t('transcript.cutOff')}</span>
+        )}
+        {message.language && (
+          <span
+            title={t('transcript.spokenIn', { language: languageName(message.language, locale) })}
+            className="flex items-center gap-1 mt-1 text-[10px] uppercase tracking-widest text-white/30"
+          >
+            <Languages size={10} />
+            {languageName(message.language, locale)}
+          </span>
+        )}
+        {message.citations && (
+          <div className="flex flex-wrap gap-1 mt-2">
+            {message.citations.map(citation => (
+              <span
+                key={`${citation.documentId}:${citation.heading ?? ''}`}
+                title={sourceLabel(citation)}
+                className="flex items-center gap-1 max-w-full px-2 py-0.5 rounded-full text-[10px] bg-violet-500/10 border border-violet-500/20 text-violet-200/70"
+              >
+                <BookOpen size={10} className="shrink-0" />
+                <span className="truncate">{sourceLabel(citation)}</span>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {!isStreaming && (
+        <div className="flex items-center gap-1 text-white/30">
+          <span
+            title={t(message.source === 'voice' ? 'transcript.voice' : 'transcript.typed')}
+            className="flex items-center gap-1 px-1 text-[10px]"
+          >
+            {message.source === 'voice' ? <Mic size={10} aria-hidden="true" /> : <Keyboard size={10} aria-hidden="true" />}
+            <time dateTime={new Date(message.createdAt).toISOString()}>
+              {new Date(message.createdAt).toLocaleTimeString(locale, { hour: 'numeric', minute: '2-digit' })}
+            </time>
+          </span>
+          {message.pinned && (
+            <span title={t('transcript.pinned')} className="px-1 text-violet-300/70">
+              <Pin size={10} aria-hidden="true" />
+              <span className="sr-only">{t('transcript.pinned')}</span>
+            </span>
+          )}
+
+          <div
+            role="group"
+            aria-label={t('transcript.actions')}
+            className="flex items-center opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity"
+          >
+            {draft !== null ? (
+              <>
+                <button onClick={handleResend} aria-label={t('a11y.send')} title={t('a11y.send')} className={actionClass}>
+                  <Check size={12} />
+                </button>
+                <button onClick={() => setDraft(null)} className={`${actionClass} text-[10px] uppercase tracking-widest font-bold`}>
+                  {t('transcript.cancelEdit')}
+                </button>
+              </>
+            ) : (
+              <>
+                <button onClick={handleCopy} aria-label={t(copied ? 'transcript.copied' : 'transcript.copy')} title={t(copied ? 'transcript.copied' : 'transcript.copy')} className={actionClass}>
+                  {copied ? <Check size={12} /> : <Copy size={12} />}
+                </button>
+                {onReplay && (
+                  <button
+                    onClick={onReplay}
+                    aria-label={t(replaying ? 'transcript.stopReplay' : 'transcript.replay')}
+                    title={t(replaying ? 'transcript.stopReplay' : 'transcript.replay')}
+                    className={`${actionClass} ${replaying ? 'text-violet-300' : ''}`}
+                  >
+                    {replaying ? <Square size={12} /> : <Play size={12} />}
+                  </button>
+                )}
+                {onAskAgain && (
+                  <button onClick={onAskAgain} aria-label={t('transcript.askAgain')} title={t('transcript.askAgain')} className={actionClass}>
+                    <RotateCcw size={12} />
+                  </button>
+                )}
+                {onResend && (
+                  <button onClick={() => setDraft(message.text)} aria-label={t('transcript.edit')} title={t('transcript.edit')} className={actionClass}>
+                    <Pencil size={12} />
+                  </button>
+                )}
+                {onPin && (
+                  <button
+                    onClick={() => onPin(!message.pinned)}
+                    aria-label={t(message.pinned ? 'transcript.unpin' : 'transcript.pin')}
+                    title={t(message.pinned ? 'transcript.unpin' : 'transcript.pin')}
+                    className={actionClass}
+                  >
+                    {message.pinned ? <PinOff size={12} /> : <Pin size={12} />}
+                  </button>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,288 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { Check, Copy, FileJson, RotateCcw, Trash2, X } from 'lucide-react';
+import { Persona } from '../types';
+import { EMOTIONS, VOICES, parsePersona } from '../personas/personas';
+import { useDialog } from '../hooks/useDialog';
+import { useI18n } from '../i18n/i18n';
+
+interface PersonaSettingsProps {
+  open: boolean;
+  onClose: () => void;
+  personas: Persona[];
+  activePersonaId: string;
+  onSelect: (id: string) => void;
+  onSave: (persona: Persona) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+}
+
+const inputClass = 'w-full bg-[#111111] border border-white/5 rounded-xl px-3 py-2 text-sm focus:outline-none focus:border-violet-500/50 transition-colors';
+const labelClass = 'text-[10px] uppercase tracking-widest font-bold text-white/40';
+
+const formatVariables = (variables: Record<string, string> = {}) =>
+  Object.entries(variables).map(([key, value]) => `${key}=${value}`).join('\n');
+
+const parseVariables = (text: string) =>
+  Object.fromEntries(
+    text
+      .split('\n')
+      .map(line => line.trim())
+      .filter(Boolean)
+      .map(line => {
+        const separator = line.indexOf('=');
+        return separator === -1 ? [line, ''] : [line.slice(0, separator).trim(), line.slice(separator + 1).trim()];
+      })
+  );
+
+export function PersonaSettings({ open, onClose, personas, activePersonaId, onSelect, onSave, onDelete }: PersonaSettingsProps) {
+  const [editingId, setEditingId] = useState(activePersonaId);
+  const [draft, setDraft] = useState<Persona | null>(null);
+  const [variablesText, setVariablesText] = useState('');
+  const [jsonText, setJsonText] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { t } = useI18n();
+  const dialogRef = useDialog<HTMLDivElement>(open, onClose);
+
+  const editing = personas.find(p => p.id === editingId);
+
+  useEffect(() => {
+    if (open) setEditingId(activePersonaId);
+  }, [open, activePersonaId]);
+
+  useEffect(() => {
+    if (!editing) return;
+    setDraft(editing);
+    setVariablesText(formatVariables(editing.variables));
+    setJsonText(null);
+    setError(null);
+  }, [editing]);
+
+  const update = (patch: Partial<Persona>) => setDraft(prev => prev && { ...prev, ...patch });
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    try {
+      const persona = parsePersona(
+        jsonText !== null ? JSON.parse(jsonText) : { ...draft, variables: parseVariables(variablesText) }
+      );
+      await onSave(persona);
+      setEditingId(persona.id);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDuplicate = () => {
+    if (!draft) return;
+    let id = `${draft.id}-copy`;
+    for (let i = 2; personas.some(p => p.id === id); i++) id = `${draft.id}-copy-${i}`;
+    setEditingId('');
+    setDraft({ ...draft, id, name: t('persona.copyName', { name: draft.name }), builtin: false });
+    setJsonText(null);
+  };
+
+  const handleDelete = async () => {
+    if (!draft) return;
+    try {
+      await onDelete(draft.id);
+      if (!draft.builtin) setEditingId(activePersonaId === draft.id ? personas[0].id : activePersonaId);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const isSaved = personas.some(p => p.id === draft?.id);
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-40 bg-black/60 flex items-center justify-center p-8"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.95, y: 10 }}
+            animate={{ scale: 1, y: 0 }}
+            exit={{ scale: 0.95, y: 10 }}
+            onClick={(e) => e.stopPropagation()}
+            ref={dialogRef}
+            role="dialog"
+            aria-modal="true"
+            aria-label={t(isSaved ? 'persona.edit' : 'persona.new')}
+            tabIndex={-1}
+            className="w-full max-w-4xl max-h-full bg-[#0f0f0f] border border-white/5 rounded-2xl flex overflow-hidden outline-none"
+          >
+            {/* Persona list */}
+            <div className="w-56 border-e border-white/5 p-4 flex flex-col gap-2 overflow-y-auto custom-scrollbar">
+              <span className={labelClass}>{t('persona.list')}</span>
+              {personas.map(persona => (
+                <button
+                  key={persona.id}
+                  onClick={() => setEditingId(persona.id)}
+                  className={`text-start rounded-xl px-3 py-2 border transition-colors ${
+                    persona.id === editingId ? 'bg-violet-600/20 border-violet-500/20' : 'bg-[#111111] border-white/5 hover:border-white/10'
+                  }`}
+                >
+                  <div className="flex items-center gap-2 text-sm">
+                    <span>{persona.emojis.neutral}</span>
+                    <span className="truncate flex-1">{persona.name}</span>
+                    {persona.id === activePersonaId && <Check size={14} className="text-violet-400" />}
+                  </div>
+                  {persona.description && <p className="text-[10px] text-white/30 truncate">{persona.description}</p>}
+                </button>
+              ))}
+            </div>
+
+            {/* Editor */}
+            <div className="flex-1 p-6 flex flex-col gap-4 overflow-y-auto custom-scrollbar">
+              <div className="flex items-center justify-between">
+                <span className={labelClass}>{t(isSaved ? 'persona.edit' : 'persona.new')}</span>
+                <button onClick={onClose} aria-label={t('a11y.close')} className="text-white/40 hover:text-white transition-colors">
+                  <X size={16} />
+                </button>
+              </div>
+
+              {draft && (jsonText !== null ? (
+                <textarea
+                  value={jsonText}
+                  onChange={(e) => setJsonText(e.target.value)}
+                  spellCheck={false}
+                  className={`${inputClass} font-mono text-xs h-96`}
+                />
+              ) : (
+                <>
+                  <div className="grid grid-cols-2 gap-4">
+                    <label className="flex flex-col gap-1">
+                      <span className={labelClass}>{t('persona.name')}</span>
+                      <input className={inputClass} value={draft.name} onChange={(e) => update({ name: e.target.value })} />
+                    </label>
+                    <label className="flex flex-col gap-1">
+                      <span className={labelClass}>{t('persona.id')}</span>
+                      <input
+                        className={`${inputClass} disabled:opacity-40`}
+                        value={draft.id}
+                        disabled={isSaved}
+                        onChange={(e) => update({ id: e.target.value })}
+                      />
+                    </label>
+                  </div>
+                  <label className="flex flex-col gap-1">
+                    <span className={labelClass}>{t('persona.description')}</span>
+                    <input className={inputClass} value={draft.description ?? ''} onChange={(e) => update({ description: e.target.value })} />
+                  </label>
+                  <label className="flex flex-col gap-1">
+                    <span className={labelClass}>{t('persona.systemInstruction')}</span>
+                    <textarea
+                      className={`${inputClass} h-48 font-mono text-xs`}
+                      value={draft.systemInstruction}
+                      onChange={(e) => update({ systemInstruction: e.target.value })}
+                    />
+                    <span className="text-[10px] text-white/30">
+                      {t('persona.placeholders', {
+                        example: '{{variable}}',
+                        builtins: '{{name}}, {{interruptionRule}}, {{toolsRule}}',
+                      })}
+                    </span>
+                  </label>
+                  <label className="flex flex-col gap-1">
+                    <span className={labelClass}>{t('persona.variables')}</span>
+                    <textarea
+                      className={`${inputClass} h-20 font-mono text-xs`}
+                      value={variablesText}
+                      onChange={(e) => setVariablesText(e.target.value)}
+                    />
+                  </label>
+                  <div className="grid grid-cols-3 gap-4">
+                    <label className="flex flex-col gap-1">
+                      <span className={labelClass}>{t('persona.voice')}</span>
+                      <select className={inputClass} value={draft.voice} onChange={(e) => update({ voice: e.target.value })}>
+                        {VOICES.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+                      </select>
+                    </label>
+                    <label className="flex flex-col gap-1">
+                      <span className={labelClass}>{t('persona.language')}</span>
+                      <input
+                        className={inputClass}
+                        placeholder={t('persona.languageAuto')}
+                        value={draft.languageCode ?? ''}
+                        onChange={(e) => update({ languageCode: e.target.value })}
+                      />
+                    </label>
+                    <label className="flex flex-col gap-1">
+                      <span className={labelClass}>{t('persona.model')}</span>
+                      <input className={inputClass} value={draft.model} onChange={(e) => update({ model: e.target.value })} />
+                    </label>
+                  </div>
+                  <div className="flex flex-col gap-1">
+                    <span className={labelClass}>{t('persona.emojis')}</span>
+                    <div className="grid grid-cols-4 gap-2">
+                      {EMOTIONS.map(emotion => (
+                        <label key={emotion} className="flex items-center gap-2 bg-[#111111] border border-white/5 rounded-xl px-3 py-1">
+                          <span className="text-[10px] text-white/30 w-16">{emotion}</span>
+                          <input
+                            className="w-full bg-transparent text-lg focus:outline-none"
+                            value={draft.emojis[emotion]}
+                            onChange={(e) => update({ emojis: { ...draft.emojis, [emotion]: e.target.value } })}
+                          />
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                </>
+              ))}
+
+              {error && <p className="text-xs text-red-500/80">{error}</p>}
+
+              <div className="flex items-center gap-2 mt-auto pt-2">
+                <button
+                  onClick={() => draft && onSelect(draft.id)}
+                  disabled={!isSaved || draft?.id === activePersonaId}
+                  className="bg-violet-600/20 hover:bg-violet-600/40 border border-violet-500/30 px-4 py-2 rounded-xl text-sm transition-all disabled:opacity-20"
+                >
+                  {t('persona.use')}
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={isSaving}
+                  className="bg-white/5 hover:bg-white/10 border border-white/10 px-4 py-2 rounded-xl text-sm transition-all disabled:opacity-20"
+                >
+                  {t('persona.save')}
+                </button>
+                <div className="flex-1" />
+                <button
+                  title={t(jsonText !== null ? 'persona.backToForm' : 'persona.editJson')}
+                  onClick={() => setJsonText(prev => prev !== null ? null : JSON.stringify(
+                    { ...draft, builtin: undefined, variables: parseVariables(variablesText) }, null, 2
+                  ))}
+                  className="p-2 text-white/40 hover:text-white transition-colors"
+                >
+                  <FileJson size={16} />
+                </button>
+                <button title={t('persona.duplicate')} onClick={handleDuplicate} className="p-2 text-white/40 hover:text-white transition-colors">
+                  <Copy size={16} />
+                </button>
+                {isSaved && (
+                  <button
+                    title={t(draft?.builtin ? 'persona.reset' : 'persona.delete')}
+                    onClick={handleDelete}
+                    className="p-2 text-white/40 hover:text-red-500 transition-colors"
+                  >
+                    {draft?.builtin ? <RotateCcw size={16} /> : <Trash2 size={16} />}
+                  </button>
+                )}
+              </div>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { Search, Trash2, X } from 'lucide-react';
+import { SessionDetail, SessionSummary } from '../types';
+import { deleteSession, getSession, listSessions } from '../services/historyService';
+import { useDialog } from '../hooks/useDialog';
+import { useI18n } from '../i18n/i18n';
+
+interface SessionsSidebarProps {
+  open: boolean;
+  onClose: () => void;
+  activeSessionId: string | null;
+  onOpenSession: (session: SessionDetail) => void;
+  // Bumped by the parent whenever the current session changes so the list refreshes.
+  refreshKey: number;
+}
+
+export function SessionsSidebar({ open, onClose, activeSessionId, onOpenSession, refreshKey }: SessionsSidebarProps) {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [query, setQuery] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const { t, locale, dir } = useI18n();
+  const dialogRef = useDialog<HTMLElement>(open, onClose);
+  // Slides in from the side the page starts on
+  const hiddenOffset = dir === 'rtl' ? 320 : -320;
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    // Debounce search typing
+    const timer = setTimeout(() => {
+      listSessions(query.trim())
+        .then(result => {
+          if (!cancelled) {
+            setSessions(result);
+            setError(null);
+          }
+        })
+        .catch(err => !cancelled && setError(err.message));
+    }, 200);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [open, query, refreshKey]);
+
+  const handleOpen = async (id: string) => {
+    try {
+      onOpenSession(await getSession(id));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteSession(id);
+      setSessions(prev => prev.filter(s => s.id !== id));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          initial={{ x: hiddenOffset, opacity: 0 }}
+          animate={{ x: 0, opacity: 1 }}
+          exit={{ x: hiddenOffset, opacity: 0 }}
+          transition={{ type: 'spring', stiffness: 300, damping: 30 }}
+          ref={dialogRef}
+          role="dialog"
+          aria-label={t('history.title')}
+          tabIndex={-1}
+          className="fixed start-0 top-0 bottom-0 w-80 bg-[#0f0f0f] border-e border-white/5 z-30 flex flex-col p-4 gap-4 outline-none"
+        >
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] uppercase tracking-widest font-bold text-white/40">{t('history.title')}</span>
+            <button onClick={onClose} aria-label={t('a11y.close')} className="text-white/40 hover:text-white transition-colors">
+              <X size={16} />
+            </button>
+          </div>
+
+          <div className="flex items-center gap-2 bg-[#111111] border border-white/5 rounded-xl px-3 py-2">
+            <Search size={14} className="text-white/20" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={t('history.search')}
+              aria-label={t('history.search')}
+              className="flex-1 bg-transparent text-sm focus:outline-none"
+            />
+          </div>
+
+          {error && <p className="text-xs text-red-500/80">{error}</p>}
+
+          <div className="flex-1 overflow-y-auto custom-scrollbar flex flex-col gap-2">
+            {sessions.length === 0 ? (
+              <p className="text-white/10 uppercase tracking-[0.3em] text-xs font-bold italic text-center mt-8">
+                {t(query ? 'history.noMatches' : 'history.empty')}
+              </p>
+            ) : (
+              sessions.map(session => (
+                <div
+                  key={session.id}
+                  className={`group flex items-start gap-2 rounded-xl px-3 py-2 border transition-colors ${
+                    session.id === activeSessionId
+                      ? 'bg-violet-600/20 border-violet-500/20'
+                      : 'bg-[#111111] border-white/5 hover:border-white/10'
+                  }`}
+                >
+                  <button
+                    onClick={() => handleOpen(session.id)}
+                    aria-current={session.id === activeSessionId ? 'true' : undefined}
+                    className="flex-1 min-w-0 text-start"
+                  >
+                    <p className="text-sm truncate">{session.title || t('history.untitled')}</p>
+                    <p className="text-[10px] text-white/30">
+                      {new Date(session.updatedAt).toLocaleString(locale)} · {t('history.messages', { count: session.messageCount })}
+                    </p>
+                  </button>
+                  <button
+                    onClick={() => handleDelete(session.id)}
+                    aria-label={t('history.delete')}
+                    title={t('history.delete')}
+                    className="opacity-0 group-hover:opacity-100 focus-visible:opacity-100 text-white/30 hover:text-red-500 transition-all"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,65 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { AlertTriangle, CheckCircle2, Loader2, X } from 'lucide-react';
+import { useI18n } from '../i18n/i18n';
+
+export interface Banner {
+  tone: 'success' | 'progress' | 'warning' | 'error';
+  text: string;
+  action?: { label: string; onClick: () => void };
+  dismissible?: boolean;
+}
+
+interface StatusBannerProps {
+  banner: Banner | null;
+  onDismiss: () => void;
+}
+
+const TONE_CLASSES: Record<Banner['tone'], string> = {
+  success: 'bg-emerald-500/10 border-emerald-500/20 text-emerald-300',
+  progress: 'bg-violet-500/10 border-violet-500/20 text-violet-200',
+  warning: 'bg-amber-500/10 border-amber-500/20 text-amber-200',
+  error: 'bg-red-500/10 border-red-500/20 text-red-300',
+};
+
+export function StatusBanner({ banner, onDismiss }: StatusBannerProps) {
+  const { t } = useI18n();
+
+  return (
+    <AnimatePresence>
+      {banner && (
+        <motion.div
+          key={banner.text}
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -10 }}
+          // Problems interrupt a screen reader; progress waits its turn
+          role={banner.tone === 'error' || banner.tone === 'warning' ? 'alert' : 'status'}
+          className={`w-full flex items-center gap-3 px-4 py-2 rounded-xl border text-sm ${TONE_CLASSES[banner.tone]}`}
+        >
+          {banner.tone === 'progress' ? (
+            <Loader2 size={16} className="animate-spin shrink-0" />
+          ) : banner.tone === 'success' ? (
+            <CheckCircle2 size={16} className="shrink-0" />
+          ) : (
+            <AlertTriangle size={16} className="shrink-0" />
+          )}
+          <span className="flex-1">{banner.text}</span>
+          {banner.action && (
+            <button
+              onClick={banner.action.onClick}
+              className="text-[10px] uppercase tracking-widest font-bold hover:text-white transition-colors"
+            >
+              {banner.action.label}
+            </button>
+          )}
+          {banner.dismissible && (
+            <button onClick={onDismiss} aria-label={t('a11y.dismiss')} className="opacity-60 hover:opacity-100 transition-opacity">
+              <X size={14} />
+            </button>
+          )}
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
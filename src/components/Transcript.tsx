@@ -0,0 +1,130 @@
+import React, { useEffect, useRef } from 'react';
+import { Pin, Wrench } from 'lucide-react';
+import { TranscriptTurn } from '../services/transcriptAssembler';
+import { ExportMenu } from './ExportMenu';
+import { MessageBubble } from './MessageBubble';
+import { useAccessibility } from '../a11y/accessibility';
+import { useTurnPlayback } from '../hooks/useTurnPlayback';
+import { useI18n } from '../i18n/i18n';
+import { Message } from '../types';
+
+interface TranscriptProps {
+  messages: Message[];
+  // Turns still being spoken, shown in italics until committed
+  pendingTurns: TranscriptTurn[];
+  assistantName: string;
+  startedAt: number;
+  recordingUrl?: string | null;
+  // Read new messages out to screen readers; off while browsing a past session
+  live?: boolean;
+  // Message actions; each is left out where it can't be used, e.g. sending while disconnected
+  onAskAgain?: (messageId: string) => void;
+  onResend?: (text: string) => void;
+  onPin?: (messageId: string, pinned: boolean) => void;
+}
+
+export function Transcript({ messages, pendingTurns, assistantName, startedAt, recordingUrl, live = false, onAskAgain, onResend, onPin }: TranscriptProps) {
+  const endRef = useRef<HTMLDivElement>(null);
+  const logRef = useRef<HTMLDivElement>(null);
+  const { t } = useI18n();
+  const { reduceMotion } = useAccessibility().settings;
+  const playback = useTurnPlayback(recordingUrl, startedAt);
+  const pinned = messages.filter(m => m.pinned);
+
+  const showMessage = (id: string) => {
+    const bubble = logRef.current?.querySelector<HTMLElement>(`[data-message-id="${CSS.escape(id)}"]`);
+    bubble?.scrollIntoView({ behavior: reduceMotion ? 'auto' : 'smooth', block: 'center' });
+    bubble?.querySelector<HTMLElement>('button')?.focus({ preventScroll: true });
+  };
+
+  // Auto-scroll transcript as messages arrive, but not when one is pinned
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: reduceMotion ? 'auto' : 'smooth' });
+  }, [messages.length, pendingTurns, reduceMotion]);
+
+  return (
+    <>
+      {messages.length > 0 && (
+        <div className="w-full flex items-start justify-between gap-4 -mb-6">
+          <div role="group" aria-label={t('transcript.pinned')} className="flex flex-wrap items-center gap-2 min-w-0">
+            {pinned.length > 0 && <Pin size={12} className="text-violet-300/70" />}
+            {pinned.map(message => (
+              <button
+                key={message.id}
+                onClick={() => showMessage(message.id)}
+                className="max-w-56 truncate px-3 py-1 rounded-full text-[11px] bg-violet-500/10 border border-violet-500/20 text-violet-200/70 hover:text-white transition-colors"
+              >
+                {message.text}
+              </button>
+            ))}
+          </div>
+          <ExportMenu
+            messages={messages}
+            meta={{ title: messages.find(m => m.role === 'user')?.text.slice(0, 60) || t('transcript.untitled'), assistantName, startedAt }}
+            recordingUrl={recordingUrl ?? undefined}
+          />
+        </div>
+      )}
+      <div
+        ref={logRef}
+        role="log"
+        aria-label={t('a11y.transcript')}
+        aria-live={live ? 'polite' : 'off'}
+        className="w-full bg-[#111111] border border-white/5 rounded-2xl p-8 h-64 overflow-y-auto custom-scrollbar flex flex-col gap-4 relative"
+      >
+        {messages.length === 0 && pendingTurns.length === 0 ? (
+          <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+            <p className="text-white/10 uppercase tracking-[0.3em] text-sm font-bold italic">{t('transcript.empty')}</p>
+          </div>
+        ) : (
+          <>
+            {messages.map((msg) => msg.role === 'tool' ? (
+              <div key={msg.id} className="flex justify-center">
+                <div
+                  title={msg.tool ? JSON.stringify(msg.tool, null, 2) : undefined}
+                  className={`max-w-[90%] flex items-center gap-2 px-3 py-1 rounded-full text-[11px] font-mono border ${
+                    msg.tool?.error ? 'border-red-500/20 text-red-400/70' : 'border-white/5 text-white/40'
+                  }`}
+                >
+                  <Wrench size={12} className="shrink-0" />
+                  <span className="truncate">{msg.text}</span>
+                </div>
+              </div>
+            ) : (
+              <React.Fragment key={msg.id}>
+                <MessageBubble
+                  message={msg}
+                  assistantName={assistantName}
+                  replaying={playback.playingId === msg.id}
+                  onReplay={recordingUrl && msg.endedAt !== undefined
+                    ? () => playback.playingId === msg.id ? playback.stop() : playback.play(msg)
+                    : undefined}
+                  onAskAgain={onAskAgain && msg.role === 'ai' ? () => onAskAgain(msg.id) : undefined}
+                  onResend={onResend && msg.role === 'user' && msg.source === 'typed' ? onResend : undefined}
+                  onPin={onPin && ((pinned: boolean) => onPin(msg.id, pinned))}
+                />
+              </React.Fragment>
+            ))}
+            {/* Announced once committed rather than word by word */}
+            {pendingTurns.map(turn => (
+              <div key={turn.id} aria-hidden="true">
+                <MessageBubble
+                  message={{
+                    id: turn.id,
+                    role: turn.role,
+                    text: turn.text,
+                    createdAt: turn.startedAt,
+                    source: turn.source ?? 'voice',
+                    status: 'streaming',
+                  }}
+                  assistantName={assistantName}
+                />
+              </div>
+            ))}
+            <div ref={endRef} />
+          </>
+        )}
+      </div>
+    </>
+  );
+}
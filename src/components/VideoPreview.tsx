@@ -0,0 +1,49 @@
+import React, { useEffect, useRef } from 'react';
+import { motion } from 'motion/react';
+import { X } from 'lucide-react';
+import { VideoSource } from '../services/videoCapture';
+import { useI18n } from '../i18n/i18n';
+
+interface VideoPreviewProps {
+  stream: MediaStream;
+  source: VideoSource;
+  onStop: () => void;
+}
+
+// Thumbnail of what LUCA can currently see
+export function VideoPreview({ stream, source, onStop }: VideoPreviewProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const { t } = useI18n();
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = stream;
+  }, [stream]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="fixed bottom-8 end-8 z-30 w-56 rounded-xl overflow-hidden border border-violet-500/30 bg-black shadow-2xl"
+    >
+      <video
+        ref={videoRef}
+        autoPlay
+        muted
+        playsInline
+        className={`w-full aspect-video object-contain ${source === 'camera' ? '-scale-x-100' : ''}`}
+      />
+      <div className="absolute top-2 start-2 flex items-center gap-1 px-2 py-0.5 rounded-full bg-black/60 text-[10px] uppercase tracking-widest font-bold text-violet-300">
+        <span className="w-1.5 h-1.5 rounded-full bg-red-500 animate-pulse" />
+        {t(source === 'camera' ? 'video.camera' : 'video.screen')}
+      </div>
+      <button
+        onClick={onStop}
+        title={t('video.stop')}
+        aria-label={t('video.stop')}
+        className="absolute top-2 end-2 p-1 rounded-full bg-black/60 text-white/60 hover:text-white transition-colors"
+      >
+        <X size={12} />
+      </button>
+    </motion.div>
+  );
+}
@@ -0,0 +1,32 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { useAudioLevels } from '../hooks/useAudioLevels';
+
+interface VisualizerProps {
+  // Whatever is audible right now: the model's playback or the microphone
+  analyser: AnalyserNode | null;
+  active: boolean;
+  // The model is speaking; bars take the accent color
+  speaking: boolean;
+}
+
+export function Visualizer({ analyser, active, speaking }: VisualizerProps) {
+  const { bars } = useAudioLevels(analyser);
+
+  return (
+    <div aria-hidden="true" className="flex items-center gap-1.5 h-12 mb-4">
+      {bars.map((bar, i) => (
+        <motion.div
+          key={i}
+          animate={{
+            height: active ? `${Math.max(8, bar * 100)}%` : '4px',
+            opacity: active ? (bar > 0.1 ? 0.8 : 0.3) : 0.1,
+            backgroundColor: speaking ? '#8b5cf6' : '#ffffff'
+          }}
+          transition={{ type: 'spring', stiffness: 300, damping: 20 }}
+          className="w-2 rounded-full shadow-[0_0_10px_rgba(139,92,246,0.3)]"
+        />
+      ))}
+    </div>
+  );
+}
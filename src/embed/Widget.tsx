@@ -0,0 +1,188 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { X } from 'lucide-react';
+import { DEFAULT_AUDIO_SETTINGS, InputMode, LIVE_RELAY_PATH } from '../services/liveAudioService';
+import { fetchEmbedPersona, fetchEmbedToken, searchEmbedKnowledge } from '../services/embedService';
+import { listPersonas } from '../services/personaService';
+import { useLucaSession } from '../session/useLucaSession';
+import { StatusBanner } from '../components/StatusBanner';
+import { Visualizer } from '../components/Visualizer';
+import { Avatar } from '../components/Avatar';
+import { Transcript } from '../components/Transcript';
+import { Composer } from '../components/Composer';
+import { BUILTIN_PERSONAS, DEFAULT_PERSONA_ID } from '../personas/personas';
+import { useI18n } from '../i18n/i18n';
+import { LanguageSetting } from '../i18n/languages';
+import { Emotion, Message, Persona } from '../types';
+
+export interface WidgetConfig {
+  personaId: string;
+  // Origin of the LUCA server that serves the relay and personas
+  server: string;
+  // Endpoint on the host's own server that returns `{ token }`
+  tokenUrl?: string;
+  inputMode: InputMode;
+  allowInterruptions: boolean;
+  position: 'left' | 'right';
+  language: LanguageSetting;
+}
+
+export interface WidgetEvents {
+  connected: { sessionId: string | null };
+  disconnected: {};
+  message: Message;
+  emotion: { emotion: Emotion };
+}
+
+interface WidgetProps {
+  config: WidgetConfig;
+  onEvent: <K extends keyof WidgetEvents>(type: K, detail: WidgetEvents[K]) => void;
+}
+
+const builtinPersona = (id: string) =>
+  BUILTIN_PERSONAS.find(p => p.id === id) ?? BUILTIN_PERSONAS.find(p => p.id === DEFAULT_PERSONA_ID)!;
+
+/** A floating launcher that opens a compact LUCA conversation panel. */
+export function Widget({ config, onEvent }: WidgetProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [persona, setPersona] = useState<Persona>(() => builtinPersona(config.personaId));
+  const { t, locale, dir } = useI18n();
+
+  const { tokenUrl } = config;
+  const getToken = useMemo(() => tokenUrl ? () => fetchEmbedToken(tokenUrl) : undefined, [tokenUrl]);
+
+  // Saved personas live on the LUCA server; built-ins are bundled as a fallback.
+  // Without a token URL the widget is on LUCA's own pages, and uses the signed-in user's.
+  useEffect(() => {
+    setPersona(builtinPersona(config.personaId));
+    const saved = getToken
+      ? getToken().then(token => fetchEmbedPersona(config.server, token, config.personaId))
+      : listPersonas().then(personas => personas.find(p => p.id === config.personaId) ?? builtinPersona(config.personaId));
+    saved
+      .then(setPersona)
+      .catch(err => console.error("Failed to load persona:", err));
+  }, [config.server, config.personaId, getToken]);
+
+  const session = useLucaSession({
+    persona,
+    allowInterruptions: config.allowInterruptions,
+    recordingEnabled: false,
+    inputMode: config.inputMode,
+    audioSettings: DEFAULT_AUDIO_SETTINGS,
+    relayUrl: `${config.server}${LIVE_RELAY_PATH}`,
+    getToken,
+    // History and memories belong to the LUCA app's own users, not the host page's visitors
+    saveHistory: false,
+    memory: false,
+    // Reports would go to the host page's origin rather than the LUCA server
+    telemetry: false,
+    // Text chat goes through /api/chat, which needs a signed-in LUCA user
+    textFallback: false,
+    searchKnowledge: getToken ? async query => searchEmbedKnowledge(config.server, await getToken(), query) : undefined,
+  });
+  const { state, emotion, isConnected, isConnecting } = session;
+
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  const wasConnectedRef = useRef(false);
+  useEffect(() => {
+    if (isConnected === wasConnectedRef.current) return;
+    wasConnectedRef.current = isConnected;
+    if (isConnected) {
+      onEventRef.current('connected', { sessionId: state.sessionId });
+    } else {
+      onEventRef.current('disconnected', {});
+    }
+  }, [isConnected, state.sessionId]);
+
+  // Messages are only ever appended, except when a new conversation starts
+  const emittedMessagesRef = useRef(0);
+  useEffect(() => {
+    if (state.messages.length < emittedMessagesRef.current) emittedMessagesRef.current = 0;
+    state.messages.slice(emittedMessagesRef.current).forEach(message => onEventRef.current('message', message));
+    emittedMessagesRef.current = state.messages.length;
+  }, [state.messages]);
+
+  useEffect(() => {
+    if (isConnected) onEventRef.current('emotion', { emotion });
+  }, [emotion, isConnected]);
+
+  const handleClose = () => {
+    setIsOpen(false);
+    // A closed panel shouldn't keep the microphone open
+    if (isConnected || isConnecting) session.disconnect();
+  };
+
+  // The launcher stays on the configured side of the screen; items-start follows the text direction
+  const onLeft = config.position === 'left';
+  const side = `${onLeft ? 'left-6' : 'right-6'} ${onLeft === (dir === 'ltr') ? 'items-start' : 'items-end'}`;
+
+  return (
+    <div lang={locale} dir={dir} className={`fixed bottom-6 ${side} z-[2147483000] flex flex-col gap-4 font-sans text-white`}>
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: 20, scale: 0.95 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: 20, scale: 0.95 }}
+            className="w-[380px] max-w-[calc(100vw-3rem)] max-h-[80vh] overflow-y-auto custom-scrollbar bg-[#0a0a0a] border border-white/10 rounded-2xl shadow-2xl p-6 flex flex-col items-center gap-6"
+          >
+            <div className="w-full flex items-center justify-between">
+              <span className="text-sm font-bold tracking-[0.2em] uppercase">{persona.name}</span>
+              <button onClick={handleClose} title={t('widget.close')} aria-label={t('widget.close')} className="text-white/40 hover:text-white transition-colors">
+                <X size={18} />
+              </button>
+            </div>
+
+            <StatusBanner banner={session.banner} onDismiss={session.dismissNotice} />
+
+            <Visualizer analyser={session.activeAnalyser} active={isConnected} speaking={state.isPlaying} />
+
+            <Avatar
+              persona={persona}
+              emotion={emotion}
+              isConnected={isConnected}
+              isConnecting={isConnecting}
+              isPreparingSpeech={state.isPreparingSpeech}
+              isUserSpeaking={state.isUserSpeaking}
+              inputMode={config.inputMode}
+              analyser={session.activeAnalyser}
+              onConnect={session.connect}
+              onDisconnect={session.disconnect}
+              onPushToTalk={session.setPushToTalk}
+            />
+
+            <Transcript
+              messages={state.messages}
+              pendingTurns={state.pendingTurns}
+              assistantName={persona.name}
+              startedAt={state.startedAt}
+              live={isConnected}
+              onAskAgain={isConnected ? session.askAgain : undefined}
+              onResend={isConnected ? text => session.sendMessage(text) : undefined}
+            />
+
+            <Composer
+              disabled={!isConnected}
+              videoSource={state.video?.source}
+              onToggleVideo={session.toggleVideo}
+              onSend={session.sendMessage}
+              onError={text => session.setNotice({ tone: 'warning', text, dismissible: true })}
+            />
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <button
+        onClick={() => isOpen ? handleClose() : setIsOpen(true)}
+        title={isOpen ? t('widget.close') : t('widget.open', { name: persona.name })}
+        aria-label={isOpen ? t('widget.close') : t('widget.open', { name: persona.name })}
+        aria-expanded={isOpen}
+        className="w-14 h-14 rounded-full bg-[#1a1a1a] border border-violet-500/30 shadow-[0_0_20px_rgba(139,92,246,0.3)] flex items-center justify-center text-2xl hover:scale-105 transition-transform"
+      >
+        {isOpen ? <X size={22} /> : persona.emojis[isConnected ? emotion : 'neutral']}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import React from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { MotionConfig } from 'motion/react';
+import { InputMode } from '../services/liveAudioService';
+import { DEFAULT_PERSONA_ID } from '../personas/personas';
+import { I18nProvider } from '../i18n/i18n';
+import { AUTO_LANGUAGE, findLanguage } from '../i18n/languages';
+import { Widget, WidgetConfig } from './Widget';
+import styles from '../index.css?inline';
+
+// The LUCA server is wherever this script was loaded from, unless `server` says otherwise
+const SCRIPT_ORIGIN = new URL(import.meta.url).origin;
+const PROPERTIES_STYLE_ID = 'luca-assistant-properties';
+
+// Shadow roots ignore @property, which Tailwind relies on for the initial values
+// of its --tw-* variables, so those rules are registered on the document once.
+function registerProperties() {
+  if (document.getElementById(PROPERTIES_STYLE_ID)) return;
+  const style = document.createElement('style');
+  style.id = PROPERTIES_STYLE_ID;
+  style.textContent = styles.match(/@property [^{]+\{[^}]*\}/g)?.join('\n') ?? '';
+  document.head.append(style);
+}
+
+/**
+ * `<luca-assistant persona="support" token-url="/luca-token">`: the LUCA
+ * widget as a custom element, rendered in a shadow root so the host page's
+ * styles and ours stay apart.
+ *
+ * Attributes: `persona`, `server`, `token-url`, `input-mode`
+ * (hands-free | push-to-talk), `allow-interruptions` ("false" to turn off),
+ * `position` (left | right) and `language` (a code such as es-US, or auto).
+ *
+ * Events: `connected`, `disconnected`, `message` (detail: the Message) and
+ * `emotion` (detail: `{ emotion }`).
+ */
+export class LucaAssistantElement extends HTMLElement {
+  static observedAttributes = ['persona', 'server', 'token-url', 'input-mode', 'allow-interruptions', 'position', 'language'];
+
+  private root: Root | null = null;
+
+  connectedCallback() {
+    registerProperties();
+    const shadow = this.shadowRoot ?? this.attachShadow({ mode: 'open' });
+    shadow.replaceChildren();
+    const style = document.createElement('style');
+    style.textContent = styles;
+    const container = document.createElement('div');
+    shadow.append(style, container);
+    this.root = createRoot(container);
+    this.render();
+  }
+
+  disconnectedCallback() {
+    this.root?.unmount();
+    this.root = null;
+  }
+
+  attributeChangedCallback() {
+    this.render();
+  }
+
+  private get config(): WidgetConfig {
+    const inputMode = this.getAttribute('input-mode') as InputMode | null;
+    const language = this.getAttribute('language');
+    return {
+      personaId: this.getAttribute('persona') || DEFAULT_PERSONA_ID,
+      server: (this.getAttribute('server') || SCRIPT_ORIGIN).replace(/\/$/, ''),
+      tokenUrl: this.getAttribute('token-url') || undefined,
+      inputMode: inputMode === 'push-to-talk' ? inputMode : 'hands-free',
+      allowInterruptions: this.getAttribute('allow-interruptions') !== 'false',
+      position: this.getAttribute('position') === 'left' ? 'left' : 'right',
+      language: language && findLanguage(language) ? language : AUTO_LANGUAGE,
+    };
+  }
+
+  private render() {
+    const config = this.config;
+    // The widget has no accessibility settings of its own; motion follows the system's
+    this.root?.render(
+      <I18nProvider language={config.language}>
+        <MotionConfig reducedMotion="user">
+          <Widget
+            config={config}
+            onEvent={(type, detail) => this.dispatchEvent(new CustomEvent(type, { detail }))}
+          />
+        </MotionConfig>
+      </I18nProvider>
+    );
+  }
+}
+
+if (!customElements.get('luca-assistant')) {
+  customElements.define('luca-assistant', LucaAssistantElement);
+}
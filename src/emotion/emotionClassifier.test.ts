@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { classifyEmotion, ExpressiveEmotion } from './emotionClassifier';
+
+// Replies the way the model tends to phrase them, with the expression each should get
+const CORPUS: [string, ExpressiveEmotion][] = [
+  ["I'm so glad you liked it.", 'happy'],
+  ['Thanks, that was a lovely chat.', 'happy'],
+  ['Sure, happy to help.', 'happy'],
+  ["That's awesome, congratulations!", 'excited'],
+  ['Wow, what an amazing result!', 'excited'],
+  ["I'm sorry to hear that.", 'sad'],
+  ['Unfortunately the store is closed today.', 'sad'],
+  ['That must be really tough.', 'sad'],
+  ["Whoa, I didn't see that coming.", 'surprised'],
+  ['Wow. Seriously?', 'surprised'],
+  // Negation flips the word it covers
+  ['Not bad at all!', 'happy'],
+  ["That's not bad.", 'happy'],
+  ["I'm not happy with how that went.", 'sad'],
+  ['That was no fun.', 'sad'],
+  ["It isn't surprising.", 'neutral'],
+  // A question is not surprise
+  ['What time is it?', 'neutral'],
+  ['Is that the one you wanted?', 'neutral'],
+  ['The meeting is at three.', 'neutral'],
+  ['', 'neutral'],
+];
+
+describe('classifyEmotion', () => {
+  it.each(CORPUS)('reads %j as %s', (text, emotion) => {
+    expect(classifyEmotion(text).emotion).toBe(emotion);
+  });
+
+  it('is unsure about text with no feeling in it', () => {
+    expect(classifyEmotion('What time is it?')).toEqual({ emotion: 'neutral', confidence: 0.5 });
+    expect(classifyEmotion('What time is it???')).toEqual({ emotion: 'neutral', confidence: 0.5 });
+  });
+
+  it('is more confident about intensified words', () => {
+    const plain = classifyEmotion("That's sad.");
+    const intensified = classifyEmotion("That's so sad.");
+    expect(intensified.emotion).toBe('sad');
+    expect(intensified.confidence).toBeGreaterThan(plain.confidence);
+    expect(classifyEmotion('This is extremely good news.').confidence).toBeGreaterThan(classifyEmotion('This is good news.').confidence);
+  });
+
+  it("doesn't let a repeated intensifier boost itself", () => {
+    expect(classifyEmotion('really really').confidence).toBe(classifyEmotion('really, really').confidence);
+  });
+
+  it('is less confident about negated words than plain ones', () => {
+    expect(classifyEmotion('Not bad.').confidence).toBeLessThan(classifyEmotion('Good.').confidence);
+  });
+
+  it('turns positive replies excited with exclamation marks, but not sad ones', () => {
+    expect(classifyEmotion('Great.').emotion).toBe('happy');
+    expect(classifyEmotion('Great!!!').emotion).toBe('excited');
+    expect(classifyEmotion("I'm so sorry!").emotion).toBe('sad');
+  });
+
+  it('is less confident when the evidence is mixed', () => {
+    const mixed = classifyEmotion("I'm glad you asked, but sorry, it's gone.");
+    expect(mixed.confidence).toBeLessThan(classifyEmotion("I'm glad you asked.").confidence);
+  });
+
+  it('keeps confidence between 0 and 1', () => {
+    for (const [text] of CORPUS) {
+      const { confidence } = classifyEmotion(text);
+      expect(confidence).toBeGreaterThanOrEqual(0);
+      expect(confidence).toBeLessThanOrEqual(1);
+    }
+    expect(classifyEmotion('Amazing, awesome, fantastic, incredible!!!').confidence).toBeLessThanOrEqual(1);
+  });
+});
@@ -0,0 +1,92 @@
+import { Emotion } from '../types';
+
+// Emotions the model's words can express; activity states (talking, listening,
+// thinking) come from the audio pipeline instead.
+export type ExpressiveEmotion = Extract<Emotion, 'neutral' | 'happy' | 'sad' | 'excited' | 'surprised'>;
+
+export interface EmotionEstimate {
+  emotion: ExpressiveEmotion;
+  // 0..1
+  confidence: number;
+}
+
+const LEXICON: Record<string, [ExpressiveEmotion, number]> = {
+  // happy
+  glad: ['happy', 1], happy: ['happy', 1], nice: ['happy', 0.6], good: ['happy', 0.6], great: ['happy', 0.8],
+  love: ['happy', 0.9], lovely: ['happy', 0.8], thanks: ['happy', 0.5], thank: ['happy', 0.5], welcome: ['happy', 0.4],
+  sure: ['happy', 0.3], fun: ['happy', 0.7], enjoy: ['happy', 0.7], pleasure: ['happy', 0.7], wonderful: ['happy', 0.9],
+  // excited
+  awesome: ['excited', 1], amazing: ['excited', 1], fantastic: ['excited', 1], incredible: ['excited', 1],
+  excited: ['excited', 1], exciting: ['excited', 1], congratulations: ['excited', 1], congrats: ['excited', 1],
+  yay: ['excited', 1], hooray: ['excited', 1], brilliant: ['excited', 0.9],
+  // sad
+  sad: ['sad', 1], sorry: ['sad', 0.7], unfortunately: ['sad', 0.8], awful: ['sad', 1], terrible: ['sad', 1],
+  bad: ['sad', 0.7], miss: ['sad', 0.5], lost: ['sad', 0.5], upset: ['sad', 0.9], hurts: ['sad', 0.8],
+  condolences: ['sad', 1], disappointing: ['sad', 0.9], tough: ['sad', 0.5],
+  // surprised
+  wow: ['surprised', 0.9], whoa: ['surprised', 1], really: ['surprised', 0.4], unexpected: ['surprised', 0.8],
+  surprising: ['surprised', 0.9], surprised: ['surprised', 1], seriously: ['surprised', 0.6], omg: ['surprised', 1],
+};
+
+const NEGATIONS = new Set(['not', 'no', 'never', "isn't", "wasn't", "don't", "didn't", "aren't", "won't", 'hardly', 'without']);
+const INTENSIFIERS = new Set(['very', 'so', 'really', 'super', 'truly', 'extremely', 'incredibly']);
+
+// What a negated word expresses instead ("not bad" is mildly positive, "not happy" is sad).
+const NEGATED: Record<ExpressiveEmotion, ExpressiveEmotion> = {
+  happy: 'sad',
+  excited: 'sad',
+  sad: 'happy',
+  surprised: 'neutral',
+  neutral: 'neutral',
+};
+
+const NEGATION_WINDOW = 3;
+
+/**
+ * Lexicon classifier for assistant speech, used when the model does not report
+ * its own emotion. Handles negation ("not bad at all"), intensifiers and
+ * exclamation; a bare question mark is deliberately not treated as surprise.
+ */
+export function classifyEmotion(text: string): EmotionEstimate {
+  const words = text.toLowerCase().match(/[a-z']+/g) ?? [];
+  const scores: Record<ExpressiveEmotion, number> = { neutral: 0, happy: 0, sad: 0, excited: 0, surprised: 0 };
+
+  words.forEach((word, i) => {
+    const entry = LEXICON[word];
+    if (!entry) return;
+    let [emotion, weight] = entry;
+
+    const window = words.slice(Math.max(0, i - NEGATION_WINDOW), i);
+    if (window.some(w => NEGATIONS.has(w))) {
+      emotion = NEGATED[emotion];
+      // Negated phrases are weaker than the plain word
+      weight *= 0.6;
+    }
+    if (i > 0 && INTENSIFIERS.has(words[i - 1]) && words[i - 1] !== word) {
+      weight *= 1.4;
+    }
+    scores[emotion] += weight;
+  });
+
+  const exclamations = (text.match(/!/g) ?? []).length;
+  if (exclamations > 0) {
+    // Exclamation amplifies whatever positive feeling is there
+    if (scores.happy > 0 || scores.excited > 0) scores.excited += 0.3 * Math.min(exclamations, 3);
+    if (scores.surprised > 0) scores.surprised += 0.3;
+  }
+
+  let best: ExpressiveEmotion = 'neutral';
+  let total = 0;
+  for (const emotion of Object.keys(scores) as ExpressiveEmotion[]) {
+    total += scores[emotion];
+    if (scores[emotion] > scores[best]) best = emotion;
+  }
+  if (best === 'neutral' || total === 0) {
+    return { emotion: 'neutral', confidence: 0.5 };
+  }
+
+  // Share of the evidence for the winner, scaled by how much evidence there is.
+  const share = scores[best] / total;
+  const strength = 1 - Math.exp(-scores[best]);
+  return { emotion: best, confidence: Math.round(share * strength * 100) / 100 };
+}
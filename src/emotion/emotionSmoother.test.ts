@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { ExpressiveEmotion } from './emotionClassifier';
+import { EmotionSmoother } from './emotionSmoother';
+
+let time: number;
+let smoother: EmotionSmoother;
+
+beforeEach(() => {
+  time = 0;
+  smoother = new EmotionSmoother({ minConfidence: 0.4, minDwell: 1500, overrideMargin: 0.25, now: () => time });
+});
+
+const proposeAt = (at: number, emotion: ExpressiveEmotion, confidence: number) => {
+  time = at;
+  return smoother.propose({ emotion, confidence });
+};
+
+describe('EmotionSmoother', () => {
+  it('ignores estimates below the minimum confidence', () => {
+    expect(proposeAt(0, 'happy', 0.39)).toBeNull();
+    expect(smoother.emotion).toBe('neutral');
+    expect(proposeAt(0, 'happy', 0.4)).toBe('happy');
+  });
+
+  it('holds an emotion for the dwell time against comparable estimates', () => {
+    expect(proposeAt(0, 'happy', 0.6)).toBe('happy');
+    expect(proposeAt(500, 'sad', 0.7)).toBeNull();
+    expect(proposeAt(1499, 'sad', 0.7)).toBeNull();
+    expect(smoother.emotion).toBe('happy');
+    expect(proposeAt(1500, 'sad', 0.5)).toBe('sad');
+  });
+
+  it('switches during the dwell time when the new estimate beats the margin', () => {
+    proposeAt(0, 'happy', 0.6);
+    expect(proposeAt(300, 'surprised', 0.84)).toBeNull();
+    expect(proposeAt(300, 'surprised', 0.85)).toBe('surprised');
+  });
+
+  it('restarts the dwell time on each switch', () => {
+    proposeAt(0, 'happy', 0.6);
+    proposeAt(2000, 'sad', 0.6);
+    expect(proposeAt(3000, 'happy', 0.6)).toBeNull();
+    expect(proposeAt(3500, 'happy', 0.6)).toBe('happy');
+  });
+
+  it('keeps the strongest evidence for the current emotion', () => {
+    proposeAt(0, 'happy', 0.5);
+    expect(proposeAt(200, 'happy', 0.8)).toBeNull();
+    expect(proposeAt(300, 'happy', 0.5)).toBeNull();
+    // 0.8 + 0.25 is now needed to override
+    expect(proposeAt(400, 'excited', 0.9)).toBeNull();
+    expect(proposeAt(400, 'excited', 1)).toBeNull();
+    expect(proposeAt(1500, 'excited', 0.9)).toBe('excited');
+  });
+
+  it('starts from neutral again after reset', () => {
+    proposeAt(0, 'sad', 0.9);
+    smoother.reset();
+    expect(smoother.emotion).toBe('neutral');
+    expect(proposeAt(100, 'happy', 0.5)).toBe('happy');
+  });
+});
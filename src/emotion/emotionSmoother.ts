@@ -0,0 +1,61 @@
+import { EmotionEstimate, ExpressiveEmotion } from './emotionClassifier';
+
+export interface EmotionSmootherOptions {
+  // Estimates below this confidence are ignored.
+  minConfidence?: number;
+  // Minimum time an emotion is held before a comparable estimate may replace it, in ms.
+  minDwell?: number;
+  // How much more confident a new estimate must be to override during the dwell time.
+  overrideMargin?: number;
+  now?: () => number;
+}
+
+/**
+ * Hysteresis for the avatar's expression: a new emotion must be confident
+ * enough, and either outlast the dwell time or clearly beat the current one,
+ * so the face doesn't flicker between sentences.
+ */
+export class EmotionSmoother {
+  private current: EmotionEstimate = { emotion: 'neutral', confidence: 0 };
+  private since = 0;
+  private minConfidence: number;
+  private minDwell: number;
+  private overrideMargin: number;
+  private now: () => number;
+
+  constructor(options: EmotionSmootherOptions = {}) {
+    this.minConfidence = options.minConfidence ?? 0.4;
+    this.minDwell = options.minDwell ?? 1500;
+    this.overrideMargin = options.overrideMargin ?? 0.25;
+    this.now = options.now ?? (() => Date.now());
+  }
+
+  get emotion(): ExpressiveEmotion {
+    return this.current.emotion;
+  }
+
+  /** Returns the emotion to show if it changed, otherwise null. */
+  propose(estimate: EmotionEstimate): ExpressiveEmotion | null {
+    if (estimate.confidence < this.minConfidence) return null;
+
+    const now = this.now();
+    if (estimate.emotion === this.current.emotion) {
+      // Reinforcement keeps the strongest recent evidence
+      this.current = { ...estimate, confidence: Math.max(estimate.confidence, this.current.confidence) };
+      return null;
+    }
+
+    const dwellElapsed = now - this.since >= this.minDwell;
+    const clearlyStronger = estimate.confidence >= this.current.confidence + this.overrideMargin;
+    if (!dwellElapsed && !clearlyStronger) return null;
+
+    this.current = estimate;
+    this.since = now;
+    return estimate.emotion;
+  }
+
+  reset() {
+    this.current = { emotion: 'neutral', confidence: 0 };
+    this.since = 0;
+  }
+}
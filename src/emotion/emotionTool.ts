@@ -0,0 +1,32 @@
+import { ToolDefinition } from '../tools/toolRegistry';
+import { EmotionEstimate, ExpressiveEmotion } from './emotionClassifier';
+
+const EXPRESSIVE_EMOTIONS: ExpressiveEmotion[] = ['neutral', 'happy', 'sad', 'excited', 'surprised'];
+
+/** Lets the model report the emotion of what it is about to say. */
+export function createSetEmotionTool(onEmotion: (estimate: EmotionEstimate) => void): ToolDefinition<{
+  emotion: ExpressiveEmotion;
+  confidence?: number;
+}> {
+  return {
+    name: 'set_emotion',
+    description: 'Sets the expression on your avatar. Call it at the start of every reply with the emotion your reply conveys. Never mention it to the user.',
+    parameters: {
+      type: 'object',
+      properties: {
+        emotion: { type: 'string', enum: EXPRESSIVE_EMOTIONS },
+        confidence: { type: 'number', description: 'How strongly the reply conveys it, from 0 to 1.' },
+      },
+      required: ['emotion'],
+    },
+    nonBlocking: true,
+    hidden: true,
+    handler: ({ emotion, confidence }) => {
+      if (!EXPRESSIVE_EMOTIONS.includes(emotion)) {
+        throw new Error(`emotion must be one of ${EXPRESSIVE_EMOTIONS.join(', ')}`);
+      }
+      onEmotion({ emotion, confidence: Math.min(1, Math.max(0, confidence ?? 0.8)) });
+      return { ok: true };
+    },
+  };
+}
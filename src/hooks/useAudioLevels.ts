@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+
+export interface AudioLevels {
+  // Per-band magnitudes, 0..1
+  bars: number[];
+  // Overall loudness, 0..1
+  level: number;
+}
+
+/**
+ * Samples an analyser every animation frame. With no analyser the levels
+ * decay to zero instead of dropping, so switching sources doesn't jump.
+ */
+export function useAudioLevels(analyser: AnalyserNode | null, bands = 15): AudioLevels {
+  const [levels, setLevels] = useState<AudioLevels>(() => ({ bars: new Array(bands).fill(0), level: 0 }));
+
+  useEffect(() => {
+    let animationFrame: number;
+    const data = analyser ? new Uint8Array(analyser.frequencyBinCount) : null;
+    const update = () => {
+      if (analyser && data) {
+        analyser.getByteFrequencyData(data);
+        setLevels({
+          // Use lower half of frequencies for better visual
+          bars: Array.from({ length: bands }, (_, i) => data[Math.floor((i / bands) * (data.length / 2))] / 255),
+          level: data.reduce((a, b) => a + b, 0) / data.length / 255,
+        });
+      } else {
+        setLevels(prev => ({ bars: prev.bars.map(v => v * 0.8), level: prev.level * 0.8 }));
+      }
+      animationFrame = requestAnimationFrame(update);
+    };
+
+    update();
+    return () => cancelAnimationFrame(animationFrame);
+  }, [analyser, bands]);
+
+  return levels;
+}
@@ -0,0 +1,52 @@
+import { useEffect, useRef } from 'react';
+
+const FOCUSABLE = 'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+/**
+ * Keyboard behaviour for a panel that opens over the page: focus moves into it
+ * when it opens, Tab cycles within it, Escape closes it, and focus goes back to
+ * whatever opened it. Attach the returned ref to the panel, with tabIndex={-1}.
+ */
+export function useDialog<T extends HTMLElement>(open: boolean, onClose: () => void) {
+  const ref = useRef<T>(null);
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  useEffect(() => {
+    if (!open) return;
+    const opener = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    // The panel mounts with the same render that opens it
+    const frame = requestAnimationFrame(() => {
+      if (!ref.current?.contains(document.activeElement)) ref.current?.focus();
+    });
+
+    const handleKey = (e: KeyboardEvent) => {
+      // Fields that use Escape themselves (e.g. to cancel an edit) stop it first
+      if (e.key === 'Escape') {
+        onCloseRef.current();
+        return;
+      }
+      const panel = ref.current;
+      if (e.key !== 'Tab' || !panel) return;
+      const focusable: HTMLElement[] = Array.from(panel.querySelectorAll<HTMLElement>(FOCUSABLE));
+      if (focusable.length === 0) return;
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+      if (e.shiftKey && (document.activeElement === first || document.activeElement === panel)) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && document.activeElement === last) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+    document.addEventListener('keydown', handleKey);
+    return () => {
+      cancelAnimationFrame(frame);
+      document.removeEventListener('keydown', handleKey);
+      opener?.focus();
+    };
+  }, [open]);
+
+  return ref;
+}
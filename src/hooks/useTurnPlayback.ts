@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Message } from '../types';
+
+// Transcription lags the audio a little, so each clip starts and ends with some slack
+const PADDING_MS = 500;
+
+const isObjectUrl = (url: string) => url.startsWith('blob:');
+
+/**
+ * Plays single turns out of a session recording, one at a time. Recordings from
+ * the server are fetched whole on first use, since seeking needs range requests
+ * the server doesn't answer.
+ */
+export function useTurnPlayback(recordingUrl: string | null | undefined, startedAt: number) {
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const sourceRef = useRef<Promise<string> | null>(null);
+  const stopRef = useRef<() => void>(() => {});
+
+  const stop = useCallback(() => stopRef.current(), []);
+
+  // A new recording (another session, or the one just finished) starts over
+  useEffect(() => {
+    const audio = new Audio();
+    audioRef.current = audio;
+    return () => {
+      stopRef.current();
+      audio.removeAttribute('src');
+      const source = sourceRef.current;
+      sourceRef.current = null;
+      if (recordingUrl && !isObjectUrl(recordingUrl)) {
+        source?.then(URL.revokeObjectURL).catch(() => {});
+      }
+    };
+  }, [recordingUrl]);
+
+  const play = useCallback(async (message: Message) => {
+    const audio = audioRef.current;
+    if (!audio || !recordingUrl || message.endedAt === undefined) return;
+    stopRef.current();
+
+    sourceRef.current ??= isObjectUrl(recordingUrl)
+      ? Promise.resolve(recordingUrl)
+      : fetch(recordingUrl).then(async res => {
+          if (!res.ok) throw new Error(`Recording request failed: ${res.status}`);
+          return URL.createObjectURL(await res.blob());
+        }).catch(err => {
+          sourceRef.current = null;
+          throw err;
+        });
+    const source = sourceRef.current;
+
+    let stopped = false;
+    const end = (message.endedAt - startedAt + PADDING_MS) / 1000;
+    const onTimeUpdate = () => audio.currentTime >= end && stopRef.current();
+    const stopThis = () => {
+      stopped = true;
+      audio.pause();
+      audio.removeEventListener('timeupdate', onTimeUpdate);
+      audio.removeEventListener('ended', stopThis);
+      stopRef.current = () => {};
+      setPlayingId(null);
+    };
+    stopRef.current = stopThis;
+    audio.addEventListener('timeupdate', onTimeUpdate);
+    audio.addEventListener('ended', stopThis);
+    setPlayingId(message.id);
+
+    try {
+      const url = await source;
+      // Stopped, or another turn started, while the recording loaded
+      if (stopped) return;
+      if (audio.src !== url) audio.src = url;
+      audio.currentTime = Math.max(0, message.createdAt - startedAt - PADDING_MS) / 1000;
+      await audio.play();
+    } catch (err) {
+      console.error("Failed to replay turn:", err);
+      if (!stopped) stopThis();
+    }
+  }, [recordingUrl, startedAt]);
+
+  return { playingId, play, stop };
+}
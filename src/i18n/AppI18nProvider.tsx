@@ -0,0 +1,28 @@
+import React, { useEffect, useState } from 'react';
+import { I18nProvider, uiLocale } from './i18n';
+import { AUTO_LANGUAGE, LanguageSetting, findLanguage, textDirection } from './languages';
+
+const LANGUAGE_STORAGE_KEY = 'luca.language';
+
+const storedLanguage = (): LanguageSetting => {
+  const stored = localStorage.getItem(LANGUAGE_STORAGE_KEY);
+  return stored && findLanguage(stored) ? stored : AUTO_LANGUAGE;
+};
+
+/** The app's I18nProvider: remembers the picked language and sets the page's lang and dir from it. */
+export function AppI18nProvider({ children }: { children: React.ReactNode }) {
+  const [language, setLanguage] = useState(storedLanguage);
+
+  useEffect(() => {
+    localStorage.setItem(LANGUAGE_STORAGE_KEY, language);
+    const locale = uiLocale(language);
+    document.documentElement.lang = locale;
+    document.documentElement.dir = textDirection(locale);
+  }, [language]);
+
+  return (
+    <I18nProvider language={language} onLanguageChange={setLanguage}>
+      {children}
+    </I18nProvider>
+  );
+}
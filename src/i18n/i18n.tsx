@@ -0,0 +1,87 @@
+import React, { createContext, useContext, useMemo } from 'react';
+import { AUTO_LANGUAGE, LanguageSetting, primaryLanguage, textDirection } from './languages';
+import en from './locales/en.json';
+import es from './locales/es.json';
+import fr from './locales/fr.json';
+import de from './locales/de.json';
+import ar from './locales/ar.json';
+
+export type MessageKey = keyof typeof en;
+// Keys with `_one`/`_other`/... variants, looked up by the `count` value
+type PluralKey = { [K in MessageKey]: K extends `${infer Base}_other` ? Base : never }[MessageKey];
+
+export type Translate = (key: MessageKey | PluralKey, values?: Record<string, string | number>) => string;
+
+type Messages = Partial<Record<string, string>>;
+
+// English is complete; other locales fall back to it key by key
+const LOCALES: Record<string, Messages> = { en, es, fr, de, ar };
+
+const DEFAULT_LOCALE = 'en';
+
+/** The UI locale for a language setting: the picked language, or the browser's in auto mode. */
+export function uiLocale(language: LanguageSetting) {
+  const tag = language === AUTO_LANGUAGE ? navigator.language : language;
+  const locale = primaryLanguage(tag || DEFAULT_LOCALE);
+  return locale in LOCALES ? locale : DEFAULT_LOCALE;
+}
+
+export function createTranslator(locale: string): Translate {
+  const messages = LOCALES[locale] ?? {};
+  const plurals = new Intl.PluralRules(locale);
+  const lookup = (key: string) => messages[key] ?? (LOCALES[DEFAULT_LOCALE] as Messages)[key];
+
+  return (key, values = {}) => {
+    let template = lookup(key);
+    if (template === undefined && typeof values.count === 'number') {
+      template = lookup(`${key}_${plurals.select(values.count)}`) ?? lookup(`${key}_other`);
+    }
+    if (template === undefined) return key;
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+      name in values ? String(values[name]) : placeholder
+    );
+  };
+}
+
+export interface I18n {
+  // The language setting: AUTO_LANGUAGE or one of LANGUAGES' codes
+  language: LanguageSetting;
+  setLanguage: (language: LanguageSetting) => void;
+  // UI locale the strings are in, e.g. 'es'
+  locale: string;
+  dir: 'ltr' | 'rtl';
+  t: Translate;
+}
+
+const I18nContext = createContext<I18n>({
+  language: AUTO_LANGUAGE,
+  setLanguage: () => {},
+  locale: DEFAULT_LOCALE,
+  dir: 'ltr',
+  t: createTranslator(DEFAULT_LOCALE),
+});
+
+interface I18nProviderProps {
+  language: LanguageSetting;
+  // Omitted where the language is fixed, e.g. by a widget attribute
+  onLanguageChange?: (language: LanguageSetting) => void;
+  children: React.ReactNode;
+}
+
+export function I18nProvider({ language, onLanguageChange, children }: I18nProviderProps) {
+  const value = useMemo<I18n>(() => {
+    const locale = uiLocale(language);
+    return {
+      language,
+      setLanguage: onLanguageChange ?? (() => {}),
+      locale,
+      dir: textDirection(locale),
+      t: createTranslator(locale),
+    };
+  }, [language, onLanguageChange]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+/** Strings and direction for the current UI locale. English outside a provider. */
+export const useI18n = () => useContext(I18nContext);
@@ -0,0 +1,27 @@
+import { ToolDefinition } from '../tools/toolRegistry';
+
+// ISO 639 code, optionally with a region: 'es', 'pt-BR'
+const LANGUAGE_CODE = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})?$/;
+
+/** Lets the model report which language the conversation is in, when it picks the language itself. */
+export function createSetLanguageTool(onLanguage: (code: string) => void): ToolDefinition<{ language: string }> {
+  return {
+    name: 'set_language',
+    description: 'Reports the language the user is speaking, which is the language you reply in. Call it at the start of the conversation and again whenever the user switches language. Never mention it to the user.',
+    parameters: {
+      type: 'object',
+      properties: {
+        language: { type: 'string', description: 'ISO 639-1 code of the language, e.g. "en", "es", "ar".' },
+      },
+      required: ['language'],
+    },
+    nonBlocking: true,
+    hidden: true,
+    handler: ({ language }) => {
+      const code = language?.trim().toLowerCase();
+      if (!code || !LANGUAGE_CODE.test(code)) throw new Error('language must be an ISO 639-1 code such as "en"');
+      onLanguage(code);
+      return { ok: true };
+    },
+  };
+}
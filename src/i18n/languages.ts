@@ -0,0 +1,46 @@
+// 'auto' lets LUCA answer in whatever language the user speaks
+export const AUTO_LANGUAGE = 'auto';
+
+export type LanguageSetting = typeof AUTO_LANGUAGE | string;
+
+export interface Language {
+  // BCP-47 code sent as speechConfig.languageCode
+  code: string;
+  // Shown in the picker in the language itself
+  name: string;
+  // Prebuilt voice used instead of the persona's while this language is picked
+  voice: string;
+}
+
+// Languages the Live API speaks that are offered in the picker.
+export const LANGUAGES: Language[] = [
+  { code: 'en-US', name: 'English', voice: 'Zephyr' },
+  { code: 'es-US', name: 'Español', voice: 'Kore' },
+  { code: 'fr-FR', name: 'Français', voice: 'Aoede' },
+  { code: 'de-DE', name: 'Deutsch', voice: 'Orus' },
+  { code: 'it-IT', name: 'Italiano', voice: 'Leda' },
+  { code: 'pt-BR', name: 'Português', voice: 'Puck' },
+  { code: 'hi-IN', name: 'हिन्दी', voice: 'Charon' },
+  { code: 'ja-JP', name: '日本語', voice: 'Kore' },
+  { code: 'ar-XA', name: 'العربية', voice: 'Fenrir' },
+];
+
+// Scripts written right to left, by primary language subtag
+const RTL_LANGUAGES = ['ar', 'fa', 'he', 'ur'];
+
+export const findLanguage = (setting: LanguageSetting) => LANGUAGES.find(language => language.code === setting);
+
+/** 'es-US' -> 'es' */
+export const primaryLanguage = (code: string) => code.split('-')[0].toLowerCase();
+
+export const textDirection = (code: string): 'ltr' | 'rtl' =>
+  RTL_LANGUAGES.includes(primaryLanguage(code)) ? 'rtl' : 'ltr';
+
+/** The language's name in `displayLocale`, e.g. 'es' -> 'Spanish'; the code itself if the browser doesn't know it. */
+export function languageName(code: string, displayLocale: string) {
+  try {
+    return new Intl.DisplayNames([displayLocale], { type: 'language' }).of(primaryLanguage(code)) ?? code;
+  } catch {
+    return code;
+  }
+}
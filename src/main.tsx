@@ -1,10 +1,23 @@
 import {StrictMode} from 'react';
 import {createRoot} from 'react-dom/client';
 import App from './App.tsx';
+import {AccessibilityProvider} from './a11y/accessibility';
+import {AdminDashboard} from './admin/AdminDashboard';
+import {AuthGate} from './auth/AuthGate';
+import {AppI18nProvider} from './i18n/AppI18nProvider';
 import './index.css';
 
+// The server answers every path with this page, so the dashboard is picked here
+const isAdmin = window.location.pathname.replace(/\/+$/, '') === '/admin';
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    <AppI18nProvider>
+      <AccessibilityProvider>
+        <AuthGate>
+          {(user, onSignOut) => isAdmin ? <AdminDashboard user={user} /> : <App user={user} onSignOut={onSignOut} />}
+        </AuthGate>
+      </AccessibilityProvider>
+    </AppI18nProvider>
   </StrictMode>,
 );
@@ -0,0 +1,75 @@
+import { Emotion, Persona } from '../types';
+import luca from './luca.json';
+import support from './support.json';
+import tutor from './tutor.json';
+
+export const EMOTIONS: Emotion[] = ['neutral', 'happy', 'thinking', 'talking', 'listening', 'surprised', 'sad', 'excited'];
+
+// Prebuilt voices offered by the Live API.
+export const VOICES = ['Zephyr', 'Puck', 'Charon', 'Kore', 'Fenrir', 'Leda', 'Orus', 'Aoede'];
+
+export const DEFAULT_PERSONA_ID = 'luca';
+
+export const BUILTIN_PERSONAS: Persona[] = [luca, support, tutor].map(definition => ({
+  ...parsePersona(definition),
+  builtin: true,
+}));
+
+/**
+ * Fills `{{variable}}` placeholders in the persona's system instruction.
+ * `runtime` values (supplied by the app at connect time) win over the persona's
+ * own defaults; `name` always resolves to the persona name.
+ */
+export function renderSystemInstruction(persona: Persona, runtime: Record<string, string> = {}) {
+  const values: Record<string, string> = { ...persona.variables, name: persona.name, ...runtime };
+  return persona.systemInstruction.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (placeholder, key: string) => {
+    if (key in values) return values[key];
+    console.warn(`Persona "${persona.id}" uses undefined variable ${placeholder}`);
+    return '';
+  });
+}
+
+/** Validates untrusted JSON (imports, server payloads) and returns a well-formed persona. */
+export function parsePersona(input: unknown): Persona {
+  if (!input || typeof input !== 'object') throw new Error('Persona must be a JSON object');
+  const value = input as Record<string, any>;
+
+  for (const field of ['id', 'name', 'systemInstruction', 'voice', 'model'] as const) {
+    if (typeof value[field] !== 'string' || !value[field].trim()) {
+      throw new Error(`Persona "${field}" must be a non-empty string`);
+    }
+  }
+  if (!/^[a-z0-9][a-z0-9-]*$/.test(value.id)) {
+    throw new Error('Persona "id" may only contain lowercase letters, digits and dashes');
+  }
+
+  const variables: Record<string, string> = {};
+  if (value.variables !== undefined) {
+    if (typeof value.variables !== 'object' || value.variables === null) {
+      throw new Error('Persona "variables" must be an object of strings');
+    }
+    for (const [key, v] of Object.entries(value.variables)) {
+      if (typeof v !== 'string') throw new Error(`Persona variable "${key}" must be a string`);
+      variables[key] = v;
+    }
+  }
+
+  const emojis = {} as Record<Emotion, string>;
+  for (const emotion of EMOTIONS) {
+    const emoji = value.emojis?.[emotion];
+    if (typeof emoji !== 'string' || !emoji) throw new Error(`Persona is missing an emoji for "${emotion}"`);
+    emojis[emotion] = emoji;
+  }
+
+  return {
+    id: value.id,
+    name: value.name.trim(),
+    description: typeof value.description === 'string' ? value.description : undefined,
+    systemInstruction: value.systemInstruction,
+    variables,
+    voice: value.voice,
+    model: value.model,
+    languageCode: typeof value.languageCode === 'string' ? value.languageCode : undefined,
+    emojis,
+  };
+}
@@ -0,0 +1,122 @@
+// Records both sides of a conversation on a shared wall-clock timeline and
+// exports them as a stereo WAV: the user on the left channel, LUCA on the right.
+
+const RECORDING_SAMPLE_RATE = 24000;
+
+interface Clip {
+  // Offset from the start of the recording, in samples.
+  offset: number;
+  samples: Float32Array;
+}
+
+export class ConversationRecorder {
+  readonly startedAt: number;
+  private user: Clip[] = [];
+  private ai: Clip[] = [];
+
+  constructor(startedAt = Date.now()) {
+    this.startedAt = startedAt;
+  }
+
+  get isEmpty() {
+    return this.user.length === 0 && this.ai.length === 0;
+  }
+
+  /** Adds microphone audio captured at `at` (ms since epoch). */
+  addUserAudio(pcm: Int16Array, sampleRate: number, at: number) {
+    const samples = new Float32Array(pcm.length);
+    for (let i = 0; i < pcm.length; i++) samples[i] = pcm[i] / 0x8000;
+    this.add(this.user, resample(samples, sampleRate, RECORDING_SAMPLE_RATE), at);
+  }
+
+  /** Adds model audio that starts playing at `at` (ms since epoch). */
+  addModelAudio(samples: Float32Array, sampleRate: number, at: number) {
+    this.add(this.ai, resample(samples, sampleRate, RECORDING_SAMPLE_RATE), at);
+  }
+
+  /** Drops model audio that was scheduled but never played, e.g. after a barge-in. */
+  truncateModelAudio(at: number) {
+    const cut = this.toOffset(at);
+    this.ai = this.ai
+      .filter(clip => clip.offset < cut)
+      .map(clip => clip.offset + clip.samples.length > cut
+        ? { ...clip, samples: clip.samples.subarray(0, cut - clip.offset) }
+        : clip);
+  }
+
+  toWav(): Blob {
+    const length = Math.max(0, ...[...this.user, ...this.ai].map(clip => clip.offset + clip.samples.length));
+    const left = mixdown(this.user, length);
+    const right = mixdown(this.ai, length);
+    return encodeWav([left, right], RECORDING_SAMPLE_RATE);
+  }
+
+  private add(track: Clip[], samples: Float32Array, at: number) {
+    // Audio from before the recording started (e.g. pre-roll) is clipped to zero
+    const offset = this.toOffset(at);
+    const skip = Math.max(0, -offset);
+    if (skip >= samples.length) return;
+    track.push({ offset: offset + skip, samples: samples.subarray(skip) });
+  }
+
+  private toOffset(at: number) {
+    return Math.round(((at - this.startedAt) / 1000) * RECORDING_SAMPLE_RATE);
+  }
+}
+
+function resample(samples: Float32Array, from: number, to: number) {
+  if (from === to) return samples;
+  const ratio = from / to;
+  const out = new Float32Array(Math.floor(samples.length / ratio));
+  for (let i = 0; i < out.length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const a = samples[index];
+    const b = samples[Math.min(index + 1, samples.length - 1)];
+    out[i] = a + (b - a) * (position - index);
+  }
+  return out;
+}
+
+// Overlapping clips are summed rather than overwritten.
+function mixdown(clips: Clip[], length: number) {
+  const out = new Float32Array(length);
+  for (const { offset, samples } of clips) {
+    for (let i = 0; i < samples.length; i++) out[offset + i] += samples[i];
+  }
+  return out;
+}
+
+function encodeWav(channels: Float32Array[], sampleRate: number) {
+  const frames = channels[0]?.length ?? 0;
+  const blockAlign = channels.length * 2;
+  const dataSize = frames * blockAlign;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels.length, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  for (let i = 0; i < frames; i++) {
+    for (const channel of channels) {
+      const sample = Math.max(-1, Math.min(1, channel[i]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += 2;
+    }
+  }
+  return new Blob([view], { type: 'audio/wav' });
+}
@@ -0,0 +1,119 @@
+import { Message } from '../types';
+import { sourceLabel } from '../tools/knowledgeTool';
+
+export type ExportFormat = 'json' | 'markdown' | 'vtt' | 'srt';
+
+export interface TranscriptMeta {
+  title: string;
+  assistantName: string;
+  // Time origin for offsets and captions, in ms since epoch. Use the
+  // recording's start so captions line up with the exported WAV.
+  startedAt: number;
+}
+
+// Labels are translated, as `export.<format>`
+export const EXPORT_FORMATS: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  json: { extension: 'json', mimeType: 'application/json' },
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  vtt: { extension: 'vtt', mimeType: 'text/vtt' },
+  srt: { extension: 'srt', mimeType: 'application/x-subrip' },
+};
+
+// Captions for turns without a recorded end are shown for roughly as long as it takes to say them.
+const MS_PER_WORD = 400;
+const MIN_CAPTION_MS = 1500;
+
+export function formatTranscript(format: ExportFormat, messages: Message[], meta: TranscriptMeta): string {
+  switch (format) {
+    case 'json':
+      return toJson(messages, meta);
+    case 'markdown':
+      return toMarkdown(messages, meta);
+    case 'vtt':
+      return toCaptions(messages, meta, 'vtt');
+    case 'srt':
+      return toCaptions(messages, meta, 'srt');
+  }
+}
+
+function toJson(messages: Message[], meta: TranscriptMeta) {
+  return JSON.stringify({
+    title: meta.title,
+    startedAt: new Date(meta.startedAt).toISOString(),
+    turns: messages.map(message => ({
+      role: message.role,
+      text: message.text,
+      start: (message.createdAt - meta.startedAt) / 1000,
+      end: message.endedAt !== undefined ? (message.endedAt - meta.startedAt) / 1000 : undefined,
+      source: message.source,
+      status: message.status,
+      emotion: message.emotion,
+      pinned: message.pinned,
+      tool: message.tool,
+      attachments: message.attachments,
+      citations: message.citations,
+    })),
+  }, null, 2);
+}
+
+function toMarkdown(messages: Message[], meta: TranscriptMeta) {
+  const lines = [`# ${meta.title}`, '', `_${new Date(meta.startedAt).toLocaleString()}_`, ''];
+  for (const message of messages) {
+    const time = formatOffset(message.createdAt - meta.startedAt);
+    if (message.role === 'tool') {
+      lines.push(`> \`${time}\` 🔧 \`${message.text}\``, '');
+    } else {
+      const speaker = message.role === 'user' ? 'You' : meta.assistantName;
+      lines.push(`**${speaker}** \`${time}\`${message.status === 'interrupted' ? ' _(cut off)_' : ''}`, '', message.text, '');
+      message.attachments?.forEach(name => lines.push(`📎 ${name}`, ''));
+      if (message.citations?.length) {
+        lines.push(`_Sources: ${message.citations.map(sourceLabel).join('; ')}_`, '');
+      }
+    }
+  }
+  return lines.join('\n');
+}
+
+function toCaptions(messages: Message[], meta: TranscriptMeta, format: 'vtt' | 'srt') {
+  const spoken = messages.filter(message => message.role !== 'tool');
+  const cues = spoken.map((message, i) => {
+    const start = Math.max(0, message.createdAt - meta.startedAt);
+    const estimatedEnd = start + Math.max(MIN_CAPTION_MS, message.text.split(/\s+/).length * MS_PER_WORD);
+    const next = spoken[i + 1] ? spoken[i + 1].createdAt - meta.startedAt : Infinity;
+    const end = message.endedAt !== undefined
+      ? Math.max(start + 1, message.endedAt - meta.startedAt)
+      : Math.max(start + 1, Math.min(estimatedEnd, next));
+    const speaker = message.role === 'user' ? 'You' : meta.assistantName;
+    const text = format === 'vtt' ? `<v ${speaker}>${escapeVtt(message.text)}` : `${speaker}: ${message.text}`;
+    return { start, end, text };
+  });
+
+  if (format === 'vtt') {
+    return ['WEBVTT', '', ...cues.flatMap(cue => [
+      `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}`, cue.text, '',
+    ])].join('\n');
+  }
+  return cues.flatMap((cue, i) => [
+    String(i + 1), `${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}`, cue.text, '',
+  ]).join('\n');
+}
+
+// hh:mm:ss.mmm (WebVTT) or hh:mm:ss,mmm (SRT)
+function formatTimestamp(ms: number, separator: '.' | ',') {
+  const total = Math.round(ms);
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor(total / 60000) % 60;
+  const seconds = Math.floor(total / 1000) % 60;
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(total % 1000, 3)}`;
+}
+
+// m:ss for the Markdown transcript
+function formatOffset(ms: number) {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+function escapeVtt(text: string) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -0,0 +1,16 @@
+// Fired on `window` when the server says the browser isn't signed in, e.g. after the session expired.
+export const UNAUTHORIZED_EVENT = "luca:unauthorized";
+
+// Shared fetch helper for the app's own REST endpoints.
+export async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    if (res.status === 401) window.dispatchEvent(new Event(UNAUTHORIZED_EVENT));
+    throw new Error(body?.error || `Request failed with status ${res.status}`);
+  }
+  return (res.status === 204 ? undefined : await res.json()) as T;
+}
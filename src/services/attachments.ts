@@ -0,0 +1,47 @@
+import { Part } from "@google/genai";
+import { stripDataUrl } from "./videoCapture";
+
+export interface Attachment {
+  name: string;
+  mimeType: string;
+  // What is sent to the model alongside the message text.
+  part: Part;
+}
+
+// Larger text files would crowd out the conversation in the model's context.
+const MAX_TEXT_FILE_SIZE = 100 * 1024;
+const MAX_IMAGE_SIZE = 1024;
+const TEXT_TYPES = /^(text\/|application\/(json|xml|javascript|x-yaml|yaml))/;
+
+/** Turns a dropped or picked file into a message part: images are downscaled to JPEG, text is inlined. */
+export async function readAttachment(file: File): Promise<Attachment> {
+  if (file.type.startsWith("image/")) {
+    return {
+      name: file.name,
+      mimeType: "image/jpeg",
+      part: { inlineData: { mimeType: "image/jpeg", data: await encodeImage(file) } },
+    };
+  }
+  if (TEXT_TYPES.test(file.type) || /\.(md|txt|csv|json|ya?ml|log)$/i.test(file.name)) {
+    if (file.size > MAX_TEXT_FILE_SIZE) {
+      throw new Error(`${file.name} is too large; text files can be up to ${MAX_TEXT_FILE_SIZE / 1024} KB`);
+    }
+    return {
+      name: file.name,
+      mimeType: file.type || "text/plain",
+      part: { text: `Attached file ${file.name}:\n${await file.text()}` },
+    };
+  }
+  throw new Error(`${file.name} can't be attached; use an image or a text file`);
+}
+
+async function encodeImage(file: File) {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_IMAGE_SIZE / bitmap.width, MAX_IMAGE_SIZE / bitmap.height);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext("2d")!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return stripDataUrl(canvas.toDataURL("image/jpeg", 0.8));
+}
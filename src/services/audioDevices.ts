@@ -0,0 +1,27 @@
+export interface AudioDevices {
+  inputs: MediaDeviceInfo[];
+  outputs: MediaDeviceInfo[];
+}
+
+/**
+ * Lists microphones and speakers. Labels are empty until the page has been
+ * granted microphone access at least once.
+ */
+export async function listAudioDevices(): Promise<AudioDevices> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return {
+    inputs: devices.filter(device => device.kind === "audioinput"),
+    outputs: devices.filter(device => device.kind === "audiooutput"),
+  };
+}
+
+// Output selection needs AudioContext.setSinkId, which not every browser has.
+export function supportsOutputSelection() {
+  return typeof AudioContext !== "undefined" && "setSinkId" in AudioContext.prototype;
+}
+
+/** Calls `listener` when devices are plugged in or removed. Returns an unsubscribe function. */
+export function onDeviceChange(listener: () => void) {
+  navigator.mediaDevices.addEventListener("devicechange", listener);
+  return () => navigator.mediaDevices.removeEventListener("devicechange", listener);
+}
@@ -0,0 +1,30 @@
+import { User } from "../types";
+import { request } from "./api";
+
+const BASE = "/api/auth";
+
+export interface SignedOut {
+  // Whether this server lets visitors create their own accounts.
+  signupOpen: boolean;
+}
+
+/** The signed-in user, or why there isn't one. */
+export async function getCurrentUser(): Promise<User | SignedOut> {
+  const res = await fetch(`${BASE}/me`);
+  const body = await res.json().catch(() => null);
+  if (res.status === 401) return { signupOpen: body?.signupOpen === true };
+  if (!res.ok) throw new Error(body?.error || `Request failed with status ${res.status}`);
+  return body as User;
+}
+
+export function signIn(username: string, password: string) {
+  return request<User>(`${BASE}/login`, { method: "POST", body: JSON.stringify({ username, password }) });
+}
+
+export function register(username: string, password: string) {
+  return request<User>(`${BASE}/register`, { method: "POST", body: JSON.stringify({ username, password }) });
+}
+
+export function signOut() {
+  return request<void>(`${BASE}/logout`, { method: "POST" });
+}
@@ -0,0 +1,26 @@
+import { KnowledgeHit, Persona } from "../types";
+import { request } from "./api";
+
+/** A persona as served to widgets on other origins by the LUCA server at `server`. */
+export function fetchEmbedPersona(server: string, token: string, id: string) {
+  return request<Persona>(`${server}/api/embed/personas/${encodeURIComponent(id)}`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+}
+
+/** Knowledge base search for widgets, from any origin with a relay token. */
+export function searchEmbedKnowledge(server: string, token: string, query: string) {
+  return request<KnowledgeHit[]>(`${server}/api/embed/knowledge/search?q=${encodeURIComponent(query)}`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+}
+
+/**
+ * Asks the host page's own server for a relay token. That endpoint is the
+ * host's to write: it calls `POST /api/embed/token` on the LUCA server with
+ * the embed secret and passes `{ token }` back.
+ */
+export async function fetchEmbedToken(tokenUrl: string) {
+  const { token } = await request<{ token: string }>(tokenUrl, { method: "POST", credentials: "include" });
+  return token;
+}
@@ -0,0 +1,47 @@
+import { Message, SessionDetail, SessionSummary } from "../types";
+import { request } from "./api";
+
+const BASE = "/api/sessions";
+
+export function listSessions(query?: string) {
+  const search = query ? `?q=${encodeURIComponent(query)}` : "";
+  return request<SessionSummary[]>(`${BASE}${search}`);
+}
+
+export function getSession(id: string) {
+  return request<SessionDetail>(`${BASE}/${encodeURIComponent(id)}`);
+}
+
+export function createSession(id?: string) {
+  return request<SessionSummary>(BASE, { method: "POST", body: JSON.stringify({ id }) });
+}
+
+export function appendMessage(sessionId: string, message: Message) {
+  return request<Message>(`${BASE}/${encodeURIComponent(sessionId)}/messages`, {
+    method: "POST",
+    body: JSON.stringify(message),
+  });
+}
+
+export function setMessagePinned(sessionId: string, messageId: string, pinned: boolean) {
+  return request<void>(`${BASE}/${encodeURIComponent(sessionId)}/messages/${encodeURIComponent(messageId)}`, {
+    method: "PATCH",
+    body: JSON.stringify({ pinned }),
+  });
+}
+
+export function getRecordingUrl(sessionId: string) {
+  return `${BASE}/${encodeURIComponent(sessionId)}/recording`;
+}
+
+export function saveRecording(sessionId: string, wav: Blob, startedAt: number) {
+  return request<void>(`${getRecordingUrl(sessionId)}?startedAt=${startedAt}`, {
+    method: "PUT",
+    headers: { "Content-Type": "audio/wav" },
+    body: wav,
+  });
+}
+
+export function deleteSession(id: string) {
+  return request<void>(`${BASE}/${encodeURIComponent(id)}`, { method: "DELETE" });
+}
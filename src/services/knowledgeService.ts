@@ -0,0 +1,27 @@
+import { KnowledgeDocument, KnowledgeHit } from "../types";
+import { request } from "./api";
+
+const BASE = "/api/knowledge";
+
+export function listDocuments() {
+  return request<KnowledgeDocument[]>(BASE);
+}
+
+/** Uploads a Markdown, text or PDF file to be chunked and indexed. */
+export function uploadDocument(file: File) {
+  return request<KnowledgeDocument>(`${BASE}?name=${encodeURIComponent(file.name)}`, {
+    method: "POST",
+    // Browsers leave the type empty for .md files; the server falls back to the extension
+    headers: { "Content-Type": file.type || "application/octet-stream" },
+    body: file,
+  });
+}
+
+export function deleteDocument(id: string) {
+  return request<void>(`${BASE}/${encodeURIComponent(id)}`, { method: "DELETE" });
+}
+
+export function searchKnowledge(query: string, limit?: number) {
+  const params = new URLSearchParams({ q: query, ...(limit ? { limit: String(limit) } : {}) });
+  return request<KnowledgeHit[]>(`${BASE}/search?${params}`);
+}
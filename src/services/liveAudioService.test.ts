@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { LiveAudioService } from "./liveAudioService";
+import { BUILTIN_PERSONAS } from "../personas/personas";
+import { FakeAudioWorkletNode, installFakeAudio, pcmFrame } from "../test/fakeAudio";
+
+const persona = BUILTIN_PERSONAS[0];
+const options = { variables: { interruptionRule: "Stop when interrupted.", toolsRule: "Use tools." } };
+
+// A Live client whose sockets open when the test says so
+function createClient() {
+  const opens: (() => void)[] = [];
+  const session = { close: vi.fn(), sendRealtimeInput: vi.fn(), sendClientContent: vi.fn() };
+  const client = {
+    live: {
+      connect: vi.fn(({ callbacks }: any) => new Promise(resolve => opens.push(() => {
+        callbacks.onopen?.();
+        resolve(session);
+      }))),
+    },
+  };
+  return { client: client as any, session, open: () => opens.shift()!() };
+}
+
+let audio: ReturnType<typeof installFakeAudio>;
+
+beforeEach(() => {
+  audio = installFakeAudio();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("LiveAudioService", () => {
+  it("resolves connect once the session opens", async () => {
+    const { client, open } = createClient();
+    const service = new LiveAudioService({ client });
+    const states: string[] = [];
+    const connecting = service.connect({ onmessage: () => {}, onstatechange: state => states.push(state) }, persona, options);
+    await vi.waitFor(() => expect(client.live.connect).toHaveBeenCalled());
+    open();
+    await connecting;
+    expect(states).toEqual(["connecting", "open"]);
+  });
+
+  it("rejects connect with an AbortError when disconnected while connecting", async () => {
+    const { client, session, open } = createClient();
+    const service = new LiveAudioService({ client });
+    const states: string[] = [];
+    const connecting = service.connect({ onmessage: () => {}, onstatechange: state => states.push(state) }, persona, options);
+    await vi.waitFor(() => expect(client.live.connect).toHaveBeenCalled());
+    await service.disconnect();
+    open();
+
+    await expect(connecting).rejects.toMatchObject({ name: "AbortError" });
+    expect(session.close).toHaveBeenCalled();
+    expect(states).toEqual(["connecting", "closed"]);
+  });
+
+  it("releases a mic that opens after it was stopped", async () => {
+    let grant!: () => void;
+    audio.getUserMedia.mockImplementationOnce(() => new Promise(resolve => {
+      grant = () => resolve({ getTracks: () => [audio.track], getAudioTracks: () => [audio.track] } as unknown as MediaStream);
+    }));
+    const service = new LiveAudioService({ client: createClient().client });
+    const starting = service.startMicrophone();
+    await vi.waitFor(() => expect(grant).toBeDefined());
+    service.stopMicrophone();
+    grant();
+
+    await expect(starting).rejects.toMatchObject({ name: "AbortError" });
+    expect(audio.track.stop).toHaveBeenCalled();
+    expect(service.inputAnalyser).toBeNull();
+  });
+
+  it("reports the end of a spoken turn as when the speech stopped, not when the VAD gave up", async () => {
+    const { client, open } = createClient();
+    const service = new LiveAudioService({ client });
+    const activity: [boolean, number][] = [];
+    const connecting = service.connect({ onmessage: () => {}, onvoiceactivity: (active, at) => activity.push([active, at]) }, persona, options);
+    await vi.waitFor(() => expect(client.live.connect).toHaveBeenCalled());
+    open();
+    await connecting;
+    await service.startMicrophone();
+
+    // 128ms frames: one of speech, then five of silence to outlast the 600ms hangover
+    const mic = FakeAudioWorkletNode.instances.at(-1)!;
+    mic.capture(pcmFrame(true));
+    for (let i = 0; i < 5; i++) mic.capture(pcmFrame(false));
+
+    expect(activity.map(([active]) => active)).toEqual([true, false]);
+    expect(Date.now() - activity[1][1]).toBeGreaterThanOrEqual(600);
+  });
+});
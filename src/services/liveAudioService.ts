@@ -1,100 +1,648 @@
-import { GoogleGenAI, LiveServerMessage, Modality } from "@google/genai";
+import {
+  ActivityHandling,
+  Content,
+  FunctionDeclaration,
+  FunctionResponse,
+  GoogleGenAI,
+  LiveConnectConfig,
+  LiveServerMessage,
+  Modality,
+  Part,
+} from "@google/genai";
+import pcmCaptureWorkletUrl from "./worklets/pcmCapture.worklet.ts?worker&url";
+import type { PcmCaptureOptions } from "./worklets/pcmCapture.worklet";
+import { VoiceActivityDetector, VoiceActivityDetectorOptions } from "./voiceActivityDetector";
+import { VideoCapture, VideoCaptureOptions, VideoSource } from "./videoCapture";
+import { renderSystemInstruction } from "../personas/personas";
+import { AudioSettings, Persona } from "../types";
+
+// The server relays Live sessions under this path and injects the real API key.
+export const LIVE_RELAY_PATH = "/live";
+
+const INPUT_SAMPLE_RATE = 16000;
+const DEFAULT_FRAME_SIZE = 2048; // 128ms at 16kHz
+// Frames held back while the user is silent and sent once they start talking,
+// so the first syllable isn't lost to the detector's onset delay.
+const PRE_ROLL_FRAMES = 3;
+
+interface CapturedFrame {
+  buffer: ArrayBuffer;
+  // ms since epoch
+  capturedAt: number;
+}
+
+// hands-free: the local VAD decides when the user is talking.
+// push-to-talk: only audio captured while `setPushToTalk(true)` is sent.
+// mute: nothing is sent.
+export type InputMode = "hands-free" | "push-to-talk" | "mute";
+
+export interface LiveAudioServiceOptions {
+  relayUrl?: string;
+  // Injected for tests; defaults to an SDK client pointed at `relayUrl`.
+  client?: Pick<GoogleGenAI, "live">;
+  // Fetches a relay token before each connection attempt, for pages on another
+  // origin than the relay (see the embed widget). Without it a placeholder key is sent.
+  getToken?: () => Promise<string>;
+  // Samples per microphone chunk sent to the Live API, at 16kHz.
+  frameSize?: number;
+  inputMode?: InputMode;
+  vad?: VoiceActivityDetectorOptions;
+  audio?: Partial<AudioSettings>;
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  inputDeviceId: "",
+  outputDeviceId: "",
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  inputGain: 1,
+};
+
+/** getUserMedia constraints for the microphone part of `settings`. */
+export function microphoneConstraints(settings: AudioSettings): MediaStreamConstraints {
+  return {
+    audio: {
+      deviceId: settings.inputDeviceId ? { exact: settings.inputDeviceId } : undefined,
+      echoCancellation: settings.echoCancellation,
+      noiseSuppression: settings.noiseSuppression,
+      autoGainControl: settings.autoGainControl,
+      channelCount: 1,
+    },
+  };
+}
+
+export interface ConnectOptions {
+  // When true the user's speech cuts LUCA off (barge-in); otherwise LUCA finishes its turn.
+  allowInterruptions?: boolean;
+  // Function declarations the model may call; see ToolRegistry.
+  tools?: FunctionDeclaration[];
+  // Runtime values for the persona's system instruction template.
+  variables?: Record<string, string>;
+  // What LUCA remembers about the user, appended to the system instruction whatever the persona.
+  memory?: string;
+  // Speech language and voice to use instead of the persona's, e.g. from the language picker.
+  languageCode?: string;
+  voice?: string;
+  // Which language to reply in, appended to the system instruction whatever the persona.
+  languageRule?: string;
+  // Recent conversation, replayed to a fresh session when a dropped one cannot be resumed.
+  getContext?: () => Content[];
+  // Let the server summarize old turns instead of ending long sessions.
+  compressContext?: boolean;
+  reconnect?: Partial<ReconnectPolicy>;
+  // Leave turn detection to the server's VAD instead of sending activityStart/activityEnd.
+  // Audio is still gated by the input mode.
+  serverActivityDetection?: boolean;
+}
+
+export interface ReconnectPolicy {
+  maxAttempts: number;
+  // Backoff is baseDelay * 2^attempt (with jitter), capped at maxDelay. In ms.
+  baseDelay: number;
+  maxDelay: number;
+}
+
+/** The persona's rendered instruction with the app's language rule and memories; text chat uses it too. */
+export function systemInstructionFor(persona: Persona, options: Pick<ConnectOptions, 'variables' | 'languageRule' | 'memory'>) {
+  return [renderSystemInstruction(persona, options.variables), options.languageRule, options.memory]
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = { maxAttempts: 5, baseDelay: 500, maxDelay: 10000 };
+
+export type ConnectionState = "idle" | "connecting" | "open" | "reconnecting" | "closed" | "failed";
+
+export interface ConnectionStateInfo {
+  // Reconnect attempt number, starting at 1.
+  attempt?: number;
+  // When the next attempt starts, in ms since epoch.
+  retryAt?: number;
+  error?: Error;
+  // True when the new session picked up the old one's server-side state.
+  resumed?: boolean;
+}
+
+export interface LiveCallbacks {
+  onmessage: (message: LiveServerMessage) => void;
+  onstatechange?: (state: ConnectionState, info: ConnectionStateInfo) => void;
+  // The user started or stopped talking, as far as audio being sent is concerned. `at`
+  // (ms since epoch) is when: for the end of a spoken turn, when its last voiced audio
+  // was captured, since the VAD only calls it over after a stretch of silence.
+  onvoiceactivity?: (active: boolean, at: number) => void;
+  // Microphone audio as it is sent, with when it was captured (ms since epoch).
+  oninputaudio?: (pcm: Int16Array, sampleRate: number, capturedAt: number) => void;
+}
+
+// Close codes the server uses for requests that will never succeed (bad setup, bad key).
+const FATAL_CLOSE_CODES = new Set([1007, 1008]);
+
+class ConnectionClosedError extends Error {
+  constructor(readonly code: number, reason: string) {
+    super(reason || `Connection closed (code ${code})`);
+    this.name = "ConnectionClosedError";
+  }
+}
 
 export class LiveAudioService {
-  private ai: GoogleGenAI;
+  private ai: Pick<GoogleGenAI, "live">;
+  private relayUrl: string;
+  private getToken?: () => Promise<string>;
   private session: any = null;
   private audioContext: AudioContext | null = null;
-  private processor: ScriptProcessorNode | null = null;
   private source: MediaStreamAudioSourceNode | null = null;
   private stream: MediaStream | null = null;
   private workletNode: AudioWorkletNode | null = null;
+  private gainNode: GainNode | null = null;
+  private analyser: AnalyserNode | null = null;
+  private video: VideoCapture | null = null;
+  private frameSize: number;
+  private audioSettings: AudioSettings;
+
+  private mode: InputMode;
+  private vad: VoiceActivityDetector;
+  private talkPressed = false;
+  private userActive = false;
+  // Whether activityStart was sent on the current session without a matching activityEnd.
+  private activityOpen = false;
+  private preRoll: CapturedFrame[] = [];
+  // Incremented by stopMicrophone, so a start still waiting on the browser knows it was cancelled.
+  private micGeneration = 0;
+
+  private state: ConnectionState = "idle";
+  private callbacks: LiveCallbacks | null = null;
+  private persona: Persona | null = null;
+  private options: ConnectOptions = {};
+  private policy: ReconnectPolicy = DEFAULT_RECONNECT_POLICY;
+  // Incremented per socket so events from a replaced socket are ignored.
+  private generation = 0;
+  private resumptionHandle: string | null = null;
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: LiveAudioServiceOptions = {}) {
+    this.relayUrl = options.relayUrl ?? `${window.location.origin}${LIVE_RELAY_PATH}`;
+    this.getToken = options.getToken;
+    // The key is a placeholder; the relay replaces it before talking to Gemini.
+    this.ai = options.client ?? new GoogleGenAI({ apiKey: "relay", httpOptions: { baseUrl: this.relayUrl } });
+    this.frameSize = options.frameSize ?? DEFAULT_FRAME_SIZE;
+    this.mode = options.inputMode ?? "hands-free";
+    this.vad = new VoiceActivityDetector({ ...options.vad, sampleRate: INPUT_SAMPLE_RATE });
+    this.audioSettings = { ...DEFAULT_AUDIO_SETTINGS, ...options.audio };
+  }
+
+  /** Microphone level after input gain, for meters and the visualizer. Null while the mic is off. */
+  get inputAnalyser() {
+    return this.analyser;
+  }
 
-  constructor() {
-    this.ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
-  }
-
-  async connect(callbacks: {
-    onopen?: () => void;
-    onmessage: (message: LiveServerMessage) => void;
-    onerror?: (error: any) => void;
-    onclose?: () => void;
-  }, systemInstruction: string) {
-    this.session = await this.ai.live.connect({
-      model: "gemini-2.5-flash-native-audio-preview-09-2025",
-      callbacks,
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: { prebuiltVoiceConfig: { voiceName: "Zephyr" } },
-        },
-        systemInstruction,
-        inputAudioTranscription: {},
-        outputAudioTranscription: {},
+  get connectionState() {
+    return this.state;
+  }
+
+  get inputMode() {
+    return this.mode;
+  }
+
+  setInputMode(mode: InputMode) {
+    if (mode === this.mode) return;
+    this.mode = mode;
+    this.talkPressed = false;
+    this.vad.reset();
+    this.preRoll = [];
+    this.setUserActive(false);
+  }
+
+  /** Holds or releases the push-to-talk button. Ignored in other modes. */
+  setPushToTalk(pressed: boolean) {
+    if (this.mode !== "push-to-talk" || pressed === this.talkPressed) return;
+    this.talkPressed = pressed;
+    // Releasing ends the turn straight away rather than on the next frame
+    if (!pressed) this.setUserActive(false);
+  }
+
+  /**
+   * Opens a Live session for `persona`. Resolves once the first session is open;
+   * after that, dropped connections are retried with backoff and reported through
+   * `onstatechange` until `disconnect` is called.
+   */
+  async connect(callbacks: LiveCallbacks, persona: Persona, options: ConnectOptions = {}) {
+    this.callbacks = callbacks;
+    this.persona = persona;
+    this.options = options;
+    this.policy = { ...DEFAULT_RECONNECT_POLICY, ...options.reconnect };
+    this.resumptionHandle = null;
+    this.reconnectAttempt = 0;
+    this.setState("connecting");
+    try {
+      await this.openSession();
+      this.setState("open");
+    } catch (err) {
+      // disconnect() while connecting has already reported the session closed
+      if (this.state !== "closed") this.setState("failed", { error: toError(err) });
+      throw err;
+    }
+  }
+
+  private buildConfig(): LiveConnectConfig {
+    const persona = this.persona!;
+    const options = this.options;
+    return {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: {
+        voiceConfig: { prebuiltVoiceConfig: { voiceName: options.voice || persona.voice } },
+        languageCode: options.languageCode || persona.languageCode || undefined,
       },
+      systemInstruction: systemInstructionFor(persona, options),
+      realtimeInputConfig: {
+        activityHandling: options.allowInterruptions
+          ? ActivityHandling.START_OF_ACTIVITY_INTERRUPTS
+          : ActivityHandling.NO_INTERRUPTION,
+        automaticActivityDetection: { disabled: !options.serverActivityDetection },
+      },
+      tools: options.tools?.length ? [{ functionDeclarations: options.tools }] : undefined,
+      // An empty handle asks the server to start sending resumption updates.
+      sessionResumption: this.resumptionHandle ? { handle: this.resumptionHandle } : {},
+      contextWindowCompression: options.compressContext === false ? undefined : { slidingWindow: {} },
+      inputAudioTranscription: {},
+      outputAudioTranscription: {},
+    };
+  }
+
+  // The SDK only resolves `live.connect` once the socket opens, so a socket that
+  // fails first would leave it pending forever; reject on close instead. A socket
+  // that opens after disconnect() or a newer attempt is closed, rejecting with an AbortError.
+  private async openSession() {
+    const generation = ++this.generation;
+    // Tokens are short-lived, so every attempt gets a fresh one
+    const ai = this.getToken
+      ? new GoogleGenAI({ apiKey: await this.getToken(), httpOptions: { baseUrl: this.relayUrl } })
+      : this.ai;
+    return new Promise<void>((resolve, reject) => {
+      let opened = false;
+      ai.live
+        .connect({
+          model: this.persona!.model,
+          config: this.buildConfig(),
+          callbacks: {
+            onopen: () => {
+              opened = true;
+            },
+            onmessage: (message: LiveServerMessage) => {
+              if (generation === this.generation) this.handleMessage(message);
+            },
+            onerror: (e: ErrorEvent) => {
+              console.error("Live API Error:", e);
+            },
+            onclose: (e: CloseEvent) => {
+              if (!opened) {
+                reject(new ConnectionClosedError(e.code, e.reason));
+              } else if (generation === this.generation) {
+                this.session = null;
+                this.handleDrop(new ConnectionClosedError(e.code, e.reason));
+              }
+            },
+          },
+        })
+        .then((session) => {
+          if (generation !== this.generation) {
+            session.close();
+            reject(abortError("Connection cancelled"));
+            return;
+          }
+          this.session = session;
+          this.activityOpen = false;
+          resolve();
+        }, reject);
     });
-    return this.session;
   }
 
-  async sendText(text: string) {
+  private handleMessage(message: LiveServerMessage) {
+    const update = message.sessionResumptionUpdate;
+    if (update?.resumable && update.newHandle) {
+      this.resumptionHandle = update.newHandle;
+    }
+    if (message.goAway) {
+      // The server is about to end this socket; move to a new one before it does.
+      console.log("Live server sent goAway, time left:", message.goAway.timeLeft);
+      this.handleDrop(new Error("Server requested reconnect"));
+    }
+    this.callbacks?.onmessage(message);
+  }
+
+  private handleDrop(error: Error) {
+    if (this.state === "closed" || this.state === "reconnecting") return;
+    if (error instanceof ConnectionClosedError && FATAL_CLOSE_CODES.has(error.code)) {
+      this.setState("failed", { error });
+      return;
+    }
+    // Retire the old socket; its late events are ignored from here on.
+    this.generation++;
+    const old = this.session;
+    this.session = null;
+    old?.close();
+    this.scheduleReconnect(error);
+  }
+
+  private scheduleReconnect(error: Error) {
+    if (this.reconnectAttempt >= this.policy.maxAttempts) {
+      this.setState("failed", { error });
+      return;
+    }
+    const attempt = ++this.reconnectAttempt;
+    // The first retry is immediate: most drops are goAway or a transient blip.
+    const backoff = attempt === 1 ? 0 : Math.min(this.policy.maxDelay, this.policy.baseDelay * 2 ** (attempt - 1));
+    const delay = backoff * (0.8 + Math.random() * 0.4);
+    this.setState("reconnecting", { attempt, retryAt: Date.now() + delay, error });
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      const resumed = this.resumptionHandle !== null;
+      try {
+        await this.openSession();
+      } catch (err) {
+        if (this.state !== "reconnecting") return;
+        const reason = toError(err);
+        if (reason instanceof ConnectionClosedError && FATAL_CLOSE_CODES.has(reason.code)) {
+          if (!resumed) {
+            this.setState("failed", { error: reason });
+            return;
+          }
+          // A stale handle is rejected like a bad setup; retry without it.
+          this.resumptionHandle = null;
+        }
+        this.scheduleReconnect(reason);
+        return;
+      }
+      if (this.state !== "reconnecting") return;
+      if (!resumed) this.replayContext();
+      this.reconnectAttempt = 0;
+      this.setState("open", { resumed });
+    }, delay);
+  }
+
+  // Without a resumption handle the new session starts blank, so give it the recent transcript.
+  private replayContext() {
+    const turns = this.options.getContext?.() ?? [];
+    if (turns.length === 0 || !this.session) return;
+    this.session.sendClientContent({ turns, turnComplete: false });
+  }
+
+  private setState(state: ConnectionState, info: ConnectionStateInfo = {}) {
+    this.state = state;
+    this.callbacks?.onstatechange?.(state, info);
+  }
+
+  /** Sends a typed message, optionally with attachment parts (images, files) as one user turn. */
+  async sendText(text: string, parts: Part[] = []) {
     if (!this.session) return;
-    this.session.sendRealtimeInput({
-      text
+    if (parts.length === 0) {
+      this.session.sendRealtimeInput({
+        text
+      });
+      return;
+    }
+    this.session.sendClientContent({
+      turns: [{ role: "user", parts: text ? [...parts, { text }] : parts }],
+      turnComplete: true,
     });
   }
 
+  /**
+   * Streams JPEG frames from the camera or a shared screen to the session until
+   * `stopVideo`. Returns the stream for previews. `onEnded` fires if the user
+   * stops sharing through the browser instead.
+   */
+  async startVideo(source: VideoSource, options?: VideoCaptureOptions, onEnded?: () => void) {
+    this.stopVideo();
+    const capture = await VideoCapture.open(source, options);
+    this.video = capture;
+    capture.start(
+      jpeg => {
+        if (!this.session || this.video !== capture) return;
+        this.session.sendRealtimeInput({ video: { data: jpeg, mimeType: "image/jpeg" } });
+      },
+      () => {
+        if (this.video !== capture) return;
+        this.video = null;
+        onEnded?.();
+      }
+    );
+    return capture.stream;
+  }
+
+  stopVideo() {
+    this.video?.close();
+    this.video = null;
+  }
+
+  sendToolResponse(functionResponses: FunctionResponse[]) {
+    if (!this.session) return;
+    this.session.sendToolResponse({ functionResponses });
+  }
+
   async startMicrophone() {
+    const generation = this.micGeneration;
     try {
-      if (!this.audioContext) {
-        this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
+      const stream = await this.openMicrophone();
+      // stopMicrophone() (e.g. disconnect) ran while the browser was asking for the mic
+      if (generation !== this.micGeneration) {
+        stream.getTracks().forEach(track => track.stop());
+        throw abortError("Microphone stopped while it was opening");
       }
-      
-      if (this.audioContext.state === 'suspended') {
-        await this.audioContext.resume();
+      this.stream = stream;
+      this.watchTrackEnd(this.stream);
+      this.openCaptureContext(this.stream);
+      const audioContext = this.audioContext!;
+
+      if (audioContext.state === 'suspended') {
+        await audioContext.resume();
       }
 
-      this.stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      this.source = this.audioContext.createMediaStreamSource(this.stream);
-
-      this.processor = this.audioContext.createScriptProcessor(4096, 1, 1);
-      
-      this.processor.onaudioprocess = (e) => {
-        if (!this.session) return;
-        
-        const inputData = e.inputBuffer.getChannelData(0);
-        const pcmData = new Int16Array(inputData.length);
-        for (let i = 0; i < inputData.length; i++) {
-          pcmData[i] = Math.max(-1, Math.min(1, inputData[i])) * 0x7FFF;
-        }
-        
-        // More efficient base64 conversion
-        const uint8Array = new Uint8Array(pcmData.buffer);
-        const base64Data = btoa(String.fromCharCode.apply(null, uint8Array as any));
-
-        this.session.sendRealtimeInput({
-          media: { data: base64Data, mimeType: 'audio/pcm;rate=16000' }
-        });
+      await audioContext.audioWorklet.addModule(pcmCaptureWorkletUrl);
+      // Stopped while the worklet loaded; stopMicrophone has released the stream and context
+      if (generation !== this.micGeneration) throw abortError("Microphone stopped while it was opening");
+      const processorOptions: PcmCaptureOptions = {
+        frameSize: this.frameSize,
+        targetSampleRate: INPUT_SAMPLE_RATE,
       };
+      this.workletNode = new AudioWorkletNode(audioContext, "pcm-capture", {
+        numberOfInputs: 1,
+        numberOfOutputs: 1,
+        channelCount: 1,
+        channelCountMode: "explicit",
+        processorOptions,
+      });
 
-      this.source.connect(this.processor);
-      this.processor.connect(this.audioContext.destination);
+      this.workletNode.port.onmessage = (e: MessageEvent<ArrayBuffer>) => this.handleFrame(e.data);
+
+      this.gainNode = audioContext.createGain();
+      this.gainNode.gain.value = this.audioSettings.inputGain;
+      this.analyser = audioContext.createAnalyser();
+      this.analyser.fftSize = 64;
+      this.source!.connect(this.gainNode);
+      this.gainNode.connect(this.workletNode);
+      this.gainNode.connect(this.analyser);
+      // The worklet outputs silence; connecting it keeps it in the rendering graph.
+      this.workletNode.connect(audioContext.destination);
       return this.stream;
     } catch (err) {
-      console.error("Error starting microphone:", err);
+      if (generation === this.micGeneration) {
+        console.error("Error starting microphone:", err);
+        this.stopMicrophone();
+      }
       throw err;
     }
   }
 
+  private handleFrame(buffer: ArrayBuffer) {
+    const pcm = new Int16Array(buffer);
+    const frame = { buffer, capturedAt: Date.now() - (pcm.length / INPUT_SAMPLE_RATE) * 1000 };
+    const speaking = this.vad.process(pcm);
+    const active = this.mode === "hands-free" ? speaking : this.mode === "push-to-talk" && this.talkPressed;
+    const wasActive = this.userActive;
+    const now = Date.now();
+    this.setUserActive(active, this.mode === "hands-free" && !active ? now - this.vad.silence : now);
+
+    if (!active && !wasActive) {
+      this.preRoll.push(frame);
+      if (this.preRoll.length > PRE_ROLL_FRAMES) this.preRoll.shift();
+      return;
+    }
+    if (active && !this.activityOpen) this.sendActivityStart();
+    // A turn that just ended was already closed by setUserActive; its trailing silence is dropped
+    if (!active) return;
+    const frames = [...this.preRoll, frame];
+    this.preRoll = [];
+    frames.forEach(frame => this.sendAudio(frame));
+  }
+
+  private setUserActive(active: boolean, at = Date.now()) {
+    if (active === this.userActive) return;
+    this.userActive = active;
+    if (!active) this.endActivity();
+    this.callbacks?.onvoiceactivity?.(active, at);
+  }
+
+  private sendActivityStart() {
+    if (!this.session) return;
+    if (!this.options.serverActivityDetection) {
+      this.session.sendRealtimeInput({ activityStart: {} });
+    }
+    this.activityOpen = true;
+  }
+
+  private endActivity() {
+    if (!this.session || !this.activityOpen) return;
+    this.activityOpen = false;
+    // With server VAD, tell it the stream paused so it doesn't wait for more silence
+    this.session.sendRealtimeInput(
+      this.options.serverActivityDetection ? { audioStreamEnd: true } : { activityEnd: {} }
+    );
+  }
+
+  private sendAudio({ buffer, capturedAt }: CapturedFrame) {
+    if (!this.session) return;
+    this.session.sendRealtimeInput({
+      media: { data: toBase64(buffer), mimeType: `audio/pcm;rate=${INPUT_SAMPLE_RATE}` }
+    });
+    this.callbacks?.oninputaudio?.(new Int16Array(buffer), INPUT_SAMPLE_RATE, capturedAt);
+  }
+
+  /**
+   * Applies new microphone settings. Gain changes take effect immediately; a new
+   * device or processing options swap the input stream under the running capture
+   * graph, so the Live session is not interrupted.
+   */
+  async updateAudioSettings(settings: AudioSettings) {
+    const previous = this.audioSettings;
+    this.audioSettings = settings;
+    if (this.gainNode) this.gainNode.gain.value = settings.inputGain;
+
+    const needsNewStream = settings.inputDeviceId !== previous.inputDeviceId
+      || settings.echoCancellation !== previous.echoCancellation
+      || settings.noiseSuppression !== previous.noiseSuppression
+      || settings.autoGainControl !== previous.autoGainControl;
+    if (needsNewStream && this.stream) await this.swapInputStream();
+  }
+
+  private async swapInputStream() {
+    const stream = await this.openMicrophone();
+    // The mic may have been stopped while the new device was opening
+    if (!this.audioContext || !this.gainNode) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+    const source = this.audioContext.createMediaStreamSource(stream);
+    source.connect(this.gainNode);
+    this.source?.disconnect();
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.source = source;
+    this.stream = stream;
+    this.watchTrackEnd(stream);
+  }
+
+  // Falls back to the default mic when the chosen one is gone.
+  private async openMicrophone() {
+    try {
+      return await navigator.mediaDevices.getUserMedia(microphoneConstraints(this.audioSettings));
+    } catch (err) {
+      if (!this.audioSettings.inputDeviceId || toError(err).name !== "OverconstrainedError") throw err;
+      console.warn("Selected microphone unavailable, using the default:", err);
+      return navigator.mediaDevices.getUserMedia(microphoneConstraints({ ...this.audioSettings, inputDeviceId: "" }));
+    }
+  }
+
+  // An unplugged device ends its track; carry on with the system default.
+  private watchTrackEnd(stream: MediaStream) {
+    stream.getAudioTracks().forEach(track => {
+      track.onended = () => {
+        if (this.stream !== stream) return;
+        console.warn("Microphone disconnected, switching to the default device");
+        this.audioSettings = { ...this.audioSettings, inputDeviceId: "" };
+        this.swapInputStream().catch(err => console.error("Could not reopen the microphone:", err));
+      };
+    });
+  }
+
+  // Prefers a 16kHz context so no resampling is needed. Some browsers refuse to
+  // connect a microphone to a context at a different rate than the device; in
+  // that case fall back to the native rate and let the worklet resample.
+  private openCaptureContext(stream: MediaStream) {
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    try {
+      this.audioContext = new AudioContextClass({ sampleRate: INPUT_SAMPLE_RATE });
+      this.source = this.audioContext.createMediaStreamSource(stream);
+    } catch (err) {
+      console.warn("16kHz capture unavailable, resampling in the worklet:", err);
+      this.audioContext?.close();
+      this.audioContext = new AudioContextClass();
+      this.source = this.audioContext.createMediaStreamSource(stream);
+    }
+  }
+
   stopMicrophone() {
-    if (this.processor) {
-      this.processor.disconnect();
-      this.processor = null;
+    this.micGeneration++;
+    this.setUserActive(false);
+    this.vad.reset();
+    this.preRoll = [];
+    if (this.workletNode) {
+      this.workletNode.port.onmessage = null;
+      this.workletNode.disconnect();
+      this.workletNode = null;
     }
     if (this.source) {
       this.source.disconnect();
       this.source = null;
     }
+    this.gainNode = null;
+    this.analyser = null;
     if (this.stream) {
-      this.stream.getTracks().forEach(track => track.stop());
+      this.stream.getTracks().forEach(track => {
+        track.onended = null;
+        track.stop();
+      });
       this.stream = null;
     }
     if (this.audioContext) {
@@ -105,9 +653,36 @@ export class LiveAudioService {
 
   async disconnect() {
     this.stopMicrophone();
+    this.stopVideo();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.generation++;
+    const wasActive = this.state !== "idle" && this.state !== "closed";
+    this.state = "closed";
     if (this.session) {
       await this.session.close();
       this.session = null;
     }
+    if (wasActive) this.callbacks?.onstatechange?.("closed", {});
+  }
+}
+
+function toError(err: unknown) {
+  return err instanceof Error ? err : new Error(String(err));
+}
+
+function abortError(message: string) {
+  return new DOMException(message, "AbortError");
+}
+
+function toBase64(buffer: ArrayBuffer) {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+  // Chunked to stay under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
   }
+  return btoa(binary);
 }
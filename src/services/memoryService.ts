@@ -0,0 +1,30 @@
+import { Memory } from "../types";
+import { request } from "./api";
+
+const BASE = "/api/memories";
+
+export function listMemories() {
+  return request<Memory[]>(BASE);
+}
+
+/** The facts a new session should start out knowing. */
+export function getMemoryContext() {
+  return request<Memory[]>(`${BASE}/context`);
+}
+
+export function searchMemories(query: string, limit?: number) {
+  const params = new URLSearchParams({ q: query, ...(limit ? { limit: String(limit) } : {}) });
+  return request<Memory[]>(`${BASE}/search?${params}`);
+}
+
+export function saveMemory(text: string) {
+  return request<Memory>(BASE, { method: "POST", body: JSON.stringify({ text }) });
+}
+
+export function updateMemory(id: string, text: string) {
+  return request<Memory>(`${BASE}/${encodeURIComponent(id)}`, { method: "PUT", body: JSON.stringify({ text }) });
+}
+
+export function deleteMemory(id: string) {
+  return request<void>(`${BASE}/${encodeURIComponent(id)}`, { method: "DELETE" });
+}
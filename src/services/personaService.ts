@@ -0,0 +1,29 @@
+import { BUILTIN_PERSONAS } from "../personas/personas";
+import { Persona } from "../types";
+import { request } from "./api";
+
+const BASE = "/api/personas";
+
+/** Built-in personas, overridden by any saved copy with the same id, followed by custom ones. */
+export async function listPersonas(): Promise<Persona[]> {
+  const saved = await request<Persona[]>(BASE);
+  const savedById = new Map(saved.map(persona => [persona.id, persona]));
+  const builtins = BUILTIN_PERSONAS.map(persona =>
+    savedById.has(persona.id) ? { ...savedById.get(persona.id)!, builtin: true } : persona
+  );
+  const custom = saved.filter(persona => !BUILTIN_PERSONAS.some(builtin => builtin.id === persona.id));
+  return [...builtins, ...custom];
+}
+
+export function savePersona(persona: Persona) {
+  const { builtin, ...definition } = persona;
+  return request<Persona>(`${BASE}/${encodeURIComponent(persona.id)}`, {
+    method: "PUT",
+    body: JSON.stringify(definition),
+  });
+}
+
+/** Deletes a custom persona, or resets a built-in one to its shipped definition. */
+export function deletePersona(id: string) {
+  return request<void>(`${BASE}/${encodeURIComponent(id)}`, { method: "DELETE" });
+}
@@ -0,0 +1,174 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { PlaybackEngine, PlaybackEngineOptions } from "./playbackEngine";
+import { FakeAudioContext } from "../test/fakeAudio";
+
+const SAMPLE_RATE = 24000;
+const CHUNK = 0.1;
+
+// The audio clock and arrival clock move together, and only when the test says so
+let time = 0;
+let context: FakeAudioContext;
+
+const advance = (seconds: number) => {
+  time += seconds;
+  vi.advanceTimersByTime(seconds * 1000);
+};
+
+// Silent 16-bit PCM of the given length
+const chunk = (seconds = CHUNK) => new Uint8Array(Math.round(seconds * SAMPLE_RATE) * 2);
+
+function createEngine(options: PlaybackEngineOptions = {}) {
+  const engine = new PlaybackEngine({
+    createContext: sampleRate => {
+      context = new FakeAudioContext({ sampleRate, clock: () => time });
+      return context as unknown as AudioContext;
+    },
+    now: () => time * 1000,
+    ...options,
+  });
+  const events: string[] = [];
+  for (const event of ["start", "underrun", "drained", "flushed"] as const) {
+    engine.on(event, () => events.push(event));
+  }
+  return { engine, events };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  time = 0;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("PlaybackEngine", () => {
+  it("prebuffers the start of a turn, then schedules chunks back to back", () => {
+    const { engine } = createEngine({ initialBufferDelay: 0.3 });
+    const starts: number[] = [];
+    engine.on("start", ({ bufferDelay }) => starts.push(bufferDelay));
+
+    engine.enqueue(chunk());
+    advance(CHUNK);
+    engine.enqueue(chunk());
+    advance(CHUNK);
+    engine.enqueue(chunk());
+
+    expect(starts).toEqual([0.3]);
+    expect(engine.isPlaying).toBe(true);
+    expect(context.sources.map(source => source.startTime)).toEqual([0.3, 0.4, 0.5].map(t => expect.closeTo(t, 6)));
+  });
+
+  it("prebuffers again after endTurn", () => {
+    const { engine, events } = createEngine({ initialBufferDelay: 0.3 });
+    engine.enqueue(chunk());
+    engine.endTurn();
+    advance(0.05);
+    engine.enqueue(chunk());
+
+    expect(events.filter(event => event === "start")).toHaveLength(2);
+    expect(context.sources[1].startTime).toBeCloseTo(0.05 + engine.bufferDelay, 6);
+  });
+
+  it("recovers from an underrun by buffering again from now", () => {
+    const { engine } = createEngine({ initialBufferDelay: 0.3 });
+    const underruns: { gap: number; bufferDelay: number }[] = [];
+    engine.on("underrun", event => underruns.push(event));
+
+    engine.enqueue(chunk());
+    // The chunk ran out at 0.4s; the next one arrives at 1s
+    advance(1);
+    engine.enqueue(chunk());
+
+    expect(underruns).toHaveLength(1);
+    expect(underruns[0].gap).toBeCloseTo(0.6, 6);
+    expect(context.sources[1].startTime).toBeCloseTo(1 + underruns[0].bufferDelay, 6);
+    expect(context.sources[1].startTime).toBeGreaterThan(time);
+  });
+
+  it("settles at the minimum delay while chunks arrive on time", () => {
+    const { engine } = createEngine({ minBufferDelay: 0.1, initialBufferDelay: 0.35 });
+    for (let i = 0; i < 5; i++) {
+      engine.enqueue(chunk());
+      advance(CHUNK);
+    }
+    expect(engine.bufferDelay).toBeCloseTo(0.1, 6);
+  });
+
+  it("grows the delay quickly when chunks run late and shrinks it slowly", () => {
+    const { engine } = createEngine({ minBufferDelay: 0.1, maxBufferDelay: 1 });
+    engine.enqueue(chunk());
+    // 200ms later than the stream's pace
+    advance(CHUNK + 0.2);
+    engine.enqueue(chunk());
+    const grown = engine.bufferDelay;
+    expect(grown).toBeCloseTo(0.1 + 0.1, 6);
+
+    // The chunk held up behind it arrives straight after, then the stream is back on pace
+    engine.enqueue(chunk());
+    const delays: number[] = [];
+    for (let i = 0; i < 10; i++) {
+      engine.enqueue(chunk());
+      delays.push(engine.bufferDelay);
+      advance(CHUNK);
+    }
+    expect(delays.every((delay, i) => delay < (i ? delays[i - 1] : grown))).toBe(true);
+    expect(delays.at(-1)).toBeGreaterThan(0.15);
+  });
+
+  it("never buffers more than maxBufferDelay", () => {
+    const { engine } = createEngine({ maxBufferDelay: 0.5 });
+    engine.enqueue(chunk());
+    advance(5);
+    engine.enqueue(chunk());
+    expect(engine.bufferDelay).toBe(0.5);
+  });
+
+  it("stops everything scheduled on flush, as on barge-in", () => {
+    const { engine, events } = createEngine();
+    for (let i = 0; i < 3; i++) engine.enqueue(chunk());
+    engine.flush();
+
+    expect(context.sources.every(source => source.stopped)).toBe(true);
+    expect(events).toEqual(["start", "flushed", "drained"]);
+    expect(engine.isPlaying).toBe(false);
+
+    // The next reply starts a new turn, with its own prebuffer
+    advance(0.05);
+    engine.enqueue(chunk());
+    expect(events.at(-1)).toBe("start");
+    expect(context.sources[3].startTime).toBeCloseTo(0.05 + engine.bufferDelay, 6);
+  });
+
+  it("reports nothing to flush when nothing is playing", () => {
+    const { engine, events } = createEngine();
+    engine.flush();
+    expect(events).toEqual([]);
+  });
+
+  it("calls drained once the scheduled audio has played out", () => {
+    const { engine, events } = createEngine({ initialBufferDelay: 0.3 });
+    const drained = vi.fn();
+    engine.on("drained", drained);
+    engine.enqueue(chunk());
+    engine.enqueue(chunk());
+
+    advance(0.45);
+    expect(drained).not.toHaveBeenCalled();
+    expect(engine.isPlaying).toBe(true);
+
+    advance(0.1);
+    expect(drained).toHaveBeenCalledTimes(1);
+    expect(engine.isPlaying).toBe(false);
+    expect(events).toEqual(["start", "drained"]);
+  });
+
+  it("stops calling listeners once they unsubscribe", () => {
+    const { engine } = createEngine();
+    const start = vi.fn();
+    const off = engine.on("start", start);
+    off();
+    engine.enqueue(chunk());
+    expect(start).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,262 @@
+// Gapless playback of the Live API's 24kHz 16-bit PCM stream.
+
+const OUTPUT_SAMPLE_RATE = 24000;
+
+export interface PlaybackEngineOptions {
+  sampleRate?: number;
+  // Bounds for the adaptive jitter buffer, in seconds.
+  minBufferDelay?: number;
+  maxBufferDelay?: number;
+  // Buffer used before any arrival jitter has been measured.
+  initialBufferDelay?: number;
+  // Fade applied to both ends of each chunk to avoid clicks at boundaries.
+  fadeDuration?: number;
+  // How often to emit 'level' while audio is playing, in ms.
+  levelInterval?: number;
+  // Injected for tests; defaults to a real AudioContext at `sampleRate`.
+  createContext?: (sampleRate: number) => AudioContext;
+  // Clock for chunk arrival times, in ms.
+  now?: () => number;
+}
+
+export interface PlaybackEventMap {
+  // A turn began playing after `bufferDelay` seconds of prebuffering.
+  start: { bufferDelay: number };
+  // Audio arrived after the scheduled audio had already run out.
+  underrun: { gap: number; bufferDelay: number };
+  // All scheduled audio finished playing and nothing is queued.
+  drained: {};
+  // RMS output level in [0, 1].
+  level: { level: number };
+  // A chunk was scheduled to start playing `delay` seconds from now.
+  scheduled: { samples: Float32Array; sampleRate: number; delay: number };
+  // Scheduled audio was cut off by `flush`.
+  flushed: {};
+}
+
+type Listener<K extends keyof PlaybackEventMap> = (event: PlaybackEventMap[K]) => void;
+
+export class PlaybackEngine {
+  readonly context: AudioContext;
+  readonly analyser: AnalyserNode;
+
+  private sampleRate: number;
+  private minBufferDelay: number;
+  private maxBufferDelay: number;
+  private fadeDuration: number;
+  private levelInterval: number;
+  private now: () => number;
+
+  private sources = new Set<AudioBufferSourceNode>();
+  private listeners = new Map<keyof PlaybackEventMap, Set<Listener<any>>>();
+  private nextStartTime = 0;
+  private isTurnStart = true;
+  private playing = false;
+  private drainTimer: ReturnType<typeof setTimeout> | null = null;
+  private levelTimer: ReturnType<typeof setInterval> | null = null;
+
+  // Arrival jitter is measured per turn as how late each chunk arrives relative to
+  // the earliest-arriving chunk's pace (transit time = arrival - media time).
+  private jitter = 0;
+  private turnMediaTime = 0;
+  private minTransit: number | null = null;
+  private targetDelay: number;
+
+  constructor(options: PlaybackEngineOptions = {}) {
+    this.sampleRate = options.sampleRate ?? OUTPUT_SAMPLE_RATE;
+    this.minBufferDelay = options.minBufferDelay ?? 0.12;
+    this.maxBufferDelay = options.maxBufferDelay ?? 1;
+    this.targetDelay = options.initialBufferDelay ?? 0.35;
+    this.fadeDuration = options.fadeDuration ?? 0.005;
+    this.levelInterval = options.levelInterval ?? 50;
+    this.now = options.now ?? (() => performance.now());
+
+    const createContext = options.createContext ?? ((sampleRate: number) =>
+      new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate }));
+    this.context = createContext(this.sampleRate);
+    this.analyser = this.context.createAnalyser();
+    this.analyser.fftSize = 128;
+    this.analyser.connect(this.context.destination);
+    this.nextStartTime = this.context.currentTime;
+  }
+
+  get isPlaying() {
+    return this.playing;
+  }
+
+  // Current jitter buffer depth, in seconds.
+  get bufferDelay() {
+    return this.targetDelay;
+  }
+
+  on<K extends keyof PlaybackEventMap>(event: K, listener: Listener<K>) {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener);
+    return () => {
+      set!.delete(listener);
+    };
+  }
+
+  async resume() {
+    if (this.context.state === 'suspended') {
+      await this.context.resume();
+    }
+  }
+
+  /** Routes output to another device ('' for the default). Resolves false where the browser can't. */
+  async setOutputDevice(deviceId: string) {
+    const context = this.context as AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+    if (!context.setSinkId) return false;
+    await context.setSinkId(deviceId);
+    return true;
+  }
+
+  /** Schedules a chunk of little-endian 16-bit PCM right after the audio already queued. */
+  enqueue(pcm: Uint8Array) {
+    const samples = toFloat32(pcm);
+    if (samples.length === 0) return;
+    const duration = samples.length / this.sampleRate;
+    this.measureArrival(duration);
+
+    const currentTime = this.context.currentTime;
+    if (this.isTurnStart) {
+      this.isTurnStart = false;
+      this.nextStartTime = currentTime + this.targetDelay;
+      this.emit('start', { bufferDelay: this.targetDelay });
+    } else if (this.nextStartTime < currentTime) {
+      const gap = currentTime - this.nextStartTime;
+      this.nextStartTime = currentTime + this.targetDelay;
+      this.emit('underrun', { gap, bufferDelay: this.targetDelay });
+    }
+
+    const buffer = this.context.createBuffer(1, samples.length, this.sampleRate);
+    const channel = buffer.getChannelData(0);
+    channel.set(samples);
+    applyFades(channel, Math.floor(this.sampleRate * this.fadeDuration));
+
+    const source = this.context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.analyser);
+    source.onended = () => this.sources.delete(source);
+    source.start(this.nextStartTime);
+    this.sources.add(source);
+    this.emit('scheduled', { samples, sampleRate: this.sampleRate, delay: this.nextStartTime - currentTime });
+    this.nextStartTime += duration;
+
+    this.setPlaying(true);
+    this.scheduleDrainCheck();
+  }
+
+  /** Marks the end of a model turn so the next chunk is prebuffered again. */
+  endTurn() {
+    this.isTurnStart = true;
+    this.turnMediaTime = 0;
+    this.minTransit = null;
+  }
+
+  /** Stops everything scheduled immediately, e.g. when the user barges in. */
+  flush() {
+    if (this.sources.size > 0) this.emit('flushed', {});
+    this.sources.forEach(source => {
+      source.onended = null;
+      try {
+        source.stop();
+      } catch {
+        // Already stopped
+      }
+    });
+    this.sources.clear();
+    this.nextStartTime = this.context.currentTime;
+    this.endTurn();
+    if (this.playing) {
+      this.setPlaying(false);
+      this.emit('drained', {});
+    }
+  }
+
+  async close() {
+    this.flush();
+    this.clearTimers();
+    this.listeners.clear();
+    await this.context.close();
+  }
+
+  private measureArrival(duration: number) {
+    const transit = this.now() / 1000 - this.turnMediaTime;
+    this.turnMediaTime += duration;
+    if (this.minTransit === null || transit < this.minTransit) {
+      this.minTransit = transit;
+      return;
+    }
+
+    // Grow quickly when chunks run late, shrink slowly once the network settles
+    const lateness = transit - this.minTransit;
+    this.jitter += (lateness - this.jitter) / (lateness > this.jitter ? 2 : 32);
+    this.targetDelay = Math.min(this.maxBufferDelay, this.minBufferDelay + this.jitter);
+  }
+
+  private scheduleDrainCheck() {
+    if (this.drainTimer) clearTimeout(this.drainTimer);
+    const remaining = Math.max(0, this.nextStartTime - this.context.currentTime);
+    this.drainTimer = setTimeout(() => {
+      this.drainTimer = null;
+      if (this.context.currentTime >= this.nextStartTime) {
+        this.setPlaying(false);
+        this.emit('drained', {});
+      } else {
+        this.scheduleDrainCheck();
+      }
+    }, remaining * 1000 + 20);
+  }
+
+  private setPlaying(playing: boolean) {
+    if (this.playing === playing) return;
+    this.playing = playing;
+    if (playing) {
+      const data = new Uint8Array(this.analyser.fftSize);
+      this.levelTimer = setInterval(() => {
+        this.analyser.getByteTimeDomainData(data);
+        let sum = 0;
+        for (let i = 0; i < data.length; i++) {
+          const v = (data[i] - 128) / 128;
+          sum += v * v;
+        }
+        this.emit('level', { level: Math.sqrt(sum / data.length) });
+      }, this.levelInterval);
+    } else {
+      this.clearTimers();
+    }
+  }
+
+  private clearTimers() {
+    if (this.drainTimer) clearTimeout(this.drainTimer);
+    if (this.levelTimer) clearInterval(this.levelTimer);
+    this.drainTimer = null;
+    this.levelTimer = null;
+  }
+
+  private emit<K extends keyof PlaybackEventMap>(event: K, payload: PlaybackEventMap[K]) {
+    this.listeners.get(event)?.forEach(listener => listener(payload));
+  }
+}
+
+function toFloat32(pcm: Uint8Array) {
+  const int16 = new Int16Array(pcm.buffer, pcm.byteOffset, Math.floor(pcm.byteLength / 2));
+  const float32 = new Float32Array(int16.length);
+  for (let i = 0; i < int16.length; i++) {
+    float32[i] = int16[i] / 32768;
+  }
+  return float32;
+}
+
+function applyFades(channel: Float32Array, fadeSamples: number) {
+  for (let i = 0; i < fadeSamples && i < channel.length; i++) {
+    const gain = i / fadeSamples;
+    channel[i] *= gain;
+    channel[channel.length - 1 - i] *= gain;
+  }
+}
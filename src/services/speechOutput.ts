@@ -0,0 +1,34 @@
+// Emoji are read out by name ("smiling face"), which nobody wants to hear
+const EMOJI = /[\p{Extended_Pictographic}\u{FE0F}\u{200D}]/gu;
+
+export const canSpeak = () => typeof window !== "undefined" && "speechSynthesis" in window;
+
+/**
+ * Reads text aloud with the browser's own speech synthesis, for text chat
+ * replies. Cancels anything still being spoken. `onstart` fires when the
+ * voice starts; the promise resolves when it stops, finished or cancelled.
+ */
+export function speak(text: string, lang?: string, onstart?: () => void): Promise<void> {
+  const spoken = text.replace(EMOJI, "").trim();
+  if (!canSpeak() || !spoken) return Promise.resolve();
+  window.speechSynthesis.cancel();
+
+  const utterance = new SpeechSynthesisUtterance(spoken);
+  if (lang) {
+    utterance.lang = lang;
+    const primary = lang.split("-")[0];
+    utterance.voice = window.speechSynthesis.getVoices().find(voice => voice.lang === lang)
+      ?? window.speechSynthesis.getVoices().find(voice => voice.lang.split("-")[0] === primary)
+      ?? null;
+  }
+  return new Promise(resolve => {
+    if (onstart) utterance.onstart = onstart;
+    utterance.onend = () => resolve();
+    utterance.onerror = () => resolve();
+    window.speechSynthesis.speak(utterance);
+  });
+}
+
+export function stopSpeaking() {
+  if (canSpeak()) window.speechSynthesis.cancel();
+}
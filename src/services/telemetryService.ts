@@ -0,0 +1,25 @@
+import { TelemetryOverview, TelemetryReport, TelemetrySession, TelemetrySessionDetail } from "../types";
+import { request } from "./api";
+
+const BASE = "/api/telemetry";
+
+export function reportTelemetry(report: TelemetryReport) {
+  // keepalive lets the final report of a session go out as the page closes
+  return request<void>(BASE, { method: "POST", body: JSON.stringify(report), keepalive: true });
+}
+
+export function getTelemetryOverview(days: number) {
+  return request<TelemetryOverview>(`${BASE}/overview?days=${days}`);
+}
+
+export function listTelemetrySessions(days: number) {
+  return request<TelemetrySession[]>(`${BASE}/sessions?days=${days}`);
+}
+
+export function getTelemetrySession(id: string) {
+  return request<TelemetrySessionDetail>(`${BASE}/sessions/${encodeURIComponent(id)}`);
+}
+
+export function getTelemetryCsvUrl(days: number) {
+  return `${BASE}/sessions.csv?days=${days}`;
+}
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { TextChatOptions, TextChatService } from "./textChatService";
+
+// Replies to /api/chat with the given chunks as newline-delimited JSON. A reply
+// ending in "hang" keeps its stream open after them until the request is aborted.
+let replies: (object | "hang")[][];
+let fetchMock: ReturnType<typeof vi.fn>;
+
+const contentsSent = () => fetchMock.mock.calls.map(([, init]) => JSON.parse(init.body).contents);
+
+function createChat(ontoolcalls: TextChatOptions["ontoolcalls"] = async calls =>
+  calls.map(call => ({ id: call.id, name: call.name, response: { output: "ok" } }))) {
+  return new TextChatService({
+    systemInstruction: "Be brief.",
+    history: [{ role: "model", parts: [{ text: "Hello!" }] }],
+    ontoolcalls,
+  });
+}
+
+beforeEach(() => {
+  replies = [];
+  fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+    const reply = replies.shift()!;
+    const hang = reply.at(-1) === "hang";
+    const lines = reply.filter(chunk => chunk !== "hang").map(chunk => JSON.stringify(chunk) + "\n").join("");
+    return new Response(new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode(lines));
+        if (!hang) controller.close();
+        else init.signal!.addEventListener("abort", () => controller.error(init.signal!.reason));
+      },
+    }));
+  });
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("TextChatService", () => {
+  it("keeps the question and answer, tool rounds included, in the history", async () => {
+    const chat = createChat();
+    replies.push(
+      [{ functionCalls: [{ id: "c1", name: "get_current_time", args: {} }] }],
+      [{ text: "It's " }, { text: "noon." }],
+      [{ text: "Sure." }]
+    );
+    const seen: string[] = [];
+    expect(await chat.send([{ text: "What time is it?" }], text => seen.push(text))).toBe("It's noon.");
+    expect(seen).toEqual(["It's ", "It's noon."]);
+
+    await chat.send([{ text: "Thanks" }]);
+    expect(contentsSent()[2].map((content: { role: string }) => content.role)).toEqual(["model", "user", "model", "user", "model", "user"]);
+  });
+
+  it("drops a failed turn from the history", async () => {
+    const chat = createChat();
+    replies.push([{ text: "Half" }, { error: "Quota exceeded" }], [{ text: "Hi." }]);
+    await expect(chat.send([{ text: "First" }])).rejects.toThrow("Quota exceeded");
+
+    await chat.send([{ text: "Second" }]);
+    expect(contentsSent()[1]).toEqual([
+      { role: "model", parts: [{ text: "Hello!" }] },
+      { role: "user", parts: [{ text: "Second" }] },
+    ]);
+  });
+
+  it("keeps a question cut off by a newer send, with the reply so far marked as cut off", async () => {
+    const chat = createChat();
+    replies.push([{ text: "Once upon" }, "hang"], [{ text: "Hi." }]);
+    const seen: string[] = [];
+    const first = chat.send([{ text: "First" }], text => seen.push(text));
+    await vi.waitFor(() => expect(seen).toEqual(["Once upon"]));
+    const second = chat.send([{ text: "Second" }]);
+    await expect(first).rejects.toMatchObject({ name: "AbortError" });
+    await second;
+
+    expect(contentsSent()[1]).toEqual([
+      { role: "model", parts: [{ text: "Hello!" }] },
+      { role: "user", parts: [{ text: "First" }] },
+      { role: "model", parts: [{ text: "Once upon" }, { text: "[Cut off by the user]" }] },
+      { role: "user", parts: [{ text: "Second" }] },
+    ]);
+  });
+
+  it("keeps a question stopped during a tool call, without the unanswered call", async () => {
+    let finishTools!: () => void;
+    const ontoolcalls = vi.fn(() => new Promise<[]>(resolve => {
+      finishTools = () => resolve([]);
+    }));
+    const chat = createChat(ontoolcalls);
+    replies.push([{ text: "Let me check." }, { functionCalls: [{ id: "c1", name: "get_current_time", args: {} }] }], [{ text: "Hi." }]);
+    const first = chat.send([{ text: "What time is it?" }]);
+    await vi.waitFor(() => expect(ontoolcalls).toHaveBeenCalled());
+    chat.stop();
+    finishTools();
+    await expect(first).rejects.toMatchObject({ name: "AbortError" });
+
+    await chat.send([{ text: "Never mind" }]);
+    expect(contentsSent()[1].slice(1)).toEqual([
+      { role: "user", parts: [{ text: "What time is it?" }] },
+      { role: "model", parts: [{ text: "Let me check." }, { text: "[Cut off by the user]" }] },
+      { role: "user", parts: [{ text: "Never mind" }] },
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+import { Content, FunctionCall, FunctionDeclaration, FunctionResponse, Part } from "@google/genai";
+import { UNAUTHORIZED_EVENT } from "./api";
+
+const CHAT_URL = "/api/chat";
+// Tool calls the model may chain before it has to answer
+const MAX_TOOL_ROUNDS = 5;
+// Ends a reply the user cut off, so the model knows it never finished
+const CUT_OFF_NOTE = "[Cut off by the user]";
+
+interface ChatChunk {
+  text?: string;
+  functionCalls?: FunctionCall[];
+  error?: string;
+}
+
+export interface TextChatOptions {
+  systemInstruction: string;
+  tools?: FunctionDeclaration[];
+  // The conversation so far, e.g. from the voice session this replaces
+  history?: Content[];
+  // Runs the model's tool calls and returns what to send back
+  ontoolcalls: (calls: FunctionCall[]) => Promise<FunctionResponse[]>;
+}
+
+/**
+ * A text conversation with the persona through the server's streaming
+ * generateContent endpoint, for when the Live API or the mic isn't available.
+ * Keeps the history itself, since each request is stateless.
+ */
+export class TextChatService {
+  private history: Content[];
+  // The send in progress, where its turns start in the history, and its reply so far
+  private pending: { controller: AbortController; start: number; reply: string } | null = null;
+
+  constructor(private options: TextChatOptions) {
+    this.history = [...(options.history ?? [])];
+  }
+
+  /**
+   * Sends a user turn and resolves with LUCA's whole reply once any tool calls
+   * are done. `onText` sees the reply so far as it streams. A newer send or
+   * stop() rejects the pending one with an AbortError; its question stays in
+   * the history with the reply so far, marked as cut off. A send that fails
+   * leaves nothing in the history.
+   */
+  async send(parts: Part[], onText: (text: string) => void = () => {}): Promise<string> {
+    this.stop();
+    const pending = { controller: new AbortController(), start: this.history.length, reply: "" };
+    const { signal } = pending.controller;
+    this.pending = pending;
+    this.history.push({ role: "user", parts });
+
+    try {
+      let reply = "";
+      for (let round = 0; ; round++) {
+        let text = "";
+        const calls: FunctionCall[] = [];
+        for await (const chunk of this.stream(signal)) {
+          if (chunk.error) throw new Error(chunk.error);
+          if (chunk.text) {
+            text += chunk.text;
+            pending.reply = joinReply(reply, text);
+            onText(pending.reply);
+          }
+          if (chunk.functionCalls) calls.push(...chunk.functionCalls);
+        }
+        reply = joinReply(reply, text);
+
+        const modelParts: Part[] = [...(text ? [{ text }] : []), ...calls.map(functionCall => ({ functionCall }))];
+        if (modelParts.length) this.history.push({ role: "model", parts: modelParts });
+        if (!calls.length || round === MAX_TOOL_ROUNDS) {
+          this.pending = null;
+          return reply;
+        }
+
+        const responses = await this.options.ontoolcalls(calls);
+        signal.throwIfAborted();
+        this.history.push({ role: "user", parts: responses.map(functionResponse => ({ functionResponse })) });
+      }
+    } catch (err) {
+      // A cut-off send has already been recorded as such
+      if (this.pending === pending) {
+        this.pending = null;
+        this.history.length = pending.start;
+      }
+      throw err;
+    }
+  }
+
+  // Aborts the pending send. Its tool rounds are dropped, since a call without
+  // its response can't be sent back, but the question and the text so far stay.
+  stop() {
+    const pending = this.pending;
+    if (!pending) return;
+    this.pending = null;
+    pending.controller.abort();
+    this.history.length = pending.start + 1;
+    this.history.push({ role: "model", parts: [...(pending.reply ? [{ text: pending.reply }] : []), { text: CUT_OFF_NOTE }] });
+  }
+
+  private async *stream(signal: AbortSignal): AsyncGenerator<ChatChunk> {
+    const res = await fetch(CHAT_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        systemInstruction: this.options.systemInstruction,
+        contents: this.history,
+        tools: this.options.tools,
+      }),
+      signal,
+    });
+    if (!res.ok || !res.body) {
+      const body = await res.json().catch(() => null);
+      if (res.status === 401) window.dispatchEvent(new Event(UNAUTHORIZED_EVENT));
+      throw new Error(body?.error || `Request failed with status ${res.status}`);
+    }
+
+    // Newline-delimited JSON, which may split anywhere across reads
+    const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffered = "";
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffered += value;
+      const lines = buffered.split("\n");
+      buffered = lines.pop() ?? "";
+      for (const line of lines) {
+        if (line.trim()) yield JSON.parse(line) as ChatChunk;
+      }
+    }
+    if (buffered.trim()) yield JSON.parse(buffered) as ChatChunk;
+  }
+}
+
+// Text either side of a tool call reads as one reply
+const joinReply = (before: string, after: string) => (before && after ? `${before} ${after}` : before || after);
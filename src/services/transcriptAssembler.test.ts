@@ -0,0 +1,134 @@
+import { LiveServerMessage } from "@google/genai";
+import { describe, expect, it } from "vitest";
+import { TranscriptAssembler, TranscriptAssemblerOptions, TranscriptTurn } from "./transcriptAssembler";
+import recordings from "../test/fixtures/liveTranscripts.json";
+
+// Messages as a Live session delivered them (the JSON, without the SDK class's
+// getters), with when each arrived in ms
+type Recording = { at: number; message: Partial<LiveServerMessage> }[];
+
+function createAssembler(options: TranscriptAssemblerOptions = {}) {
+  let time = 0;
+  const committed: TranscriptTurn[] = [];
+  const pending: TranscriptTurn[][] = [];
+  const assembler = new TranscriptAssembler(
+    { onCommit: turn => committed.push(turn), onPendingChange: turns => pending.push(turns) },
+    { now: () => time, ...options }
+  );
+  const play = (recording: Recording) => {
+    for (const { at, message } of recording) {
+      time = at;
+      assembler.ingest(message as LiveServerMessage);
+    }
+  };
+  const setTime = (at: number) => {
+    time = at;
+  };
+  return { assembler, committed, pending, play, setTime };
+}
+
+const summary = (turns: TranscriptTurn[]) => turns.map(({ role, text, interrupted }) => ({ role, text, interrupted }));
+
+describe("TranscriptAssembler", () => {
+  it("keeps input fragments that arrive during the answer with the question", () => {
+    const { committed, pending, play } = createAssembler();
+    play(recordings.interleaved);
+
+    expect(summary(committed)).toEqual([
+      { role: "user", text: "What's the weather like today?", interrupted: undefined },
+      { role: "ai", text: "Let me check.", interrupted: undefined },
+    ]);
+    expect(committed[0]).toMatchObject({ startedAt: 0, endedAt: 600 });
+    expect(committed[1]).toMatchObject({ startedAt: 400, endedAt: 900 });
+    // Pending turns show the question above the answer, and clear once committed
+    expect(pending.find(turns => turns.length === 2)?.map(turn => turn.role)).toEqual(["user", "ai"]);
+    expect(pending.at(-1)).toEqual([]);
+  });
+
+  it("starts a new user turn for speech after the continuation window, ordered after the answer", () => {
+    const { committed, pending, play } = createAssembler();
+    const recording = recordings.bargeIn;
+    play(recording.slice(0, 4));
+
+    expect(pending.at(-1)!.map(({ role, text }) => ({ role, text }))).toEqual([
+      { role: "user", text: "Tell me a story" },
+      { role: "ai", text: "Once upon a time, there was" },
+      { role: "user", text: "Actually, wait" },
+    ]);
+
+    play(recording.slice(4));
+    expect(summary(committed)).toEqual([
+      { role: "user", text: "Tell me a story", interrupted: undefined },
+      { role: "ai", text: "Once upon a time, there was", interrupted: true },
+      { role: "user", text: "Actually, wait never mind.", interrupted: undefined },
+      { role: "ai", text: "Sure.", interrupted: undefined },
+    ]);
+  });
+
+  it("treats the same late fragment as the question's tail inside a wider window", () => {
+    const { committed, play } = createAssembler({ continuationWindow: 3000 });
+    play(recordings.bargeIn.slice(0, 5));
+
+    expect(summary(committed)).toEqual([
+      { role: "user", text: "Tell me a storyActually, wait", interrupted: undefined },
+      { role: "ai", text: "Once upon a time, there was", interrupted: true },
+    ]);
+  });
+
+  it("marks only interrupted turns as interrupted", () => {
+    const { committed, play } = createAssembler();
+    play([
+      { at: 0, message: { serverContent: { outputTranscription: { text: "First." } } } },
+      { at: 100, message: { serverContent: { turnComplete: true } } },
+      { at: 200, message: { serverContent: { outputTranscription: { text: "Second" } } } },
+      { at: 300, message: { serverContent: { interrupted: true } } },
+      // The turnComplete that follows an interruption has nothing left to commit
+      { at: 400, message: { serverContent: { turnComplete: true } } },
+    ]);
+
+    expect(summary(committed)).toEqual([
+      { role: "ai", text: "First.", interrupted: undefined },
+      { role: "ai", text: "Second", interrupted: true },
+    ]);
+  });
+
+  it("commits what is in progress on flush, with a half-said answer as interrupted", () => {
+    const { assembler, committed, pending, play, setTime } = createAssembler();
+    play(recordings.interleaved.slice(0, 3));
+    setTime(500);
+    assembler.flush();
+
+    expect(summary(committed)).toEqual([
+      { role: "user", text: "What's the weather", interrupted: undefined },
+      { role: "ai", text: "Let me", interrupted: true },
+    ]);
+    expect(committed[1].endedAt).toBe(500);
+    expect(pending.at(-1)).toEqual([]);
+  });
+
+  it("commits a question on its own on flush", () => {
+    const { assembler, committed, play } = createAssembler();
+    play(recordings.interleaved.slice(0, 2));
+    assembler.flush();
+
+    expect(summary(committed)).toEqual([{ role: "user", text: "What's the weather", interrupted: undefined }]);
+  });
+
+  it("takes text replies from modelTurn parts, without thoughts or **reasoning**", () => {
+    const { committed, play } = createAssembler();
+    play(recordings.textReply);
+
+    expect(summary(committed)).toEqual([{ role: "ai", text: "Paris is the capital.", interrupted: undefined }]);
+  });
+
+  it("commits nothing for messages without transcript text", () => {
+    const { committed, play } = createAssembler();
+    play([
+      { at: 0, message: { setupComplete: {} } },
+      { at: 100, message: { serverContent: { outputTranscription: { text: "   " } } } },
+      { at: 200, message: { serverContent: { turnComplete: true } } },
+    ]);
+
+    expect(committed).toEqual([]);
+  });
+});
@@ -0,0 +1,142 @@
+import { LiveServerMessage } from "@google/genai";
+import { MessageSource } from "../types";
+
+export interface TranscriptTurn {
+  id: string;
+  role: "user" | "ai";
+  text: string;
+  // ms since epoch of the first and last fragment
+  startedAt: number;
+  endedAt: number;
+  // AI turn cut off by the user barging in
+  interrupted?: boolean;
+  // Set on text chat replies; turns from the assembler are spoken
+  source?: MessageSource;
+}
+
+export interface TranscriptAssemblerHandlers {
+  // A turn is finished and will not change again.
+  onCommit: (turn: TranscriptTurn) => void;
+  // The in-progress turns changed, in display order.
+  onPendingChange?: (pending: TranscriptTurn[]) => void;
+}
+
+export interface TranscriptAssemblerOptions {
+  // User fragments arriving this long after the AI turn began are a new utterance
+  // rather than the tail of the one the AI is answering, in ms.
+  continuationWindow?: number;
+  now?: () => number;
+}
+
+/**
+ * Merges the Live API's streaming input/output transcription fragments into
+ * conversation turns.
+ *
+ * Input transcription lags behind the audio, so fragments of the user's
+ * question often arrive after the model has started answering. Those are
+ * appended to the user turn that preceded the answer; fragments arriving
+ * later than `continuationWindow` into the answer start a new user turn that
+ * is ordered after it. Turns are committed in order when the model's turn
+ * completes or is interrupted.
+ */
+export class TranscriptAssembler {
+  private user: TranscriptTurn | null = null;
+  // User speech that began while the AI was answering.
+  private nextUser: TranscriptTurn | null = null;
+  private ai: TranscriptTurn | null = null;
+  private continuationWindow: number;
+  private now: () => number;
+
+  constructor(private handlers: TranscriptAssemblerHandlers, options: TranscriptAssemblerOptions = {}) {
+    this.continuationWindow = options.continuationWindow ?? 1500;
+    this.now = options.now ?? (() => Date.now());
+  }
+
+  get pending(): TranscriptTurn[] {
+    return [this.user, this.ai, this.nextUser].filter((turn): turn is TranscriptTurn => turn !== null);
+  }
+
+  ingest(message: LiveServerMessage) {
+    const content = message.serverContent;
+    if (!content) return;
+    const now = this.now();
+    let changed = false;
+
+    const inputText = content.inputTranscription?.text;
+    if (inputText) {
+      this.appendUser(inputText, now);
+      changed = true;
+    }
+
+    // Audio sessions report speech via outputTranscription; text sessions via modelTurn parts.
+    const outputText = content.outputTranscription?.text ?? modelText(message);
+    if (outputText) {
+      this.ai = this.ai
+        ? { ...this.ai, text: this.ai.text + outputText, endedAt: now }
+        : newTurn("ai", outputText, now);
+      changed = true;
+    }
+
+    if (content.interrupted) {
+      this.completeModelTurn(now, true);
+      changed = true;
+    } else if (content.turnComplete) {
+      this.completeModelTurn(now, false);
+      changed = true;
+    }
+
+    if (changed) this.handlers.onPendingChange?.(this.pending);
+  }
+
+  /** Commits whatever is in progress, e.g. when the session ends. */
+  flush() {
+    const now = this.now();
+    this.completeModelTurn(now, this.ai !== null);
+    this.commit(this.user);
+    this.user = null;
+    this.handlers.onPendingChange?.(this.pending);
+  }
+
+  private appendUser(text: string, now: number) {
+    const answering = this.ai !== null && now - this.ai.startedAt > this.continuationWindow;
+    if (answering || this.nextUser) {
+      this.nextUser = this.nextUser
+        ? { ...this.nextUser, text: this.nextUser.text + text, endedAt: now }
+        : newTurn("user", text, now);
+    } else {
+      this.user = this.user
+        ? { ...this.user, text: this.user.text + text, endedAt: now }
+        : newTurn("user", text, now);
+    }
+  }
+
+  private completeModelTurn(now: number, interrupted: boolean) {
+    this.commit(this.user);
+    if (this.ai) {
+      this.commit({ ...this.ai, endedAt: now, interrupted: interrupted || undefined });
+    }
+    this.user = this.nextUser;
+    this.nextUser = null;
+    this.ai = null;
+  }
+
+  private commit(turn: TranscriptTurn | null) {
+    if (!turn) return;
+    const text = turn.text.replace(/\s+/g, " ").trim();
+    if (text) this.handlers.onCommit({ ...turn, text });
+  }
+}
+
+function newTurn(role: TranscriptTurn["role"], text: string, now: number): TranscriptTurn {
+  return { id: crypto.randomUUID(), role, text, startedAt: now, endedAt: now };
+}
+
+// Text parts of the model turn, minus thoughts and **reasoning** the model sometimes leaks.
+function modelText(message: LiveServerMessage) {
+  const text = (message.serverContent?.modelTurn?.parts ?? [])
+    .filter(part => part.text && !part.thought)
+    .map(part => part.text)
+    .join("")
+    .replace(/\*\*.*?\*\*/g, "");
+  return text.trim() ? text : undefined;
+}
@@ -0,0 +1,91 @@
+export type VideoSource = "camera" | "screen";
+
+export interface VideoCaptureOptions {
+  // Frames sent per second. The Live API samples video at about 1 fps.
+  frameRate?: number;
+  // Frames are scaled down to fit within this size, in pixels.
+  maxWidth?: number;
+  maxHeight?: number;
+  // JPEG quality, 0..1.
+  quality?: number;
+}
+
+const DEFAULT_VIDEO_OPTIONS: Required<VideoCaptureOptions> = {
+  frameRate: 1,
+  maxWidth: 1024,
+  maxHeight: 1024,
+  quality: 0.7,
+};
+
+/**
+ * Samples JPEG frames from the camera or a shared screen.
+ * `onFrame` receives base64 JPEG data without the data URL prefix.
+ */
+export class VideoCapture {
+  readonly stream: MediaStream;
+  private video: HTMLVideoElement;
+  private canvas = document.createElement("canvas");
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private options: Required<VideoCaptureOptions>;
+
+  private constructor(stream: MediaStream, options: VideoCaptureOptions) {
+    this.stream = stream;
+    this.options = { ...DEFAULT_VIDEO_OPTIONS, ...options };
+    this.video = document.createElement("video");
+    this.video.muted = true;
+    this.video.playsInline = true;
+    this.video.srcObject = stream;
+  }
+
+  static async open(source: VideoSource, options: VideoCaptureOptions = {}) {
+    const stream = source === "screen"
+      ? await navigator.mediaDevices.getDisplayMedia({ video: true, audio: false })
+      : await navigator.mediaDevices.getUserMedia({ video: { width: { ideal: 1280 }, height: { ideal: 720 } } });
+    const capture = new VideoCapture(stream, options);
+    await capture.video.play();
+    return capture;
+  }
+
+  /** Starts sampling. `onEnded` fires if the user stops sharing from the browser's own controls. */
+  start(onFrame: (jpeg: string) => void, onEnded?: () => void) {
+    this.stop();
+    this.timer = setInterval(() => {
+      const frame = this.grab();
+      if (frame) onFrame(frame);
+    }, 1000 / this.options.frameRate);
+    this.stream.getVideoTracks().forEach(track => {
+      track.onended = () => {
+        this.close();
+        onEnded?.();
+      };
+    });
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  close() {
+    this.stop();
+    this.stream.getTracks().forEach(track => {
+      track.onended = null;
+      track.stop();
+    });
+    this.video.srcObject = null;
+  }
+
+  private grab() {
+    const { videoWidth, videoHeight } = this.video;
+    if (!videoWidth || !videoHeight) return null;
+    const scale = Math.min(1, this.options.maxWidth / videoWidth, this.options.maxHeight / videoHeight);
+    this.canvas.width = Math.round(videoWidth * scale);
+    this.canvas.height = Math.round(videoHeight * scale);
+    this.canvas.getContext("2d")!.drawImage(this.video, 0, 0, this.canvas.width, this.canvas.height);
+    return stripDataUrl(this.canvas.toDataURL("image/jpeg", this.options.quality));
+  }
+}
+
+export function stripDataUrl(dataUrl: string) {
+  return dataUrl.slice(dataUrl.indexOf(",") + 1);
+}
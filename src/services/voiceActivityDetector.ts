@@ -0,0 +1,106 @@
+export interface VoiceActivityDetectorOptions {
+  sampleRate?: number;
+  // Analysis window, in ms.
+  windowSize?: number;
+  // Speech must be this much louder than the tracked noise floor.
+  energyRatio?: number;
+  // Absolute RMS (0..1) below which nothing counts as speech, however quiet the room.
+  minEnergy?: number;
+  // Windows crossing zero more often than this (per sample) are hiss or noise, not voice.
+  maxZeroCrossingRate?: number;
+  // Speech must last this long before activity starts, in ms.
+  minSpeech?: number;
+  // Silence must last this long before activity ends, in ms.
+  hangover?: number;
+}
+
+/**
+ * Energy and zero-crossing voice activity detector for 16-bit PCM.
+ *
+ * Tracks the background noise floor while nobody is speaking, so it adapts to
+ * quiet rooms and noisy ones alike. Onset needs `minSpeech` of consecutive
+ * voiced audio and offset needs `hangover` of silence, which keeps short
+ * clicks from triggering it and pauses between words from ending it.
+ */
+export class VoiceActivityDetector {
+  private active = false;
+  private noiseFloor: number;
+  // Consecutive voiced / unvoiced audio, in samples.
+  private voicedRun = 0;
+  private silentRun = 0;
+  private windowSamples: number;
+  private energyRatio: number;
+  private minEnergy: number;
+  private maxZeroCrossingRate: number;
+  private minSpeechSamples: number;
+  private hangoverSamples: number;
+  private samplesPerMs: number;
+
+  constructor(options: VoiceActivityDetectorOptions = {}) {
+    const samplesPerMs = (options.sampleRate ?? 16000) / 1000;
+    this.samplesPerMs = samplesPerMs;
+    this.windowSamples = Math.round((options.windowSize ?? 20) * samplesPerMs);
+    this.energyRatio = options.energyRatio ?? 3;
+    this.minEnergy = options.minEnergy ?? 0.01;
+    this.maxZeroCrossingRate = options.maxZeroCrossingRate ?? 0.4;
+    this.minSpeechSamples = (options.minSpeech ?? 60) * samplesPerMs;
+    this.hangoverSamples = (options.hangover ?? 600) * samplesPerMs;
+    this.noiseFloor = this.minEnergy / this.energyRatio;
+  }
+
+  get speaking() {
+    return this.active;
+  }
+
+  /** How long the audio has been unvoiced at the end of the last frame, in ms. */
+  get silence() {
+    return this.silentRun / this.samplesPerMs;
+  }
+
+  /** Feeds a frame of audio and returns whether the user is speaking at its end. */
+  process(frame: Int16Array): boolean {
+    for (let start = 0; start < frame.length; start += this.windowSamples) {
+      const window = frame.subarray(start, Math.min(start + this.windowSamples, frame.length));
+      this.update(window);
+    }
+    return this.active;
+  }
+
+  reset() {
+    this.active = false;
+    this.voicedRun = 0;
+    this.silentRun = 0;
+    this.noiseFloor = this.minEnergy / this.energyRatio;
+  }
+
+  private update(window: Int16Array) {
+    let sumSquares = 0;
+    let crossings = 0;
+    for (let i = 0; i < window.length; i++) {
+      const sample = window[i] / 0x8000;
+      sumSquares += sample * sample;
+      if (i > 0 && (window[i] >= 0) !== (window[i - 1] >= 0)) crossings++;
+    }
+    const rms = Math.sqrt(sumSquares / window.length);
+    const zeroCrossingRate = crossings / window.length;
+
+    const voiced = rms > Math.max(this.minEnergy, this.noiseFloor * this.energyRatio)
+      && zeroCrossingRate < this.maxZeroCrossingRate;
+
+    if (voiced) {
+      this.voicedRun += window.length;
+      this.silentRun = 0;
+    } else {
+      this.silentRun += window.length;
+      this.voicedRun = 0;
+      // Follow the floor down quickly and up slowly, so speech doesn't raise it
+      this.noiseFloor = rms < this.noiseFloor ? rms : this.noiseFloor * 0.95 + rms * 0.05;
+    }
+
+    if (!this.active && this.voicedRun >= this.minSpeechSamples) {
+      this.active = true;
+    } else if (this.active && this.silentRun >= this.hangoverSamples) {
+      this.active = false;
+    }
+  }
+}
@@ -0,0 +1,66 @@
+// AudioWorklet that turns microphone input into 16-bit PCM frames for the Live API.
+// Runs on the audio rendering thread, so React renders and the visualizer cannot starve it.
+
+declare const sampleRate: number;
+declare function registerProcessor(name: string, ctor: new (options: any) => unknown): void;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+
+export interface PcmCaptureOptions {
+  // Samples per posted frame, at the target rate.
+  frameSize: number;
+  targetSampleRate: number;
+}
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  private frame: Int16Array;
+  private offset = 0;
+  private ratio: number;
+  // Fractional read position carried between render quanta when resampling.
+  private position = 0;
+  private lastSample = 0;
+
+  constructor(options: { processorOptions: PcmCaptureOptions }) {
+    super();
+    const { frameSize, targetSampleRate } = options.processorOptions;
+    this.frame = new Int16Array(frameSize);
+    this.ratio = sampleRate / targetSampleRate;
+  }
+
+  process(inputs: Float32Array[][]) {
+    const input = inputs[0]?.[0];
+    if (!input) return true;
+
+    if (this.ratio === 1) {
+      for (let i = 0; i < input.length; i++) this.push(input[i]);
+      return true;
+    }
+
+    // Linear-interpolation resampler. Index -1 refers to the last sample of the previous block.
+    while (this.position < input.length - 1) {
+      const index = Math.floor(this.position);
+      const frac = this.position - index;
+      const a = index < 0 ? this.lastSample : input[index];
+      const b = input[index + 1];
+      this.push(a + (b - a) * frac);
+      this.position += this.ratio;
+    }
+    this.position -= input.length;
+    this.lastSample = input[input.length - 1];
+    return true;
+  }
+
+  private push(sample: number) {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    this.frame[this.offset++] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
+    if (this.offset === this.frame.length) {
+      const buffer = this.frame.buffer;
+      this.port.postMessage(buffer, [buffer]);
+      this.frame = new Int16Array(this.frame.length);
+      this.offset = 0;
+    }
+  }
+}
+
+registerProcessor('pcm-capture', PcmCaptureProcessor);
@@ -0,0 +1,235 @@
+import { ConnectionState, ConnectionStateInfo } from '../services/liveAudioService';
+import { TranscriptTurn } from '../services/transcriptAssembler';
+import { VideoSource } from '../services/videoCapture';
+import { ExpressiveEmotion } from '../emotion/emotionClassifier';
+import { Banner } from '../components/StatusBanner';
+import { Emotion, Message, SessionDetail } from '../types';
+
+// What the conversation is doing, as opposed to the transport's ConnectionState.
+export type SessionPhase = 'idle' | 'connecting' | 'listening' | 'thinking' | 'speaking' | 'interrupted' | 'error';
+
+// A Live voice session, or text chat when voice isn't available.
+export type SessionMode = 'voice' | 'text';
+
+export interface SessionState {
+  phase: SessionPhase;
+  mode: SessionMode;
+  connectionState: ConnectionState;
+  connectionInfo: ConnectionStateInfo;
+  // Expression for the current turn, reported by the model or inferred from its words.
+  expression: ExpressiveEmotion;
+  isMicOn: boolean;
+  isUserSpeaking: boolean;
+  isPlaying: boolean;
+  // True while the first chunk of a reply sits in the jitter buffer.
+  isPreparingSpeech: boolean;
+  messages: Message[];
+  pendingTurns: TranscriptTurn[];
+  sessionId: string | null;
+  // Time origin for transcript exports; the recording's start when there is one.
+  startedAt: number;
+  recordingUrl: string | null;
+  video: { source: VideoSource; stream: MediaStream } | null;
+  notice: Banner | null;
+}
+
+export type SessionAction =
+  | { type: 'connect'; sessionId: string; startedAt: number }
+  // `notice` is shown when the connection reopens, e.g. to say a reconnect worked.
+  | { type: 'connection'; state: ConnectionState; info: ConnectionStateInfo; notice?: Banner }
+  // Voice failed or has no mic; the conversation carries on in text.
+  | { type: 'textMode'; notice: Banner }
+  | { type: 'mic'; on: boolean }
+  | { type: 'voiceActivity'; active: boolean }
+  // A tool call or typed message is waiting on the model.
+  | { type: 'thinking' }
+  | { type: 'playbackStart' }
+  | { type: 'playbackDrained' }
+  | { type: 'speechPrepared' }
+  | { type: 'interrupted' }
+  | { type: 'turnComplete' }
+  | { type: 'expression'; emotion: ExpressiveEmotion }
+  | { type: 'message'; message: Message }
+  | { type: 'pin'; id: string; pinned: boolean }
+  | { type: 'pendingTurns'; turns: TranscriptTurn[] }
+  | { type: 'recording'; url: string | null }
+  | { type: 'video'; video: SessionState['video'] }
+  | { type: 'notice'; notice: Banner | null }
+  | { type: 'openSession'; session: SessionDetail; recordingUrl: string | null }
+  | { type: 'dismissError' };
+
+export const initialSessionState: SessionState = {
+  phase: 'idle',
+  mode: 'voice',
+  connectionState: 'idle',
+  connectionInfo: {},
+  expression: 'neutral',
+  isMicOn: false,
+  isUserSpeaking: false,
+  isPlaying: false,
+  isPreparingSpeech: false,
+  messages: [],
+  pendingTurns: [],
+  sessionId: null,
+  startedAt: Date.now(),
+  recordingUrl: null,
+  video: null,
+  notice: null,
+};
+
+const ACTIVE_PHASES: SessionPhase[] = ['listening', 'thinking', 'speaking', 'interrupted'];
+
+export function sessionReducer(state: SessionState, action: SessionAction): SessionState {
+  switch (action.type) {
+    case 'connect':
+      return {
+        ...initialSessionState,
+        phase: 'connecting',
+        connectionState: 'connecting',
+        sessionId: action.sessionId,
+        startedAt: action.startedAt,
+      };
+
+    case 'connection': {
+      const next = { ...state, connectionState: action.state, connectionInfo: action.info };
+      switch (action.state) {
+        case 'connecting':
+        case 'reconnecting':
+          return { ...next, phase: 'connecting' };
+        case 'open': {
+          const isFirstOpen = action.info.resumed === undefined;
+          return {
+            ...next,
+            phase: ACTIVE_PHASES.includes(state.phase) ? state.phase : 'listening',
+            // A greeting smile on connect
+            expression: isFirstOpen ? 'happy' : state.expression,
+            notice: action.notice ?? state.notice,
+          };
+        }
+        case 'closed':
+        case 'failed':
+        case 'idle':
+          return {
+            ...next,
+            phase: action.state === 'failed' ? 'error' : 'idle',
+            expression: 'neutral',
+            isMicOn: false,
+            isUserSpeaking: false,
+            isPlaying: false,
+            isPreparingSpeech: false,
+            video: null,
+          };
+      }
+      return next;
+    }
+
+    case 'textMode':
+      return {
+        ...state,
+        mode: 'text',
+        // Text chat has no transport of its own to report on
+        connectionState: 'open',
+        connectionInfo: {},
+        phase: 'listening',
+        expression: 'neutral',
+        isMicOn: false,
+        isUserSpeaking: false,
+        isPlaying: false,
+        isPreparingSpeech: false,
+        video: null,
+        notice: action.notice,
+      };
+
+    case 'mic':
+      return { ...state, isMicOn: action.on };
+
+    case 'voiceActivity':
+      return {
+        ...state,
+        isUserSpeaking: action.active,
+        phase: action.active && ACTIVE_PHASES.includes(state.phase) && !state.isPlaying ? 'listening' : state.phase,
+      };
+
+    case 'thinking':
+      return ACTIVE_PHASES.includes(state.phase) ? { ...state, phase: 'thinking' } : state;
+
+    case 'playbackStart':
+      return { ...state, phase: 'speaking', isPlaying: true, isPreparingSpeech: true };
+
+    case 'speechPrepared':
+      return { ...state, isPreparingSpeech: false };
+
+    case 'playbackDrained':
+      return {
+        ...state,
+        isPlaying: false,
+        isPreparingSpeech: false,
+        phase: state.phase === 'speaking' ? 'listening' : state.phase,
+      };
+
+    case 'interrupted':
+      return { ...state, phase: 'interrupted', expression: 'neutral', isPreparingSpeech: false };
+
+    case 'turnComplete':
+      return {
+        ...state,
+        expression: 'neutral',
+        // Audio for the turn may still be playing out of the buffer
+        phase: state.isPlaying ? 'speaking' : ACTIVE_PHASES.includes(state.phase) ? 'listening' : state.phase,
+      };
+
+    case 'expression':
+      return { ...state, expression: action.emotion };
+
+    case 'message':
+      return { ...state, messages: [...state.messages, action.message] };
+
+    case 'pin':
+      return {
+        ...state,
+        messages: state.messages.map(message =>
+          message.id === action.id ? { ...message, pinned: action.pinned || undefined } : message
+        ),
+      };
+
+    case 'pendingTurns':
+      return { ...state, pendingTurns: action.turns };
+
+    case 'recording':
+      return { ...state, recordingUrl: action.url };
+
+    case 'video':
+      return { ...state, video: action.video };
+
+    case 'notice':
+      return { ...state, notice: action.notice };
+
+    case 'openSession': {
+      const { session } = action;
+      return {
+        ...state,
+        messages: session.messages,
+        pendingTurns: [],
+        sessionId: session.id,
+        startedAt: session.recordingStartedAt ?? session.messages[0]?.createdAt ?? session.createdAt,
+        recordingUrl: action.recordingUrl,
+      };
+    }
+
+    case 'dismissError':
+      return state.phase === 'error' ? { ...state, phase: 'idle', connectionState: 'idle' } : state;
+  }
+}
+
+export const isConnected = (state: SessionState) =>
+  state.connectionState === 'open' || state.connectionState === 'reconnecting';
+
+/** The avatar's face: activity states win over the turn's expression while they last. */
+export function selectEmotion(state: SessionState): Emotion {
+  if (!isConnected(state)) return 'neutral';
+  if ((state.isUserSpeaking && !state.isPlaying) || state.phase === 'interrupted') return 'listening';
+  if (state.phase === 'thinking') return 'thinking';
+  if (state.expression !== 'neutral') return state.expression;
+  if (state.phase === 'speaking') return 'talking';
+  return 'neutral';
+}
@@ -0,0 +1,785 @@
+import { useCallback, useEffect, useReducer, useRef } from 'react';
+import { Content, FunctionCall, LiveServerMessage, Part } from '@google/genai';
+import { ConnectionState, ConnectionStateInfo, InputMode, LiveAudioService, systemInstructionFor } from '../services/liveAudioService';
+import { PlaybackEngine } from '../services/playbackEngine';
+import { canSpeak, speak, stopSpeaking } from '../services/speechOutput';
+import { TextChatService } from '../services/textChatService';
+import { TranscriptAssembler, TranscriptTurn } from '../services/transcriptAssembler';
+import { VideoSource } from '../services/videoCapture';
+import { Attachment } from '../services/attachments';
+import { appendMessage, createSession, getRecordingUrl, saveRecording, setMessagePinned } from '../services/historyService';
+import { searchKnowledge } from '../services/knowledgeService';
+import { getMemoryContext } from '../services/memoryService';
+import { reportTelemetry } from '../services/telemetryService';
+import { ToolRegistry, formatToolCall, toFunctionResponse } from '../tools/toolRegistry';
+import { BUILTIN_TOOLS } from '../tools/builtinTools';
+import { createSearchKnowledgeTool } from '../tools/knowledgeTool';
+import { MEMORY_TOOLS, formatMemoryContext } from '../tools/memoryTools';
+import { classifyEmotion, EmotionEstimate } from '../emotion/emotionClassifier';
+import { EmotionSmoother } from '../emotion/emotionSmoother';
+import { createSetEmotionTool } from '../emotion/emotionTool';
+import { isControlTarget, isTypingTarget } from '../a11y/shortcuts';
+import { useI18n } from '../i18n/i18n';
+import { findLanguage, languageName } from '../i18n/languages';
+import { createSetLanguageTool } from '../i18n/languageTool';
+import { ConversationRecorder } from '../recording/conversationRecorder';
+import { SessionTelemetry } from '../telemetry/sessionTelemetry';
+import { Banner } from '../components/StatusBanner';
+import { AudioSettings, Citation, KnowledgeHit, Message, Persona, SessionDetail } from '../types';
+import { initialSessionState, isConnected, selectEmotion, sessionReducer } from './sessionReducer';
+
+// Messages replayed to a fresh session when a dropped one cannot be resumed
+const RECONNECT_CONTEXT_MESSAGES = 20;
+// The local classifier only guesses; the model's own report is trusted more
+const CLASSIFIER_CONFIDENCE_SCALE = 0.8;
+
+export interface LucaSessionOptions {
+  persona: Persona;
+  // Read when connecting; changes apply from the next connection
+  allowInterruptions: boolean;
+  recordingEnabled: boolean;
+  // Applied to a running session as they change
+  inputMode: InputMode;
+  audioSettings: AudioSettings;
+  // Where to reach the Live relay and how to authenticate to it; see LiveAudioServiceOptions
+  relayUrl?: string;
+  getToken?: () => Promise<string>;
+  // Save the conversation to this server's history. Defaults to true.
+  saveHistory?: boolean;
+  // Let LUCA remember facts about the user from one session to the next. Defaults to true.
+  memory?: boolean;
+  // Report latency, playback and usage figures for the /admin dashboard. Defaults to true.
+  telemetry?: boolean;
+  // Backs the search_knowledge tool; defaults to this server's knowledge base
+  searchKnowledge?: (query: string) => Promise<KnowledgeHit[]>;
+  // Carry on in text chat when the Live connection fails or there's no mic. Defaults to true.
+  textFallback?: boolean;
+  // Read text chat replies aloud with the browser's speech synthesis
+  speakReplies?: boolean;
+  // Something was written to the conversation history
+  onHistoryChange?: () => void;
+}
+
+// Text chat standing in for a Live session
+interface TextSession {
+  reply: (parts: Part[]) => void;
+  stop: () => void;
+}
+
+/**
+ * One voice conversation with LUCA: owns the Live connection, playback,
+ * transcript, tools, recording and history, and reduces their events into
+ * a single SessionState the UI renders from. LUCA replies in the
+ * I18nProvider's language, or in the user's own when that is auto. When
+ * voice isn't available the conversation carries on in text chat.
+ */
+export function useLucaSession(options: LucaSessionOptions) {
+  const [state, dispatch] = useReducer(sessionReducer, initialSessionState);
+
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const i18n = useI18n();
+  const { t } = i18n;
+  const i18nRef = useRef(i18n);
+  i18nRef.current = i18n;
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  const liveServiceRef = useRef<LiveAudioService | null>(null);
+  const textSessionRef = useRef<TextSession | null>(null);
+  // Bumped for each reply read aloud, so a cancelled one doesn't end the next
+  const speechIdRef = useRef(0);
+  const playbackRef = useRef<PlaybackEngine | null>(null);
+  const sessionIdRef = useRef<string | null>(null);
+  const emotionSmootherRef = useRef(new EmotionSmoother());
+  const recorderRef = useRef<ConversationRecorder | null>(null);
+  const telemetryRef = useRef<SessionTelemetry | null>(null);
+  // Set once the model reports its own emotion this turn; the classifier then stands down
+  const modelEmotionReportedRef = useRef(false);
+  // Knowledge base sources found since the last AI message, credited to the next one
+  const pendingCitationsRef = useRef<Citation[]>([]);
+  // Language the model last reported speaking, when it picks the language itself
+  const detectedLanguageRef = useRef<string | undefined>(undefined);
+
+  const connected = isConnected(state);
+  const connecting = state.connectionState === 'connecting';
+
+  const setNotice = useCallback((notice: Banner | null) => dispatch({ type: 'notice', notice }), []);
+
+  const historyChanged = useCallback(() => optionsRef.current.onHistoryChange?.(), []);
+
+  // Device and processing changes apply to a running session without reconnecting
+  const { audioSettings, inputMode } = options;
+  useEffect(() => {
+    liveServiceRef.current?.updateAudioSettings(audioSettings).catch(err => {
+      console.error("Failed to switch microphone:", err);
+      setNotice({ tone: 'warning', text: i18nRef.current.t('session.micSwitchFailed', { error: err.message }), dismissible: true });
+    });
+  }, [audioSettings, setNotice]);
+
+  useEffect(() => {
+    playbackRef.current?.setOutputDevice(audioSettings.outputDeviceId).catch(err => {
+      console.error("Failed to switch speaker:", err);
+    });
+  }, [audioSettings.outputDeviceId]);
+
+  // Unlike barge-in, the input mode can change mid-conversation
+  useEffect(() => {
+    liveServiceRef.current?.setInputMode(inputMode);
+  }, [inputMode]);
+
+  // Recordings of the current session live in memory until replaced
+  useEffect(() => {
+    const url = state.recordingUrl;
+    if (!url?.startsWith('blob:')) return;
+    return () => URL.revokeObjectURL(url);
+  }, [state.recordingUrl]);
+
+  // Success notices clear themselves
+  useEffect(() => {
+    if (state.notice?.tone !== 'success') return;
+    const timer = setTimeout(() => setNotice(null), 4000);
+    return () => clearTimeout(timer);
+  }, [state.notice, setNotice]);
+
+  // A widget removed from its page takes its conversation with it
+  useEffect(() => () => {
+    liveServiceRef.current?.disconnect();
+    textSessionRef.current?.stop();
+  }, []);
+
+  // A closing tab never sees the socket close, so report what was measured now
+  useEffect(() => {
+    const handlePageHide = () => telemetryRef.current?.end();
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, []);
+
+  const setPushToTalk = useCallback((pressed: boolean) => {
+    liveServiceRef.current?.setPushToTalk(pressed);
+  }, []);
+
+  // Hold Space to talk
+  useEffect(() => {
+    if (inputMode !== 'push-to-talk' || !connected) return;
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTypingTarget(e)) return;
+      const pressed = e.type === 'keydown';
+      // A focused button or toggle keeps Space; letting go still ends a turn started elsewhere
+      if (isControlTarget(e)) {
+        if (!pressed) setPushToTalk(false);
+        return;
+      }
+      e.preventDefault();
+      if (!e.repeat) setPushToTalk(pressed);
+    };
+    const release = () => setPushToTalk(false);
+    window.addEventListener('keydown', handleKey);
+    window.addEventListener('keyup', handleKey);
+    window.addEventListener('blur', release);
+    return () => {
+      window.removeEventListener('keydown', handleKey);
+      window.removeEventListener('keyup', handleKey);
+      window.removeEventListener('blur', release);
+      release();
+    };
+  }, [inputMode, connected, setPushToTalk]);
+
+  // Model emotions go through the smoother so the avatar doesn't flicker
+  const applyEmotionEstimate = useCallback((estimate: EmotionEstimate) => {
+    const next = emotionSmootherRef.current.propose(estimate);
+    if (next) dispatch({ type: 'expression', emotion: next });
+  }, []);
+
+  const resetTurnEmotion = useCallback(() => {
+    emotionSmootherRef.current.reset();
+    modelEmotionReportedRef.current = false;
+  }, []);
+
+  // Add a message to the transcript and persist it to the current session
+  const commitMessage = useCallback((
+    role: Message['role'],
+    text: string,
+    extra: Partial<Pick<Message, 'source' | 'status' | 'tool' | 'createdAt' | 'endedAt' | 'attachments' | 'citations'>> = {}
+  ) => {
+    const message: Message = {
+      role,
+      text,
+      id: crypto.randomUUID(),
+      createdAt: Date.now(),
+      // Typed messages and text chat replies say so
+      source: role === 'tool' ? 'tool' : 'voice',
+      status: 'complete',
+      emotion: selectEmotion(stateRef.current),
+      language: role === 'tool' ? undefined : detectedLanguageRef.current,
+      ...extra,
+    };
+    dispatch({ type: 'message', message });
+
+    const currentSessionId = sessionIdRef.current;
+    if (currentSessionId) {
+      appendMessage(currentSessionId, message)
+        .then(historyChanged)
+        .catch(err => console.error("Failed to save message:", err));
+    }
+  }, [historyChanged]);
+
+  // Initialize the playback engine (24kHz output + analyser) once
+  const initAudioPlayback = useCallback(() => {
+    if (playbackRef.current) return playbackRef.current;
+
+    const engine = new PlaybackEngine();
+    engine.setOutputDevice(optionsRef.current.audioSettings.outputDeviceId).catch(err => {
+      console.error("Failed to select speaker, using the default:", err);
+    });
+    engine.on('start', ({ bufferDelay }) => {
+      telemetryRef.current?.replyAudible(Date.now() + bufferDelay * 1000);
+      dispatch({ type: 'playbackStart' });
+      // Hide preparation cue once the jitter buffer has filled
+      setTimeout(() => dispatch({ type: 'speechPrepared' }), bufferDelay * 1000);
+    });
+    engine.on('underrun', ({ gap }) => {
+      console.warn(`Playback underrun (${Math.round(gap * 1000)}ms gap)`);
+      telemetryRef.current?.underrun();
+    });
+    // Model audio is recorded at the time it is scheduled to play, not when it arrives
+    engine.on('scheduled', ({ samples, sampleRate, delay }) => {
+      recorderRef.current?.addModelAudio(samples, sampleRate, Date.now() + delay * 1000);
+    });
+    engine.on('flushed', () => {
+      recorderRef.current?.truncateModelAudio(Date.now());
+    });
+    engine.on('drained', () => dispatch({ type: 'playbackDrained' }));
+    playbackRef.current = engine;
+    return engine;
+  }, []);
+
+  // Text chat replies stand in for Live audio, when reading them aloud is on
+  const speakReply = useCallback((text: string, lang: string | undefined) => {
+    if (!optionsRef.current.speakReplies || !canSpeak()) return;
+    const id = ++speechIdRef.current;
+    speak(text, lang, () => {
+      if (speechIdRef.current !== id) return;
+      dispatch({ type: 'playbackStart' });
+      dispatch({ type: 'speechPrepared' });
+    }).then(() => {
+      if (speechIdRef.current === id) dispatch({ type: 'playbackDrained' });
+    });
+  }, []);
+
+  const stopSpeech = useCallback(() => {
+    speechIdRef.current++;
+    stopSpeaking();
+    dispatch({ type: 'playbackDrained' });
+  }, []);
+
+  const stopTextSession = useCallback(() => {
+    const textSession = textSessionRef.current;
+    if (!textSession) return false;
+    textSessionRef.current = null;
+    textSession.stop();
+    stopSpeech();
+    return true;
+  }, [stopSpeech]);
+
+  const disconnect = useCallback(async () => {
+    if (stopTextSession()) dispatch({ type: 'connection', state: 'closed', info: {} });
+    await liveServiceRef.current?.disconnect();
+    // The conversation stays on screen; it is already saved to history
+    sessionIdRef.current = null;
+    historyChanged();
+  }, [historyChanged, stopTextSession]);
+
+  const connect = useCallback(async () => {
+    const {
+      persona,
+      allowInterruptions,
+      recordingEnabled,
+      inputMode,
+      audioSettings,
+      relayUrl,
+      getToken,
+      saveHistory = true,
+      memory = true,
+      telemetry: reportsTelemetry = true,
+      searchKnowledge: search = searchKnowledge,
+      textFallback = true,
+    } = optionsRef.current;
+
+    stopTextSession();
+    const startedAt = Date.now();
+    const recorder = recordingEnabled ? new ConversationRecorder(startedAt) : null;
+    recorderRef.current = recorder;
+    resetTurnEmotion();
+    pendingCitationsRef.current = [];
+    detectedLanguageRef.current = undefined;
+    // Without a picked language the model follows the user's and reports what it hears
+    const language = findLanguage(i18nRef.current.language);
+
+    const newSessionId = crypto.randomUUID();
+    sessionIdRef.current = saveHistory ? newSessionId : null;
+    dispatch({ type: 'connect', sessionId: newSessionId, startedAt });
+    telemetryRef.current?.end();
+    const telemetry = reportsTelemetry ? new SessionTelemetry(newSessionId, persona.id, startedAt, reportTelemetry) : null;
+    telemetryRef.current = telemetry;
+    if (saveHistory) {
+      createSession(newSessionId).catch(err => {
+        console.error("Failed to create history session:", err);
+        sessionIdRef.current = null;
+      });
+    }
+    const playback = initAudioPlayback();
+
+    // Resume audio context immediately on user gesture
+    const resumePromise = playback.resume();
+
+    const service = new LiveAudioService({ inputMode, audio: audioSettings, relayUrl, getToken });
+    liveServiceRef.current = service;
+    let textSession: TextSession | null = null;
+
+    const toolRegistry = new ToolRegistry({
+      // Tools that finish later (e.g. timers) prompt LUCA to speak up
+      notify: (text) => {
+        if (liveServiceRef.current === service) service.sendText(text);
+        else if (textSession && textSessionRef.current === textSession) textSession.reply([{ text }]);
+      },
+    }).register(
+      ...BUILTIN_TOOLS,
+      ...(memory ? MEMORY_TOOLS : []),
+      createSetEmotionTool(estimate => {
+        modelEmotionReportedRef.current = true;
+        applyEmotionEstimate(estimate);
+      }),
+      ...(language ? [] : [createSetLanguageTool(code => {
+        detectedLanguageRef.current = code;
+      })]),
+      createSearchKnowledgeTool(search, citations => {
+        const pending = pendingCitationsRef.current;
+        const isNew = (c: Citation) => !pending.some(p => p.documentId === c.documentId && p.heading === c.heading);
+        pendingCitationsRef.current = [...pending, ...citations.filter(isNew)];
+      })
+    );
+
+    // Knowledge base sources found since the last AI message, for the one being committed
+    const takeCitations = () => {
+      const citations = pendingCitationsRef.current;
+      pendingCitationsRef.current = [];
+      return citations.length ? citations : undefined;
+    };
+
+    // Fallback when the model doesn't report its emotion: classify the turn so far
+    const classifyReply = (text: string) => {
+      if (modelEmotionReportedRef.current) return;
+      const estimate = classifyEmotion(text);
+      applyEmotionEstimate({ ...estimate, confidence: estimate.confidence * CLASSIFIER_CONFIDENCE_SCALE });
+    };
+
+    // Runs the model's calls and logs the visible ones to the transcript
+    const runTools = async (calls: FunctionCall[]) => {
+      dispatch({ type: 'thinking' });
+      const records = await toolRegistry.executeAll(calls);
+      records.filter(record => !record.hidden).forEach(record => {
+        const { id, nonBlocking, hidden, ...tool } = record;
+        commitMessage('tool', formatToolCall(record), { tool });
+      });
+      return records;
+    };
+
+    const transcript = new TranscriptAssembler({
+      onCommit: turn => {
+        telemetry?.turn(turn.role);
+        commitMessage(turn.role, turn.text, {
+          createdAt: turn.startedAt,
+          endedAt: turn.endedAt,
+          status: turn.interrupted ? 'interrupted' : 'complete',
+          citations: turn.role === 'ai' ? takeCitations() : undefined,
+        });
+      },
+      onPendingChange: pending => {
+        dispatch({ type: 'pendingTurns', turns: pending });
+        const aiTurn = pending.find(turn => turn.role === 'ai');
+        if (aiTurn) classifyReply(aiTurn.text);
+      },
+    });
+
+    // Start microphone in parallel with connection
+    const micPromise = service.startMicrophone().catch(err => {
+      console.error("Mic start failed early:", err);
+      return null;
+    });
+
+    // A session can go ahead without its memories if they can't be loaded
+    const memoryPromise = memory
+      ? getMemoryContext().then(formatMemoryContext).catch(err => {
+          console.error("Failed to load memories:", err);
+          return '';
+        })
+      : Promise.resolve('');
+
+    // App-level rules every persona template can place with {{interruptionRule}} / {{toolsRule}}
+    const variables = {
+      interruptionRule: allowInterruptions
+        ? 'If the user starts speaking while you are talking, stop and listen to them.'
+        : 'Do not stop your response even if you hear the user speaking, unless they explicitly ask you to stop.',
+      toolsRule: `You have tools. Use get_current_time for anything about the time or date, calculate for any arithmetic, set_timer for timers and reminders, save_note/list_notes/delete_note for notes, ${memory ? 'remember/recall/forget for lasting facts about the user, ' : ''}and search_knowledge for questions about products, policies or documentation. Never guess what a tool can tell you. Call set_emotion at the start of every reply.`,
+    };
+
+    const languageRule = language
+      ? `Speak ${languageName(language.code, 'en')} unless the user asks you to switch language.`
+      : 'Reply in the language the user speaks, and switch when they switch. Call set_language at the start of the conversation and whenever the language changes.';
+
+    const finishRecording = () => {
+      if (!recorder || recorderRef.current !== recorder) return;
+      recorderRef.current = null;
+      if (recorder.isEmpty) return;
+      const wav = recorder.toWav();
+      dispatch({ type: 'recording', url: URL.createObjectURL(wav) });
+      const currentSessionId = sessionIdRef.current;
+      if (currentSessionId) {
+        saveRecording(currentSessionId, wav, recorder.startedAt)
+          .then(historyChanged)
+          .catch(err => console.error("Failed to save recording:", err));
+      }
+    };
+
+    const handleStateChange = (connectionState: ConnectionState, info: ConnectionStateInfo) => {
+      if (liveServiceRef.current !== service) return;
+      if (connectionState === 'reconnecting' && info.attempt === 1) {
+        telemetry?.reconnect();
+      }
+      if (connectionState === 'closed' || connectionState === 'failed') {
+        // Keep whatever was half-said
+        transcript.flush();
+        telemetry?.end();
+        finishRecording();
+        service.stopVideo();
+        playbackRef.current?.flush();
+      }
+      if (connectionState === 'failed') {
+        service.stopMicrophone();
+      }
+      // A reconnect says whether the Live session resumed or was rebuilt from recent messages
+      const reconnected = connectionState === 'open' && info.resumed !== undefined;
+      dispatch({
+        type: 'connection',
+        state: connectionState,
+        info,
+        notice: reconnected ? {
+          tone: 'success',
+          text: i18nRef.current.t(info.resumed ? 'session.reconnectedResumed' : 'session.reconnectedRestored'),
+        } : undefined,
+      });
+      if (connectionState === 'failed') {
+        startTextChat(info.error?.message || i18nRef.current.t('session.liveUnavailable'));
+      }
+    };
+
+    const handleInputAudio = (pcm: Int16Array, sampleRate: number, capturedAt: number) => {
+      recorderRef.current?.addUserAudio(pcm, sampleRate, capturedAt);
+    };
+
+    // The VAD (or push-to-talk) decides when LUCA looks like it's listening
+    const handleVoiceActivity = (active: boolean, at: number) => {
+      if (liveServiceRef.current !== service) return;
+      // Timed from the end of speech, not from when the VAD's hangover ran out
+      if (!active) telemetry?.userFinished(at);
+      dispatch({ type: 'voiceActivity', active });
+    };
+
+    // Fallback context for sessions that could not be resumed
+    const getContext = (): Content[] => stateRef.current.messages
+      .filter(m => m.role !== 'tool')
+      .slice(-RECONNECT_CONTEXT_MESSAGES)
+      .map(m => ({ role: m.role === 'user' ? 'user' : 'model', parts: [{ text: m.text }] }));
+
+    const handleMessage = (message: LiveServerMessage) => {
+      const base64Audio = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
+      if (base64Audio) {
+        const binaryString = atob(base64Audio);
+        const bytes = new Uint8Array(binaryString.length);
+        for (let i = 0; i < binaryString.length; i++) {
+          bytes[i] = binaryString.charCodeAt(i);
+        }
+        playbackRef.current?.enqueue(bytes);
+      }
+
+      transcript.ingest(message);
+
+      if (message.usageMetadata) telemetry?.usage(message.usageMetadata);
+
+      const functionCalls = message.toolCall?.functionCalls;
+      if (functionCalls?.length) {
+        runTools(functionCalls).then(records => service.sendToolResponse(records.map(toFunctionResponse)));
+      }
+
+      if (message.toolCallCancellation?.ids?.length) {
+        console.log("Tool calls cancelled by server:", message.toolCallCancellation.ids);
+      }
+
+      if (message.serverContent?.interrupted) {
+        if (allowInterruptions) {
+          telemetry?.turnEnded();
+          playbackRef.current?.flush();
+          resetTurnEmotion();
+          dispatch({ type: 'interrupted' });
+        } else {
+          console.log("Server interruption received (ignored, interruptions are off)");
+        }
+      }
+
+      if (message.serverContent?.turnComplete) {
+        telemetry?.turnEnded();
+        resetTurnEmotion();
+        dispatch({ type: 'turnComplete' });
+        playbackRef.current?.endTurn(); // Prebuffer again for the next turn
+      }
+    };
+
+    const memoryContext = await memoryPromise;
+
+    // Carries the conversation on in text: same persona, tools and transcript,
+    // replies streamed from generateContent and optionally read aloud
+    const startTextChat = (reason: string) => {
+      if (!textFallback || liveServiceRef.current !== service) return;
+      liveServiceRef.current = null;
+
+      const chat = new TextChatService({
+        systemInstruction: systemInstructionFor(persona, { variables, languageRule, memory: memoryContext }),
+        tools: toolRegistry.declarations(),
+        history: getContext(),
+        // Scheduling only means something to the Live API
+        ontoolcalls: async calls => (await runTools(calls)).map(toFunctionResponse).map(({ scheduling, ...response }) => response),
+      });
+      // The reply being streamed, if any
+      let streaming: TranscriptTurn | null = null;
+
+      // Keeps what a cut-off reply had said so far
+      const cutOff = () => {
+        if (streaming?.text) {
+          commitMessage('ai', streaming.text, { source: 'typed', status: 'interrupted', createdAt: streaming.startedAt, endedAt: Date.now() });
+        }
+        streaming = null;
+        dispatch({ type: 'pendingTurns', turns: [] });
+      };
+
+      const reply = async (parts: Part[]) => {
+        cutOff();
+        stopSpeech();
+        resetTurnEmotion();
+        dispatch({ type: 'thinking' });
+        const turn: TranscriptTurn = { id: crypto.randomUUID(), role: 'ai', text: '', startedAt: Date.now(), endedAt: Date.now(), source: 'typed' };
+        streaming = turn;
+        try {
+          const text = await chat.send(parts, soFar => {
+            if (streaming !== turn) return;
+            turn.text = soFar;
+            turn.endedAt = Date.now();
+            dispatch({ type: 'pendingTurns', turns: [{ ...turn }] });
+            classifyReply(soFar);
+          });
+          if (streaming !== turn) return;
+          streaming = null;
+          dispatch({ type: 'pendingTurns', turns: [] });
+          if (text) {
+            commitMessage('ai', text, { source: 'typed', createdAt: turn.startedAt, endedAt: Date.now(), citations: takeCitations() });
+            speakReply(text, language?.code || persona.languageCode || detectedLanguageRef.current);
+          }
+        } catch (err: any) {
+          // Cut off by a newer message or by disconnecting
+          if (streaming !== turn) return;
+          cutOff();
+          console.error("Text chat reply failed:", err);
+          setNotice({ tone: 'error', text: i18nRef.current.t('session.textReplyFailed', { error: err.message }), dismissible: true });
+        }
+        resetTurnEmotion();
+        dispatch({ type: 'turnComplete' });
+      };
+
+      textSession = {
+        reply: parts => void reply(parts),
+        stop: () => {
+          cutOff();
+          chat.stop();
+        },
+      };
+      textSessionRef.current = textSession;
+      dispatch({
+        type: 'textMode',
+        notice: {
+          tone: 'warning',
+          text: i18nRef.current.t('session.textMode', { reason }),
+          action: { label: i18nRef.current.t('session.tryVoice'), onClick: connect },
+          dismissible: true,
+        },
+      });
+    };
+
+    try {
+      await service.connect(
+        {
+          onmessage: handleMessage,
+          onstatechange: handleStateChange,
+          onvoiceactivity: handleVoiceActivity,
+          oninputaudio: handleInputAudio,
+        },
+        persona,
+        {
+          allowInterruptions,
+          tools: toolRegistry.declarations(),
+          variables,
+          memory: memoryContext,
+          languageCode: language?.code,
+          voice: language?.voice,
+          languageRule,
+          getContext,
+        }
+      );
+    } catch (err) {
+      // The 'failed' state change already surfaces this in the status banner
+      console.error("Failed to connect:", err);
+      // The mic may have opened after the failure stopped it; release it once it has
+      await micPromise;
+      service.stopMicrophone();
+      return;
+    }
+
+    // Wait for mic and audio context to be ready
+    const [stream] = await Promise.all([micPromise, resumePromise]);
+    // Disconnected while the mic was opening
+    if (service.connectionState === 'closed') return;
+
+    if (stream) {
+      dispatch({ type: 'mic', on: true });
+    } else if (textFallback && liveServiceRef.current === service) {
+      await service.disconnect();
+      startTextChat(i18nRef.current.t('session.noMicrophone'));
+    } else {
+      setNotice({
+        tone: 'warning',
+        text: i18nRef.current.t('session.micUnavailable'),
+        dismissible: true,
+      });
+    }
+  }, [applyEmotionEstimate, commitMessage, historyChanged, initAudioPlayback, resetTurnEmotion, setNotice, speakReply, stopSpeech, stopTextSession]);
+
+  const sendMessage = useCallback((text: string, attachments: Attachment[] = []) => {
+    const service = liveServiceRef.current;
+    const textSession = textSessionRef.current;
+    if ((!text && attachments.length === 0) || (!service && !textSession)) return;
+
+    commitMessage('user', text, { source: 'typed', attachments: attachments.length ? attachments.map(a => a.name) : undefined });
+    if (textSession) {
+      textSession.reply([...attachments.map(a => a.part), ...(text ? [{ text }] : [])]);
+      return;
+    }
+    service!.sendText(text, attachments.map(a => a.part));
+    telemetryRef.current?.userFinished();
+    dispatch({ type: 'thinking' });
+  }, [commitMessage]);
+
+  /** Sends the question an AI message answered again, for a fresh answer. */
+  const askAgain = useCallback((messageId: string) => {
+    const { messages } = stateRef.current;
+    const index = messages.findIndex(m => m.id === messageId);
+    const question = messages.slice(0, index).reverse().find(m => m.role === 'user' && m.text);
+    if (question) sendMessage(question.text);
+  }, [sendMessage]);
+
+  const pinMessage = useCallback((messageId: string, pinned: boolean) => {
+    dispatch({ type: 'pin', id: messageId, pinned });
+    // A running session is only saved when history is on; a past one on screen always is
+    const state = stateRef.current;
+    const sessionId = isConnected(state) || state.connectionState === 'connecting' ? sessionIdRef.current : state.sessionId;
+    if (sessionId) {
+      setMessagePinned(sessionId, messageId, pinned)
+        .then(historyChanged)
+        .catch(err => console.error("Failed to pin message:", err));
+    }
+  }, [historyChanged]);
+
+  const toggleVideo = useCallback(async (source: VideoSource) => {
+    const service = liveServiceRef.current;
+    if (!service) return;
+    if (stateRef.current.video?.source === source) {
+      service.stopVideo();
+      dispatch({ type: 'video', video: null });
+      return;
+    }
+    try {
+      const stream = await service.startVideo(source, undefined, () => dispatch({ type: 'video', video: null }));
+      dispatch({ type: 'video', video: { source, stream } });
+    } catch (err: any) {
+      // Dismissing the screen picker is not an error worth showing
+      if (err?.name === 'NotAllowedError' && source === 'screen') return;
+      console.error(`Failed to start ${source}:`, err);
+      const text = i18nRef.current.t(source === 'camera' ? 'session.cameraFailed' : 'session.screenFailed', { error: err.message });
+      setNotice({ tone: 'warning', text, dismissible: true });
+    }
+  }, [setNotice]);
+
+  /** Shows a past session. Returns false while a live one is running, since past sessions are read-only. */
+  const openSession = useCallback((session: SessionDetail) => {
+    if (isConnected(stateRef.current) || stateRef.current.connectionState === 'connecting') return false;
+    dispatch({
+      type: 'openSession',
+      session,
+      recordingUrl: session.recordingStartedAt !== undefined ? getRecordingUrl(session.id) : null,
+    });
+    return true;
+  }, []);
+
+  const dismissNotice = useCallback(() => {
+    if (stateRef.current.notice) {
+      setNotice(null);
+    } else {
+      dispatch({ type: 'dismissError' });
+    }
+  }, [setNotice]);
+
+  const { connectionState, connectionInfo } = state;
+  const banner: Banner | null = state.notice ?? (
+    connectionState === 'reconnecting' ? {
+      tone: 'progress',
+      text: connectionInfo.attempt && connectionInfo.attempt > 1
+        ? t('session.reconnectingAttempt', { attempt: connectionInfo.attempt })
+        : t('session.reconnecting'),
+    } : connectionState === 'failed' ? {
+      tone: 'error',
+      text: connectionInfo.error?.message
+        ? t('session.connectFailedReason', { name: options.persona.name, error: connectionInfo.error.message })
+        : t('session.connectFailed', { name: options.persona.name }),
+      action: { label: t('session.retry'), onClick: connect },
+      dismissible: true,
+    } : null
+  );
+
+  // Analysers are created once per engine and mic, so reading them here is safe;
+  // the isPlaying and isMicOn flags they hang off are state and re-render on change
+  const micAnalyser = state.isMicOn ? liveServiceRef.current?.inputAnalyser ?? null : null;
+  const activeAnalyser = state.isPlaying ? playbackRef.current?.analyser ?? null : micAnalyser;
+
+  return {
+    state,
+    emotion: selectEmotion(state),
+    // The notice or connection problem to show above the conversation
+    banner,
+    isConnected: connected,
+    isConnecting: connecting,
+    // Voice isn't available; the conversation is in text chat
+    isTextMode: connected && state.mode === 'text',
+    micAnalyser,
+    activeAnalyser,
+    connect,
+    disconnect,
+    sendMessage,
+    askAgain,
+    pinMessage,
+    setPushToTalk,
+    toggleVideo,
+    openSession,
+    setNotice,
+    dismissNotice,
+  };
+}
+
+export type LucaSession = ReturnType<typeof useLucaSession>;
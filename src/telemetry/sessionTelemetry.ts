@@ -0,0 +1,105 @@
+// Measures how one live session performs and reports it to the server in batches.
+
+import { UsageMetadata } from '@google/genai';
+import { LatencySample, TelemetryReport } from '../types';
+
+const REPORT_INTERVAL = 30000;
+
+type Counters = Pick<TelemetryReport, 'userTurns' | 'aiTurns' | 'underruns' | 'reconnects' | 'promptTokens' | 'responseTokens' | 'totalTokens'>;
+
+export class SessionTelemetry {
+  private counters: Counters = {
+    userTurns: 0,
+    aiTurns: 0,
+    underruns: 0,
+    reconnects: 0,
+    promptTokens: 0,
+    responseTokens: 0,
+    totalTokens: 0,
+  };
+  // Samples not yet reported
+  private latencies: LatencySample[] = [];
+  // When the user last finished speaking or sent a message, until the reply is heard
+  private awaitingReplySince: number | null = null;
+  private endedAt: number | undefined;
+  private dirty = true;
+  private timer: ReturnType<typeof setInterval>;
+
+  constructor(
+    private sessionId: string,
+    private personaId: string,
+    private startedAt: number,
+    private send: (report: TelemetryReport) => Promise<void>,
+  ) {
+    this.timer = setInterval(() => this.flush(), REPORT_INTERVAL);
+  }
+
+  /** The user finished a spoken turn or sent a typed one; the reply clock starts. */
+  userFinished(at = Date.now()) {
+    this.awaitingReplySince = at;
+  }
+
+  /** The reply became audible at `at`. Only the first audio after the user finished counts. */
+  replyAudible(at: number) {
+    if (this.awaitingReplySince === null) return;
+    this.latencies.push({ at, ms: Math.max(0, Math.round(at - this.awaitingReplySince)) });
+    this.awaitingReplySince = null;
+    this.dirty = true;
+  }
+
+  /** A turn with no audio reply (or one cut off) doesn't get to time the next one. */
+  turnEnded() {
+    this.awaitingReplySince = null;
+  }
+
+  turn(role: 'user' | 'ai') {
+    this.counters[role === 'user' ? 'userTurns' : 'aiTurns']++;
+    this.dirty = true;
+  }
+
+  underrun() {
+    this.counters.underruns++;
+    this.dirty = true;
+  }
+
+  reconnect() {
+    this.counters.reconnects++;
+    this.dirty = true;
+  }
+
+  // Live reports usage per response, each counting the context the model re-read for it
+  usage(metadata: UsageMetadata) {
+    this.counters.promptTokens += metadata.promptTokenCount ?? 0;
+    this.counters.responseTokens += metadata.responseTokenCount ?? 0;
+    this.counters.totalTokens += metadata.totalTokenCount ?? 0;
+    this.dirty = true;
+  }
+
+  end(at = Date.now()) {
+    if (this.endedAt !== undefined) return;
+    this.endedAt = at;
+    this.dirty = true;
+    clearInterval(this.timer);
+    this.flush();
+  }
+
+  private flush() {
+    if (!this.dirty) return;
+    const latencies = this.latencies;
+    this.latencies = [];
+    this.dirty = false;
+    this.send({
+      sessionId: this.sessionId,
+      personaId: this.personaId,
+      startedAt: this.startedAt,
+      endedAt: this.endedAt,
+      ...this.counters,
+      latencies,
+    }).catch(err => {
+      console.warn("Failed to report telemetry:", err);
+      // Counters are totals, so only the samples need keeping for the next try
+      this.latencies = [...latencies, ...this.latencies];
+      this.dirty = true;
+    });
+  }
+}
@@ -0,0 +1,170 @@
+import { vi } from "vitest";
+
+// Web Audio and getUserMedia stand-ins for jsdom, which has neither. Only what the
+// app touches is here; nodes record how they were used instead of making sound.
+
+class FakeAudioNode {
+  connections = new Set<unknown>();
+
+  connect(node: unknown) {
+    this.connections.add(node);
+    return node;
+  }
+
+  disconnect() {
+    this.connections.clear();
+  }
+}
+
+export class FakeAnalyserNode extends FakeAudioNode {
+  fftSize = 2048;
+
+  get frequencyBinCount() {
+    return this.fftSize / 2;
+  }
+
+  getByteFrequencyData(data: Uint8Array) {
+    data.fill(0);
+  }
+
+  getByteTimeDomainData(data: Uint8Array) {
+    data.fill(128);
+  }
+}
+
+export class FakeGainNode extends FakeAudioNode {
+  gain = { value: 1 };
+}
+
+export class FakeAudioBuffer {
+  private channels: Float32Array[];
+
+  constructor(numberOfChannels: number, readonly length: number, readonly sampleRate: number) {
+    this.channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+  }
+
+  get duration() {
+    return this.length / this.sampleRate;
+  }
+
+  getChannelData(channel: number) {
+    return this.channels[channel];
+  }
+}
+
+export class FakeAudioBufferSourceNode extends FakeAudioNode {
+  buffer: FakeAudioBuffer | null = null;
+  onended: (() => void) | null = null;
+  // Context time the source was scheduled to start at, and whether it was cut short
+  startTime: number | null = null;
+  stopped = false;
+
+  start(when = 0) {
+    this.startTime = when;
+  }
+
+  stop() {
+    this.stopped = true;
+  }
+}
+
+export interface FakeAudioContextOptions {
+  sampleRate?: number;
+  // Seconds; defaults to wall-clock time since the context was created
+  clock?: () => number;
+}
+
+export class FakeAudioContext {
+  static instances: FakeAudioContext[] = [];
+  readonly sampleRate: number;
+  readonly destination = new FakeAudioNode();
+  readonly audioWorklet = { addModule: vi.fn(async (_url: string) => {}) };
+  state: AudioContextState = "running";
+  sources: FakeAudioBufferSourceNode[] = [];
+  private clock: () => number;
+
+  constructor(options: FakeAudioContextOptions = {}) {
+    this.sampleRate = options.sampleRate ?? 48000;
+    const createdAt = performance.now();
+    this.clock = options.clock ?? (() => (performance.now() - createdAt) / 1000);
+    FakeAudioContext.instances.push(this);
+  }
+
+  get currentTime() {
+    return this.clock();
+  }
+
+  createAnalyser() {
+    return new FakeAnalyserNode();
+  }
+
+  createGain() {
+    return new FakeGainNode();
+  }
+
+  createBuffer(numberOfChannels: number, length: number, sampleRate: number) {
+    return new FakeAudioBuffer(numberOfChannels, length, sampleRate);
+  }
+
+  createBufferSource() {
+    const source = new FakeAudioBufferSourceNode();
+    this.sources.push(source);
+    return source;
+  }
+
+  createMediaStreamSource(_stream: MediaStream) {
+    return new FakeAudioNode();
+  }
+
+  async resume() {
+    this.state = "running";
+  }
+
+  async close() {
+    this.state = "closed";
+  }
+}
+
+/** The capture worklet's node; `capture` plays the part of the worklet posting a frame. */
+export class FakeAudioWorkletNode extends FakeAudioNode {
+  static instances: FakeAudioWorkletNode[] = [];
+  port = { onmessage: null as ((e: MessageEvent<ArrayBuffer>) => void) | null, postMessage() {} };
+
+  constructor(_context: unknown, readonly name: string, readonly options?: AudioWorkletNodeOptions) {
+    super();
+    FakeAudioWorkletNode.instances.push(this);
+  }
+
+  capture(frame: Int16Array) {
+    this.port.onmessage?.({ data: frame.buffer } as MessageEvent<ArrayBuffer>);
+  }
+}
+
+/** 16kHz PCM: a 200Hz tone loud enough for the VAD, or silence. */
+export function pcmFrame(loud: boolean, length = 2048) {
+  const frame = new Int16Array(length);
+  if (loud) {
+    for (let i = 0; i < length; i++) frame[i] = Math.round(Math.sin((2 * Math.PI * 200 * i) / 16000) * 0x3000);
+  }
+  return frame;
+}
+
+/**
+ * Installs the fakes as the page's AudioContext, AudioWorkletNode and
+ * microphone. `vi.unstubAllGlobals()` puts the audio globals back.
+ */
+export function installFakeAudio() {
+  FakeAudioContext.instances = [];
+  FakeAudioWorkletNode.instances = [];
+  const track = { kind: "audio", onended: null, stop: vi.fn() };
+  const stream = { getTracks: () => [track], getAudioTracks: () => [track] };
+  const getUserMedia = vi.fn(async (_constraints: MediaStreamConstraints) => stream as unknown as MediaStream);
+
+  vi.stubGlobal("AudioContext", FakeAudioContext);
+  vi.stubGlobal("AudioWorkletNode", FakeAudioWorkletNode);
+  Object.defineProperty(navigator, "mediaDevices", {
+    configurable: true,
+    value: Object.assign(new EventTarget(), { getUserMedia, enumerateDevices: async () => [] }),
+  });
+  return { getUserMedia, track };
+}
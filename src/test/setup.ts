@@ -0,0 +1,8 @@
+import { cleanup } from "@testing-library/react";
+import { afterEach } from "vitest";
+
+// jsdom does no layout, so there is nothing to scroll
+Element.prototype.scrollIntoView = function () {};
+window.scrollTo = () => {};
+
+afterEach(cleanup);
@@ -0,0 +1,127 @@
+import { evaluateExpression } from './calculator';
+import { ToolDefinition } from './toolRegistry';
+
+const NOTES_STORAGE_KEY = 'luca.notes';
+const MAX_TIMER_SECONDS = 24 * 60 * 60;
+
+interface Note {
+  id: string;
+  text: string;
+  createdAt: number;
+}
+
+const readNotes = (): Note[] => {
+  try {
+    return JSON.parse(localStorage.getItem(NOTES_STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const writeNotes = (notes: Note[]) => localStorage.setItem(NOTES_STORAGE_KEY, JSON.stringify(notes));
+
+export const getCurrentTimeTool: ToolDefinition<{ timeZone?: string }> = {
+  name: 'get_current_time',
+  description: "Returns the current date and time. Use it whenever the user asks about the time, date or day.",
+  parameters: {
+    type: 'object',
+    properties: {
+      timeZone: { type: 'string', description: "IANA time zone such as 'Europe/Paris'. Defaults to the user's own." },
+    },
+  },
+  handler: ({ timeZone }) => {
+    const now = new Date();
+    const zone = timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+    return {
+      iso: now.toISOString(),
+      local: now.toLocaleString(undefined, { timeZone: zone, dateStyle: 'full', timeStyle: 'long' }),
+      timeZone: zone,
+    };
+  },
+};
+
+export const calculatorTool: ToolDefinition<{ expression: string }> = {
+  name: 'calculate',
+  description: 'Evaluates an arithmetic expression exactly. Supports + - * / % ^, parentheses, sqrt, abs, round, floor, ceil, sin, cos, tan, ln, log, exp, pi and e.',
+  parameters: {
+    type: 'object',
+    properties: {
+      expression: { type: 'string', description: "The expression, e.g. '(12.5 * 4) / 3'." },
+    },
+    required: ['expression'],
+  },
+  handler: ({ expression }) => ({ expression, result: evaluateExpression(expression) }),
+};
+
+export const setTimerTool: ToolDefinition<{ seconds: number; label?: string }> = {
+  name: 'set_timer',
+  description: 'Starts a countdown timer. You will be told when it finishes and should then let the user know.',
+  parameters: {
+    type: 'object',
+    properties: {
+      seconds: { type: 'number', description: 'Duration in seconds.' },
+      label: { type: 'string', description: "What the timer is for, e.g. 'pasta'." },
+    },
+    required: ['seconds'],
+  },
+  handler: ({ seconds, label }, context) => {
+    if (!(seconds > 0) || seconds > MAX_TIMER_SECONDS) {
+      throw new Error(`Timer must be between 1 second and ${MAX_TIMER_SECONDS / 3600} hours`);
+    }
+    const name = label || `${seconds} second`;
+    setTimeout(() => context.notify(`The ${name} timer has finished. Tell the user now.`), seconds * 1000);
+    return { status: 'started', label: name, endsAt: new Date(Date.now() + seconds * 1000).toISOString() };
+  },
+};
+
+export const saveNoteTool: ToolDefinition<{ text: string }> = {
+  name: 'save_note',
+  description: 'Saves a short note for the user on this device.',
+  parameters: {
+    type: 'object',
+    properties: {
+      text: { type: 'string', description: 'The note content.' },
+    },
+    required: ['text'],
+  },
+  handler: ({ text }) => {
+    const note: Note = { id: crypto.randomUUID(), text, createdAt: Date.now() };
+    writeNotes([...readNotes(), note]);
+    return { saved: note };
+  },
+};
+
+export const listNotesTool: ToolDefinition = {
+  name: 'list_notes',
+  description: "Lists the user's saved notes, oldest first.",
+  parameters: { type: 'object', properties: {} },
+  handler: () => ({ notes: readNotes() }),
+};
+
+export const deleteNoteTool: ToolDefinition<{ id: string }> = {
+  name: 'delete_note',
+  description: 'Deletes a saved note by id. Call list_notes first to find the id.',
+  parameters: {
+    type: 'object',
+    properties: {
+      id: { type: 'string', description: 'Id of the note to delete.' },
+    },
+    required: ['id'],
+  },
+  handler: ({ id }) => {
+    const notes = readNotes();
+    const remaining = notes.filter(note => note.id !== id);
+    if (remaining.length === notes.length) throw new Error(`No note with id "${id}"`);
+    writeNotes(remaining);
+    return { deleted: id };
+  },
+};
+
+export const BUILTIN_TOOLS: ToolDefinition[] = [
+  getCurrentTimeTool,
+  calculatorTool,
+  setTimerTool,
+  saveNoteTool,
+  listNotesTool,
+  deleteNoteTool,
+];
@@ -0,0 +1,128 @@
+// Small arithmetic evaluator for the calculator tool. Never uses eval.
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  ln: Math.log,
+  log: Math.log10,
+  exp: Math.exp,
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+type Token = { type: 'number'; value: number } | { type: 'name'; value: string } | { type: 'op'; value: string };
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(\d+(?:\.\d*)?|\.\d+)(?:e([+-]?\d+))?|([a-z]+)|(\*\*|[-+*/%^(),]))/giy;
+  let match: RegExpExecArray | null;
+  while (pattern.lastIndex < input.length) {
+    const start = pattern.lastIndex;
+    match = pattern.exec(input);
+    if (!match) {
+      if (!input.slice(start).trim()) break;
+      throw new Error(`Unexpected character "${input.slice(start).trim()[0]}"`);
+    }
+    if (match[1] !== undefined) {
+      tokens.push({ type: 'number', value: Number(match[1]) * 10 ** Number(match[2] ?? 0) });
+    } else if (match[3] !== undefined) {
+      tokens.push({ type: 'name', value: match[3].toLowerCase() });
+    } else if (match[4] !== undefined) {
+      tokens.push({ type: 'op', value: match[4] === '**' ? '^' : match[4] });
+    }
+  }
+  return tokens;
+}
+
+/** Evaluates `+ - * / % ^`, parentheses, and a few named functions and constants. */
+export function evaluateExpression(input: string): number {
+  const tokens = tokenize(input.replace(/×/g, '*').replace(/÷/g, '/'));
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const isOp = (value: string) => peek()?.type === 'op' && peek().value === value;
+  const expect = (value: string) => {
+    if (!isOp(value)) throw new Error(`Expected "${value}"`);
+    pos++;
+  };
+
+  // expression := term (('+' | '-') term)*
+  const expression = (): number => {
+    let value = term();
+    while (isOp('+') || isOp('-')) {
+      const op = tokens[pos++].value;
+      value = op === '+' ? value + term() : value - term();
+    }
+    return value;
+  };
+
+  // term := unary (('*' | '/' | '%') unary)*
+  const term = (): number => {
+    let value = unary();
+    while (isOp('*') || isOp('/') || isOp('%')) {
+      const op = tokens[pos++].value;
+      const rhs = unary();
+      value = op === '*' ? value * rhs : op === '/' ? value / rhs : value % rhs;
+    }
+    return value;
+  };
+
+  // unary := ('-' | '+') unary | power   (so -2^2 is -4)
+  const unary = (): number => {
+    if (isOp('-')) {
+      pos++;
+      return -unary();
+    }
+    if (isOp('+')) {
+      pos++;
+      return unary();
+    }
+    return power();
+  };
+
+  // power := primary ('^' unary)?   (right-associative)
+  const power = (): number => {
+    const base = primary();
+    if (isOp('^')) {
+      pos++;
+      return base ** unary();
+    }
+    return base;
+  };
+
+  const primary = (): number => {
+    const token = tokens[pos++];
+    if (!token) throw new Error('Unexpected end of expression');
+    if (token.type === 'number') return token.value;
+    if (token.type === 'op' && token.value === '(') {
+      const value = expression();
+      expect(')');
+      return value;
+    }
+    if (token.type === 'name') {
+      if (token.value in FUNCTIONS) {
+        expect('(');
+        const arg = expression();
+        expect(')');
+        return FUNCTIONS[token.value](arg);
+      }
+      if (token.value in CONSTANTS) return CONSTANTS[token.value];
+      throw new Error(`Unknown name "${token.value}"`);
+    }
+    throw new Error(`Unexpected "${token.value}"`);
+  };
+
+  const result = expression();
+  if (pos < tokens.length) throw new Error(`Unexpected "${tokens[pos].value}"`);
+  if (!Number.isFinite(result)) throw new Error('Result is not a finite number');
+  return result;
+}
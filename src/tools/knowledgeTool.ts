@@ -0,0 +1,37 @@
+import { ToolDefinition } from './toolRegistry';
+import { Citation, KnowledgeHit } from '../types';
+
+const MAX_RESULTS = 5;
+
+export const sourceLabel = (citation: Citation) =>
+  citation.heading ? `${citation.documentName} › ${citation.heading}` : citation.documentName;
+
+/**
+ * Searches the team's uploaded documents. `onSources` receives the passages
+ * the model was given, so its answer can show where it came from.
+ */
+export function createSearchKnowledgeTool(
+  search: (query: string) => Promise<KnowledgeHit[]>,
+  onSources: (citations: Citation[]) => void,
+): ToolDefinition<{ query: string }> {
+  return {
+    name: 'search_knowledge',
+    description: "Searches the knowledge base of the team's own documents. Use it for any question about their products, services, policies or documentation, and answer from the passages it returns, naming the source you used. If nothing relevant comes back, say you don't know rather than guessing.",
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Keywords for what the user wants to know, e.g. "refund policy digital purchases".' },
+      },
+      required: ['query'],
+    },
+    handler: async ({ query }) => {
+      if (!query?.trim()) throw new Error('query must not be empty');
+      const hits = (await search(query)).slice(0, MAX_RESULTS);
+      onSources(hits.map(({ text, ...citation }) => citation));
+      if (hits.length === 0) {
+        return { results: [], note: 'Nothing in the knowledge base matches this query.' };
+      }
+      return { results: hits.map(hit => ({ source: sourceLabel(hit), text: hit.text })) };
+    },
+  };
+}
@@ -0,0 +1,64 @@
+import { ToolDefinition } from './toolRegistry';
+import { deleteMemory, saveMemory, searchMemories, updateMemory } from '../services/memoryService';
+import { Memory } from '../types';
+
+export const rememberTool: ToolDefinition<{ fact: string; replaces?: string }> = {
+  name: 'remember',
+  description: "Saves a lasting fact about the user, such as their name, preferences, family, work or plans, so you still know it in future conversations. Use it when the user asks you to remember something or shares something they'd clearly want remembered. Write the fact in the third person, e.g. \"The user is vegetarian.\" To correct a fact you already know, pass its id as `replaces`.",
+  parameters: {
+    type: 'object',
+    properties: {
+      fact: { type: 'string', description: 'One self-contained fact, e.g. "The user\'s daughter is called Mia."' },
+      replaces: { type: 'string', description: 'Id of an existing memory this one corrects or updates.' },
+    },
+    required: ['fact'],
+  },
+  handler: async ({ fact, replaces }) => {
+    if (!fact?.trim()) throw new Error('fact must not be empty');
+    const memory = replaces ? await updateMemory(replaces, fact.trim()) : await saveMemory(fact.trim());
+    return { saved: { id: memory.id, fact: memory.text } };
+  },
+};
+
+export const recallTool: ToolDefinition<{ query: string }> = {
+  name: 'recall',
+  description: "Searches what you remember about the user beyond the facts in your instructions. Use it when the user refers to something they told you before that you don't see there.",
+  parameters: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'Keywords for the fact, e.g. "allergies" or "sister birthday".' },
+    },
+    required: ['query'],
+  },
+  handler: async ({ query }) => {
+    if (!query?.trim()) throw new Error('query must not be empty');
+    const memories = await searchMemories(query);
+    if (memories.length === 0) return { memories: [], note: 'You have no memory matching this.' };
+    return { memories: memories.map(m => ({ id: m.id, fact: m.text })) };
+  },
+};
+
+export const forgetTool: ToolDefinition<{ id: string }> = {
+  name: 'forget',
+  description: 'Deletes a remembered fact when the user asks you to forget it or it is no longer true. Find its id in your instructions or with recall.',
+  parameters: {
+    type: 'object',
+    properties: {
+      id: { type: 'string', description: 'Id of the memory to delete.' },
+    },
+    required: ['id'],
+  },
+  handler: async ({ id }) => {
+    await deleteMemory(id);
+    return { deleted: id };
+  },
+};
+
+export const MEMORY_TOOLS: ToolDefinition[] = [rememberTool, recallTool, forgetTool];
+
+/** The briefing appended to a session's system instruction. */
+export function formatMemoryContext(memories: Memory[]) {
+  if (memories.length === 0) return '';
+  const facts = memories.map(m => `- ${m.text} (id: ${m.id})`).join('\n');
+  return `WHAT YOU REMEMBER ABOUT THE USER from earlier conversations. Use it naturally, without reciting it back:\n${facts}`;
+}
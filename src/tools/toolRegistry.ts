@@ -0,0 +1,95 @@
+import { Behavior, FunctionCall, FunctionDeclaration, FunctionResponse, FunctionResponseScheduling } from "@google/genai";
+import { ToolInvocation } from "../types";
+
+// Lets a tool talk back to the conversation after its call has returned, e.g. a timer going off.
+export interface ToolContext {
+  notify: (text: string) => void;
+}
+
+export interface ToolDefinition<Args = any> {
+  name: string;
+  description: string;
+  // JSON schema describing the tool's arguments object.
+  parameters: Record<string, unknown>;
+  handler: (args: Args, context: ToolContext) => unknown | Promise<unknown>;
+  // The model keeps talking while the call runs, and its result is not spoken about.
+  nonBlocking?: boolean;
+  // Bookkeeping tools that should not appear in the transcript.
+  hidden?: boolean;
+}
+
+export interface ToolCallRecord extends ToolInvocation {
+  id?: string;
+  nonBlocking?: boolean;
+  hidden?: boolean;
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+
+  constructor(private context: ToolContext) {}
+
+  register(...tools: ToolDefinition[]) {
+    for (const tool of tools) {
+      if (this.tools.has(tool.name)) {
+        throw new Error(`Tool "${tool.name}" is already registered`);
+      }
+      this.tools.set(tool.name, tool);
+    }
+    return this;
+  }
+
+  unregister(name: string) {
+    this.tools.delete(name);
+  }
+
+  has(name: string) {
+    return this.tools.has(name);
+  }
+
+  /** Declarations for the Live `config.tools` entry. */
+  declarations(): FunctionDeclaration[] {
+    return Array.from(this.tools.values(), tool => ({
+      name: tool.name,
+      description: tool.description,
+      parametersJsonSchema: tool.parameters,
+      behavior: tool.nonBlocking ? Behavior.NON_BLOCKING : undefined,
+    }));
+  }
+
+  /** Runs one function call. Handler errors are reported back to the model rather than thrown. */
+  async execute(call: FunctionCall): Promise<ToolCallRecord> {
+    const name = call.name ?? "";
+    const args = call.args ?? {};
+    const tool = this.tools.get(name);
+    if (!tool) {
+      return { id: call.id, name, args, error: `Unknown tool "${name}"` };
+    }
+    const record: ToolCallRecord = { id: call.id, name, args, nonBlocking: tool.nonBlocking, hidden: tool.hidden };
+    try {
+      return { ...record, result: await tool.handler(args, this.context) };
+    } catch (err) {
+      return { ...record, error: err instanceof Error ? err.message : String(err) };
+    }
+  }
+
+  async executeAll(calls: FunctionCall[]) {
+    return Promise.all(calls.map(call => this.execute(call)));
+  }
+}
+
+export function toFunctionResponse(record: ToolCallRecord): FunctionResponse {
+  return {
+    id: record.id,
+    name: record.name,
+    response: record.error !== undefined ? { error: record.error } : { output: record.result },
+    scheduling: record.nonBlocking ? FunctionResponseScheduling.SILENT : undefined,
+  };
+}
+
+/** One-line summary of a call for the transcript. */
+export function formatToolCall(record: ToolInvocation, maxLength = 160) {
+  const outcome = record.error !== undefined ? `failed: ${record.error}` : JSON.stringify(record.result);
+  const text = `${record.name}(${JSON.stringify(record.args)}) → ${outcome}`;
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
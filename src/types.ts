@@ -0,0 +1,182 @@
+// Types for LUCA's state
+export type Emotion = 'neutral' | 'happy' | 'thinking' | 'talking' | 'listening' | 'surprised' | 'sad' | 'excited';
+
+/**
+ * An assistant definition. Serializable to JSON so personas can be shared,
+ * stored on the server and edited in settings.
+ */
+export interface Persona {
+  id: string;
+  name: string;
+  description?: string;
+  // Template with {{variable}} placeholders; see renderSystemInstruction.
+  systemInstruction: string;
+  // Default values for template variables.
+  variables?: Record<string, string>;
+  voice: string;
+  model: string;
+  // BCP-47 code for speech output, e.g. 'en-US'. Left to the model when empty.
+  languageCode?: string;
+  emojis: Record<Emotion, string>;
+  // Set on personas that ship with the app.
+  builtin?: boolean;
+}
+
+export interface AudioSettings {
+  // Empty means the system default device.
+  inputDeviceId: string;
+  outputDeviceId: string;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  // Linear gain applied to the microphone before it is sent; 1 is unchanged.
+  inputGain: number;
+}
+
+export interface ToolInvocation {
+  name: string;
+  args: Record<string, unknown>;
+  result?: unknown;
+  error?: string;
+}
+
+// How a message came in: spoken and transcribed, written (typed messages and
+// text chat replies), or a tool call.
+export type MessageSource = 'voice' | 'typed' | 'tool';
+
+// Streaming messages are still arriving; interrupted AI messages were cut off
+// by the user barging in.
+export type MessageStatus = 'streaming' | 'complete' | 'interrupted';
+
+export interface Message {
+  role: 'user' | 'ai' | 'tool';
+  text: string;
+  // UUID, assigned by the client. Messages saved before these existed have their row number.
+  id: string;
+  createdAt: number;
+  // When a transcribed turn finished; used for caption timings.
+  endedAt?: number;
+  source: MessageSource;
+  status: MessageStatus;
+  // Avatar emotion at the time the message was committed.
+  emotion?: Emotion;
+  pinned?: boolean;
+  // Present on 'tool' messages.
+  tool?: ToolInvocation;
+  // Names of files or images sent with a typed user message.
+  attachments?: string[];
+  // Knowledge base sections an AI answer was grounded in.
+  citations?: Citation[];
+  // ISO 639 code of the language spoken, when LUCA detected it rather than being told.
+  language?: string;
+}
+
+export interface Citation {
+  documentId: string;
+  documentName: string;
+  // Section or page the passage came from, if known.
+  heading?: string;
+}
+
+export interface KnowledgeDocument {
+  id: string;
+  name: string;
+  mimeType: string;
+  // Bytes of the uploaded file.
+  size: number;
+  chunkCount: number;
+  createdAt: number;
+}
+
+// A passage returned by a knowledge base search, best match first.
+export interface KnowledgeHit extends Citation {
+  text: string;
+}
+
+export interface SessionSummary {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messageCount: number;
+  // Set when the session has an audio recording; the recording's time origin.
+  recordingStartedAt?: number;
+}
+
+export interface SessionDetail extends SessionSummary {
+  messages: Message[];
+}
+
+// A fact LUCA remembers about the user between sessions.
+export interface Memory {
+  id: string;
+  text: string;
+  createdAt: number;
+  updatedAt: number;
+  // Last time LUCA recalled it in a search.
+  lastUsedAt?: number;
+}
+
+// Time from the user finishing a turn to LUCA's reply becoming audible.
+export interface LatencySample {
+  at: number;
+  ms: number;
+}
+
+/**
+ * What a client reports about one live session. Counters are running totals;
+ * latencies are only the samples taken since the previous report.
+ */
+export interface TelemetryReport {
+  sessionId: string;
+  personaId: string;
+  startedAt: number;
+  endedAt?: number;
+  userTurns: number;
+  aiTurns: number;
+  // Times playback ran dry mid-turn and had to rebuffer.
+  underruns: number;
+  // Times the connection dropped and a reconnect was attempted.
+  reconnects: number;
+  promptTokens: number;
+  responseTokens: number;
+  totalTokens: number;
+  latencies: LatencySample[];
+}
+
+export interface TelemetrySession extends Omit<TelemetryReport, 'latencies'> {
+  updatedAt: number;
+  latencyCount: number;
+  medianLatency?: number;
+}
+
+export interface TelemetrySessionDetail extends TelemetrySession {
+  latencies: LatencySample[];
+}
+
+export interface TelemetryTotals {
+  sessions: number;
+  turns: number;
+  underruns: number;
+  reconnects: number;
+  tokens: number;
+  medianLatency?: number;
+  p90Latency?: number;
+}
+
+export interface TelemetryDay extends TelemetryTotals {
+  // UTC date, YYYY-MM-DD.
+  day: string;
+}
+
+export interface TelemetryOverview extends TelemetryTotals {
+  days: TelemetryDay[];
+}
+
+export interface User {
+  id: string;
+  username: string;
+  // Admins see the telemetry dashboard.
+  isAdmin: boolean;
+  createdAt: number;
+}
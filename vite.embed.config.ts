@@ -0,0 +1,29 @@
+import tailwindcss from '@tailwindcss/vite';
+import react from '@vitejs/plugin-react';
+import {defineConfig} from 'vite';
+
+// Builds the <luca-assistant> widget as a single module for other sites to load.
+// The server serves it from /embed/luca-assistant.js alongside the app.
+export default defineConfig(() => {
+  return {
+    plugins: [react(), tailwindcss()],
+    // Library builds leave process.env alone; the host page has no process
+    define: {
+      'process.env.NODE_ENV': JSON.stringify('production'),
+    },
+    // Assets such as the capture worklet are fetched from next to the script,
+    // not from the host page's origin
+    experimental: {
+      renderBuiltUrl: (filename: string) => ({ runtime: `new URL(${JSON.stringify(filename)}, import.meta.url).href` }),
+    },
+    build: {
+      outDir: 'dist/embed',
+      emptyOutDir: true,
+      lib: {
+        entry: 'src/embed/lucaAssistant.tsx',
+        formats: ['es' as const],
+        fileName: () => 'luca-assistant.js',
+      },
+    },
+  };
+});